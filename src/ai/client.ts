@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { z } from 'zod';
 import { getApiKey, getModel } from '../config/settings.js';
 
 let client: Anthropic | null = null;
@@ -50,47 +51,69 @@ export async function streamMessage(
   const anthropic = getAnthropicClient();
   const model = getCurrentModel();
 
-  const response = await anthropic.messages.create({
-    model,
-    max_tokens: 4096,
-    system: systemPrompt,
-    messages: messages as Anthropic.Messages.MessageParam[],
-    tools,
-    stream: true,
-  });
-
-  let fullMessage: Anthropic.Messages.Message | null = null;
-  let currentText = '';
-
-  for await (const event of response) {
-    if (event.type === 'message_start') {
-      fullMessage = event.message;
-    } else if (event.type === 'content_block_delta') {
-      if (event.delta.type === 'text_delta') {
-        currentText += event.delta.text;
-        callbacks.onText?.(event.delta.text);
+  try {
+    const response = await anthropic.messages.create({
+      model,
+      max_tokens: 4096,
+      system: systemPrompt,
+      messages: messages as Anthropic.Messages.MessageParam[],
+      tools,
+      stream: true,
+    });
+
+    let fullMessage: Anthropic.Messages.Message | null = null;
+    const content: Anthropic.Messages.ContentBlock[] = [];
+    // Tool inputs arrive as partial JSON strings, keyed by content block index
+    const toolInputJson = new Map<number, string>();
+
+    for await (const event of response) {
+      if (event.type === 'message_start') {
+        fullMessage = event.message;
+      } else if (event.type === 'content_block_start') {
+        content[event.index] = { ...event.content_block } as Anthropic.Messages.ContentBlock;
+        if (event.content_block.type === 'tool_use') {
+          toolInputJson.set(event.index, '');
+        }
+      } else if (event.type === 'content_block_delta') {
+        const block = content[event.index];
+        if (event.delta.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text;
+          callbacks.onText?.(event.delta.text);
+        } else if (event.delta.type === 'input_json_delta') {
+          toolInputJson.set(
+            event.index,
+            (toolInputJson.get(event.index) ?? '') + event.delta.partial_json
+          );
+        }
+      } else if (event.type === 'content_block_stop') {
+        const block = content[event.index];
+        if (block?.type === 'tool_use') {
+          const json = toolInputJson.get(event.index);
+          block.input = json ? JSON.parse(json) : {};
+          callbacks.onToolUse?.(block.name, block.input);
+        }
+      } else if (event.type === 'message_delta') {
+        if (fullMessage) {
+          fullMessage.stop_reason = event.delta.stop_reason ?? null;
+          fullMessage.stop_sequence = event.delta.stop_sequence ?? null;
+          fullMessage.usage.output_tokens = event.usage.output_tokens;
+        }
+      } else if (event.type === 'message_stop') {
+        callbacks.onComplete?.();
       }
-    } else if (event.type === 'content_block_stop') {
-      // Content block finished
-    } else if (event.type === 'message_delta') {
-      if (fullMessage) {
-        fullMessage.stop_reason = event.delta.stop_reason ?? null;
-      }
-    } else if (event.type === 'message_stop') {
-      callbacks.onComplete?.();
     }
-  }
 
-  // Get the final message
-  const finalResponse = await anthropic.messages.create({
-    model,
-    max_tokens: 4096,
-    system: systemPrompt,
-    messages: messages as Anthropic.Messages.MessageParam[],
-    tools,
-  });
+    if (!fullMessage) {
+      throw new Error('Stream ended before the message started');
+    }
 
-  return finalResponse;
+    // Drop any gaps left by unknown block types
+    fullMessage.content = content.filter(Boolean);
+    return fullMessage;
+  } catch (error) {
+    callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
 }
 
 export async function sendMessage(
@@ -109,3 +132,30 @@ export async function sendMessage(
     tools,
   });
 }
+
+// Ask for one structured answer by forcing a call to the given tool, validated by the schema
+export async function requestStructured<T>(
+  systemPrompt: string,
+  prompt: string,
+  tool: Anthropic.Messages.Tool,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const anthropic = getAnthropicClient();
+  const model = getCurrentModel();
+
+  const response = await anthropic.messages.create({
+    model,
+    max_tokens: 4096,
+    system: systemPrompt,
+    messages: [{ role: 'user', content: prompt }],
+    tools: [tool],
+    tool_choice: { type: 'tool', name: tool.name },
+  });
+
+  const toolUse = response.content.find((block) => block.type === 'tool_use');
+  if (!toolUse || toolUse.type !== 'tool_use') {
+    throw new Error(`The model did not return a ${tool.name} result`);
+  }
+
+  return schema.parse(toolUse.input);
+}
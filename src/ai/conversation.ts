@@ -1,18 +1,75 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { sendMessage, type ConversationMessage } from './client.js';
-import { toolDefinitions, ToolExecutor, type ToolName } from './tools/index.js';
-import { BA_SYSTEM_PROMPT } from './prompts/index.js';
-import { displayAIResponse, startSpinner, stopSpinner } from '../ui/index.js';
+import { streamMessage, type ConversationMessage, type StreamCallbacks } from './client.js';
+import {
+  toolDefinitions,
+  ToolExecutor,
+  WRITE_TOOLS,
+  type ToolName,
+  type ToolResult,
+} from './tools/index.js';
+import { BA_SYSTEM_PROMPT, buildPersonaPrompt } from './prompts/index.js';
+import { StorageManager } from '../storage/index.js';
+import { loadProjectConfig } from '../config/index.js';
+import type { AiConfig, ChangeSet, Session, SessionKind } from '../models/index.js';
+import {
+  displayAIResponse,
+  displayFileChanges,
+  askConfirm,
+  startSpinner,
+  stopSpinner,
+  clearSpinner,
+} from '../ui/index.js';
 import chalk from 'chalk';
 
+export interface UndoResult {
+  // The change set that was undone, or that could not be because of conflicts
+  changeSet: ChangeSet | null;
+  // Files edited since the AI wrote them
+  conflicts: string[];
+}
+
+export interface ConversationOptions {
+  systemPrompt?: string;
+  // When onText is set, text is printed as it streams instead of after each turn
+  callbacks?: StreamCallbacks;
+  // Which command started the session, and a saved session to continue
+  sessionKind?: SessionKind;
+  resumeSession?: Session;
+  // Show every change the tools would make without writing anything, transcript included
+  dryRun?: boolean;
+}
+
+// Session IDs sort by creation time, e.g. "20250114-093012-k3f9"
+function createSessionId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const suffix = Math.random().toString(36).slice(2, 6);
+  return `${stamp}-${suffix}`;
+}
+
 export class ConversationManager {
   private messages: ConversationMessage[] = [];
   private toolExecutor: ToolExecutor;
+  private storage: StorageManager;
   private systemPrompt: string;
+  private callbacks: StreamCallbacks;
+  private session: Session;
+  private dryRun: boolean;
+  private autoApprove: AiConfig['autoApprove'];
 
-  constructor(projectPath: string, customSystemPrompt?: string) {
+  constructor(projectPath: string, options: ConversationOptions = {}) {
     this.toolExecutor = new ToolExecutor(projectPath);
-    this.systemPrompt = customSystemPrompt || BA_SYSTEM_PROMPT;
+    this.storage = new StorageManager(projectPath);
+    this.systemPrompt = options.systemPrompt || BA_SYSTEM_PROMPT;
+    this.callbacks = options.callbacks || {};
+    this.dryRun = options.dryRun || false;
+    this.autoApprove = loadProjectConfig(projectPath)?.ai?.autoApprove || false;
+
+    if (options.resumeSession) {
+      this.session = options.resumeSession;
+      this.messages = options.resumeSession.messages as ConversationMessage[];
+    } else {
+      this.session = this.newSession(options.sessionKind || 'chat');
+    }
   }
 
   async chat(userMessage: string): Promise<void> {
@@ -22,28 +79,106 @@ export class ConversationManager {
       content: userMessage,
     });
 
-    // Process the conversation (may involve multiple tool calls)
-    await this.processConversation();
+    if (!this.session.title) {
+      this.session.title = userMessage.slice(0, 80);
+    }
+
+    // Process the conversation (may involve multiple tool calls), snapshotting
+    // what the tools write so the whole turn can be undone
+    this.toolExecutor.beginChangeSet({ sessionId: this.session.id, label: userMessage });
+    try {
+      await this.processConversation();
+    } finally {
+      this.toolExecutor.endChangeSet();
+    }
+  }
+
+  // Revert the latest turn of this session that changed files and tell the AI about it.
+  // Nothing is reverted when a file was edited since, unless force is set.
+  async undoLastChange(options: { force?: boolean } = {}): Promise<UndoResult> {
+    const changeSet = (await this.storage.listChangeSets()).find(
+      (c) => c.sessionId === this.session.id && !c.undoneAt
+    );
+    if (!changeSet) {
+      return { changeSet: null, conflicts: [] };
+    }
+
+    const conflicts = this.storage.findUndoConflicts(changeSet);
+    if (conflicts.length > 0 && !options.force) {
+      return { changeSet, conflicts };
+    }
+
+    await this.storage.undoChangeSet(changeSet);
+    this.addContext(
+      `The user undid the changes from their message "${changeSet.label}". ` +
+        `These files are back to how they were before it: ${changeSet.files.map((f) => f.path).join(', ')}.`
+    );
+    await this.saveSession();
+    return { changeSet, conflicts };
+  }
+
+  getSessionId(): string {
+    return this.session.id;
+  }
+
+  // True once the transcript has been written to disk
+  hasSavedSession(): boolean {
+    return this.session.messages.length > 0;
+  }
+
+  private newSession(kind: SessionKind): Session {
+    const now = new Date().toISOString();
+    return { id: createSessionId(), kind, messages: [], createdAt: now, updatedAt: now };
+  }
+
+  // Personas are read each turn so ones created mid-session are picked up
+  private async buildSystemPrompt(): Promise<string> {
+    const personas = await this.storage.listPersonas();
+    if (personas.length === 0) {
+      return this.systemPrompt;
+    }
+    return `${this.systemPrompt}\n\n${buildPersonaPrompt(personas)}`;
+  }
+
+  // Write the transcript, including tool calls and results, to the project
+  private async saveSession(): Promise<void> {
+    if (this.dryRun) return;
+    this.session.messages = this.messages as Session['messages'];
+    this.session.updatedAt = new Date().toISOString();
+    await this.storage.saveSession(this.session);
   }
 
   private async processConversation(): Promise<void> {
     let continueLoop = true;
 
     while (continueLoop) {
-      const spinner = startSpinner('Thinking...');
+      startSpinner('Thinking...');
+      let spinnerActive = true;
 
       try {
-        // Send message to Claude
-        const response = await sendMessage(
-          this.systemPrompt,
-          this.messages,
-          toolDefinitions
-        );
+        // Stream the response, clearing the spinner once the first token arrives
+        const systemPrompt = await this.buildSystemPrompt();
+        const response = await streamMessage(systemPrompt, this.messages, toolDefinitions, {
+          ...this.callbacks,
+          onText: this.callbacks.onText
+            ? (text) => {
+                if (spinnerActive) {
+                  clearSpinner();
+                  spinnerActive = false;
+                  console.log();
+                }
+                this.callbacks.onText?.(text);
+              }
+            : undefined,
+        });
 
-        stopSpinner(true);
+        if (spinnerActive) {
+          stopSpinner(true);
+        }
 
         // Process the response
         continueLoop = await this.handleResponse(response);
+        await this.saveSession();
       } catch (error) {
         stopSpinner(false, 'Error communicating with AI');
         console.error(
@@ -63,12 +198,14 @@ export class ConversationManager {
     const toolUseBlocks: Anthropic.Messages.ToolUseBlock[] = [];
     let hasText = false;
 
-    // Process all content blocks
+    // Process all content blocks; streamed text has already been printed
     for (const block of contentBlocks) {
       if (block.type === 'text') {
         hasText = true;
         console.log();
-        displayAIResponse(block.text);
+        if (!this.callbacks.onText) {
+          displayAIResponse(block.text);
+        }
       } else if (block.type === 'tool_use') {
         toolUseBlocks.push(block);
       }
@@ -92,7 +229,7 @@ export class ConversationManager {
         console.log();
         console.log(chalk.dim(`⚙ Using tool: ${toolName}`));
 
-        const result = await this.toolExecutor.execute(toolName, toolInput);
+        const result = await this.runTool(toolName, toolInput);
 
         toolResults.push({
           type: 'tool_result',
@@ -125,14 +262,64 @@ export class ConversationManager {
     return response.stop_reason === 'tool_use';
   }
 
+  private needsApproval(toolName: ToolName): boolean {
+    if (!WRITE_TOOLS.has(toolName)) return false;
+    return Array.isArray(this.autoApprove)
+      ? !this.autoApprove.includes(toolName)
+      : !this.autoApprove;
+  }
+
+  // Write tools only touch the project once the user approves the diff of what they
+  // would change; in a dry run every tool's changes are shown and then dropped
+  private async runTool(toolName: ToolName, toolInput: Record<string, unknown>): Promise<ToolResult> {
+    if (!this.dryRun && !this.needsApproval(toolName)) {
+      return this.toolExecutor.execute(toolName, toolInput);
+    }
+
+    const { result, changes } = await this.toolExecutor.executeStaged(toolName, toolInput);
+    if (!result.success || changes.length === 0) {
+      this.toolExecutor.discardStaged();
+      return result;
+    }
+
+    console.log();
+    console.log(chalk.bold(this.dryRun ? `Dry run: ${toolName} would change` : `${toolName} will change`));
+    displayFileChanges(changes);
+    console.log();
+
+    if (this.dryRun) {
+      this.toolExecutor.discardStaged();
+      return {
+        success: true,
+        data: {
+          dryRun: true,
+          message: 'Dry run: the changes were shown to the user but not saved',
+          result: result.data,
+        },
+      };
+    }
+
+    if (await askConfirm('Apply these changes?')) {
+      this.toolExecutor.commitStaged();
+      return result;
+    }
+
+    this.toolExecutor.discardStaged();
+    return {
+      success: false,
+      error: 'The user declined these changes, so nothing was saved. Ask what they would like changed.',
+    };
+  }
+
   // Get conversation history for context
   getHistory(): ConversationMessage[] {
     return [...this.messages];
   }
 
-  // Clear conversation history
+  // Clear conversation history; the saved transcript is kept and a new session begins
   clearHistory(): void {
     this.messages = [];
+    this.session = this.newSession(this.session.kind);
   }
 
   // Add context to the conversation (e.g., project info)
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageManager } from '../storage/index.js';
+import { story, createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { requestStructured } from './client.js';
+import { checkForDuplicates } from './duplicates.js';
+
+vi.mock('./client.js', () => ({ requestStructured: vi.fn() }));
+
+describe('checkForDuplicates', () => {
+  let projectPath: string;
+  let storage: StorageManager;
+
+  beforeEach(async () => {
+    projectPath = createTempProject();
+    storage = new StorageManager(projectPath);
+    await storage.createStory(
+      story('reset-password', {
+        title: 'Reset a forgotten password',
+        iWant: 'to reset my password by email',
+      })
+    );
+    await storage.createStory(
+      story('wishlist', { title: 'Keep a wishlist', iWant: 'to save products for later' })
+    );
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+    vi.mocked(requestStructured).mockReset();
+  });
+
+  it('does not ask the model when nothing passes the similarity threshold', async () => {
+    const check = await checkForDuplicates(storage, story('pay-by-card', { title: 'Pay by card' }));
+    expect(check).toEqual({ candidates: [], findings: [] });
+    expect(requestStructured).not.toHaveBeenCalled();
+  });
+
+  it('asks the model about the close matches only and drops unrelated findings', async () => {
+    vi.mocked(requestStructured).mockResolvedValue({
+      findings: [
+        {
+          storyId: 'recover-password',
+          otherStoryId: 'reset-password',
+          relationship: 'duplicate',
+          explanation: 'Both reset a password by email',
+          suggestion: 'Update reset-password instead',
+        },
+        {
+          storyId: 'recover-password',
+          otherStoryId: 'wishlist',
+          relationship: 'unrelated',
+          explanation: '',
+          suggestion: '',
+        },
+      ],
+    });
+
+    const check = await checkForDuplicates(
+      storage,
+      story('recover-password', {
+        title: 'Recover a forgotten password',
+        iWant: 'to get a password reset email',
+      })
+    );
+
+    expect(check.candidates.map((c) => c.story.id)).toEqual(['reset-password']);
+    expect(check.findings.map((f) => [f.otherStoryId, f.relationship])).toEqual([
+      ['reset-password', 'duplicate'],
+    ]);
+    const prompt = vi.mocked(requestStructured).mock.calls[0][1];
+    expect(prompt).toContain('[reset-password]');
+    expect(prompt).not.toContain('[wishlist]');
+  });
+});
@@ -0,0 +1,118 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { requestStructured } from './client.js';
+import { DUPLICATE_DETECTION_PROMPT } from './prompts/index.js';
+import type { StorageManager } from '../storage/index.js';
+import type { Story } from '../models/index.js';
+import { findSimilarStories, type SimilarStory } from '../search/index.js';
+
+const RELATIONSHIPS = ['duplicate', 'overlapping', 'related', 'conflicting', 'unrelated'] as const;
+
+const DuplicateFindingSchema = z.object({
+  storyId: z.string(),
+  otherStoryId: z.string(),
+  relationship: z.enum(RELATIONSHIPS),
+  explanation: z.string(),
+  suggestion: z.string().default(''),
+});
+export type DuplicateFinding = z.infer<typeof DuplicateFindingSchema>;
+
+const DuplicateFindingsSchema = z.object({
+  findings: z.array(DuplicateFindingSchema),
+});
+
+const duplicateTool: Anthropic.Messages.Tool = {
+  name: 'record_story_relationships',
+  description: 'Record how the given stories relate to each other',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      findings: {
+        type: 'array',
+        description: 'One entry per pair of stories that were compared',
+        items: {
+          type: 'object',
+          properties: {
+            storyId: { type: 'string', description: 'ID of the first story' },
+            otherStoryId: { type: 'string', description: 'ID of the story it is compared with' },
+            relationship: { type: 'string', enum: [...RELATIONSHIPS] },
+            explanation: { type: 'string', description: 'Why the stories relate this way' },
+            suggestion: {
+              type: 'string',
+              description: 'How to proceed, e.g. merge, split scope, add a dependency',
+            },
+          },
+          required: ['storyId', 'otherStoryId', 'relationship', 'explanation', 'suggestion'],
+        },
+      },
+    },
+    required: ['findings'],
+  },
+};
+
+function describeStory(story: Story): string {
+  const lines = [`[${story.id}] ${story.title} (feature: ${story.feature || 'backlog'})`];
+  if (story.asA || story.iWant || story.soThat) {
+    lines.push(
+      `  As a ${story.asA || '?'}, I want ${story.iWant || '?'}, so that ${story.soThat || '?'}`
+    );
+  }
+  for (const ac of story.acceptanceCriteria) {
+    lines.push(`  - ${ac.text}`);
+  }
+  return lines.join('\n');
+}
+
+// Ask the model how the stories relate; with a focus story, only pairs involving it are compared
+export async function classifyStoryRelationships(
+  stories: Story[],
+  focus?: Story
+): Promise<DuplicateFinding[]> {
+  const prompt = focus
+    ? [
+        'New story being created:',
+        describeStory(focus),
+        '',
+        'Existing stories that look similar:',
+        ...stories.map(describeStory),
+        '',
+        `Compare the new story "${focus.id}" with each existing story.`,
+      ]
+    : [
+        'Stories that look similar:',
+        ...stories.map(describeStory),
+        '',
+        'Compare every pair of these stories.',
+      ];
+
+  const result = await requestStructured(
+    DUPLICATE_DETECTION_PROMPT,
+    prompt.join('\n'),
+    duplicateTool,
+    DuplicateFindingsSchema
+  );
+  return result.findings.filter((finding) => finding.relationship !== 'unrelated');
+}
+
+export interface DuplicateCheck {
+  candidates: SimilarStory[];
+  findings: DuplicateFinding[];
+}
+
+// Pre-filter the backlog locally, then let the model classify the closest matches
+export async function checkForDuplicates(
+  storage: StorageManager,
+  story: Story
+): Promise<DuplicateCheck> {
+  const existing = await storage.listStories();
+  const candidates = findSimilarStories(story, existing);
+  if (candidates.length === 0) {
+    return { candidates, findings: [] };
+  }
+
+  const findings = await classifyStoryRelationships(
+    candidates.map((c) => c.story),
+    story
+  );
+  return { candidates, findings };
+}
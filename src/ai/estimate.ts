@@ -0,0 +1,112 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { requestStructured } from './client.js';
+import { ESTIMATION_PROMPT } from './prompts/index.js';
+import type { Story } from '../models/index.js';
+import { parseStoryPoints } from '../backlog/index.js';
+import { findSimilarStories } from '../search/index.js';
+
+const CONFIDENCE_LEVELS = ['low', 'medium', 'high'] as const;
+
+// Most similar references first, then one per other estimate value to anchor the scale
+const SIMILAR_REFERENCES = 5;
+const MAX_REFERENCES = 10;
+
+const StoryEstimateSchema = z.object({
+  estimate: z.string().min(1),
+  confidence: z.enum(CONFIDENCE_LEVELS),
+  reasoning: z.string(),
+  referenceStoryIds: z.array(z.string()).default([]),
+});
+export type StoryEstimate = z.infer<typeof StoryEstimateSchema>;
+
+const estimateTool: Anthropic.Messages.Tool = {
+  name: 'record_estimate',
+  description: 'Record the estimate for the story',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      estimate: {
+        type: 'string',
+        description: 'Story points (e.g. "5") or a t-shirt size (e.g. "M"), on the references\' scale',
+      },
+      confidence: { type: 'string', enum: [...CONFIDENCE_LEVELS] },
+      reasoning: { type: 'string', description: 'Why, compared with the reference stories' },
+      referenceStoryIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'IDs of the reference stories the estimate is closest to',
+      },
+    },
+    required: ['estimate', 'confidence', 'reasoning', 'referenceStoryIds'],
+  },
+};
+
+function describeStory(story: Story): string {
+  const lines = [`[${story.id}] ${story.title}`];
+  if (story.estimate) {
+    lines[0] += ` (estimate: ${story.estimate})`;
+  }
+  if (story.asA || story.iWant || story.soThat) {
+    lines.push(
+      `  As a ${story.asA || '?'}, I want ${story.iWant || '?'}, so that ${story.soThat || '?'}`
+    );
+  }
+  for (const ac of story.acceptanceCriteria) {
+    lines.push(`  - ${ac.text}`);
+  }
+  if (story.edgeCases.length > 0) {
+    lines.push(`  Edge cases: ${story.edgeCases.join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+// Done stories with an estimate that the story is best compared against
+export function selectReferenceStories(story: Story, stories: Story[]): Story[] {
+  const estimated = stories.filter(
+    (s) => s.id !== story.id && s.status === 'done' && s.estimate
+  );
+
+  const references = findSimilarStories(story, estimated, {
+    threshold: 0,
+    limit: SIMILAR_REFERENCES,
+  }).map((match) => match.story);
+
+  const seen = new Set(references.map((s) => s.estimate?.toLowerCase()));
+  for (const candidate of estimated) {
+    if (references.length >= MAX_REFERENCES) break;
+    const value = candidate.estimate?.toLowerCase();
+    if (!seen.has(value)) {
+      seen.add(value);
+      references.push(candidate);
+    }
+  }
+
+  // Smallest first so the model sees the scale in order
+  return references.sort(
+    (a, b) => (parseStoryPoints(a.estimate) ?? 0) - (parseStoryPoints(b.estimate) ?? 0)
+  );
+}
+
+// Estimate a story by relative sizing against finished reference stories
+export async function estimateStory(story: Story, references: Story[]): Promise<StoryEstimate> {
+  const prompt = [
+    'Story to estimate:',
+    describeStory({ ...story, estimate: undefined }),
+    '',
+    references.length > 0
+      ? 'Finished reference stories:'
+      : 'The project has no finished, estimated stories yet. Use story points and keep confidence low.',
+    ...references.map(describeStory),
+  ].join('\n');
+
+  const result = await requestStructured(ESTIMATION_PROMPT, prompt, estimateTool, StoryEstimateSchema);
+
+  // Only keep references the model was actually given
+  const known = new Set(references.map((s) => s.id));
+  return {
+    ...result,
+    estimate: result.estimate.trim(),
+    referenceStoryIds: result.referenceStoryIds.filter((id) => known.has(id)),
+  };
+}
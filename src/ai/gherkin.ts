@@ -0,0 +1,63 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { requestStructured } from './client.js';
+import { GHERKIN_CONVERSION_PROMPT } from './prompts/index.js';
+import type { CriteriaConverter } from '../exchange/index.js';
+
+const GherkinScenariosSchema = z.object({
+  scenarios: z.array(
+    z.array(
+      z.object({
+        keyword: z.enum(['Given', 'When', 'Then', 'And', 'But']),
+        text: z.string(),
+      })
+    )
+  ),
+});
+
+const gherkinTool: Anthropic.Messages.Tool = {
+  name: 'record_gherkin_scenarios',
+  description: 'Record the Gherkin steps for each acceptance criterion, in order',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      scenarios: {
+        type: 'array',
+        description: 'One list of steps per acceptance criterion',
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              keyword: { type: 'string', enum: ['Given', 'When', 'Then', 'And', 'But'] },
+              text: { type: 'string', description: 'Step text without the keyword' },
+            },
+            required: ['keyword', 'text'],
+          },
+        },
+      },
+    },
+    required: ['scenarios'],
+  },
+};
+
+// Convert free-text acceptance criteria to Gherkin steps with the model
+export const convertCriteriaToGherkin: CriteriaConverter = async (story, criteria) => {
+  const prompt = [
+    `Story: ${story.title}`,
+    `As a ${story.asA || '(unspecified)'}`,
+    `I want ${story.iWant || '(unspecified)'}`,
+    `So that ${story.soThat || '(unspecified)'}`,
+    '',
+    'Acceptance criteria:',
+    ...criteria.map((text, i) => `${i + 1}. ${text}`),
+  ].join('\n');
+
+  const result = await requestStructured(
+    GHERKIN_CONVERSION_PROMPT,
+    prompt,
+    gherkinTool,
+    GherkinScenariosSchema
+  );
+  return result.scenarios;
+};
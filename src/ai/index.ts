@@ -1,4 +1,23 @@
-export { getAnthropicClient, sendMessage, streamMessage } from './client.js';
-export { ConversationManager } from './conversation.js';
+export {
+  getAnthropicClient,
+  sendMessage,
+  streamMessage,
+  requestStructured,
+  type StreamCallbacks,
+} from './client.js';
+export { ConversationManager, type ConversationOptions, type UndoResult } from './conversation.js';
 export { toolDefinitions, ToolExecutor } from './tools/index.js';
 export { BA_SYSTEM_PROMPT, STORY_REVIEW_PROMPT, DUPLICATE_DETECTION_PROMPT } from './prompts/index.js';
+export { convertCriteriaToGherkin } from './gherkin.js';
+export { reviewStory, calculateOverallScore } from './review.js';
+export {
+  checkForDuplicates,
+  classifyStoryRelationships,
+  type DuplicateCheck,
+  type DuplicateFinding,
+} from './duplicates.js';
+export {
+  estimateStory,
+  selectReferenceStories,
+  type StoryEstimate,
+} from './estimate.js';
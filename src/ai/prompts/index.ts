@@ -1 +1,8 @@
-export { BA_SYSTEM_PROMPT, STORY_REVIEW_PROMPT, DUPLICATE_DETECTION_PROMPT } from './system.js';
+export {
+  BA_SYSTEM_PROMPT,
+  STORY_REVIEW_PROMPT,
+  DUPLICATE_DETECTION_PROMPT,
+  GHERKIN_CONVERSION_PROMPT,
+  ESTIMATION_PROMPT,
+  buildPersonaPrompt,
+} from './system.js';
@@ -0,0 +1,78 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { requestStructured, getCurrentModel } from './client.js';
+import { STORY_REVIEW_PROMPT } from './prompts/index.js';
+import { storyToMarkdown } from '../storage/index.js';
+import {
+  InvestAnalysisSchema,
+  type InvestAnalysis,
+  type Story,
+  type StoryReview,
+} from '../models/index.js';
+
+const INVEST_CRITERIA = [
+  'independent',
+  'negotiable',
+  'valuable',
+  'estimable',
+  'small',
+  'testable',
+] as const;
+
+// The model scores each criterion; the overall score is derived so reviews stay comparable
+const ReviewResultSchema = InvestAnalysisSchema.omit({ overallScore: true });
+
+const criterionProperty = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 1, maximum: 10, description: 'Score from 1 to 10' },
+    feedback: { type: 'string', description: 'Specific feedback for this criterion' },
+  },
+  required: ['score', 'feedback'],
+};
+
+const reviewTool: Anthropic.Messages.Tool = {
+  name: 'record_invest_review',
+  description: 'Record the INVEST review of the story',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      ...Object.fromEntries(INVEST_CRITERIA.map((name) => [name, criterionProperty])),
+      summary: { type: 'string', description: 'Overall assessment in one or two sentences' },
+      suggestions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Improvement suggestions, most important first',
+      },
+    },
+    required: [...INVEST_CRITERIA, 'summary', 'suggestions'],
+  },
+};
+
+// Average of the six criterion scores, rounded to one decimal
+export function calculateOverallScore(analysis: Omit<InvestAnalysis, 'overallScore'>): number {
+  const total = INVEST_CRITERIA.reduce((sum, name) => sum + analysis[name].score, 0);
+  return Math.round((total / INVEST_CRITERIA.length) * 10) / 10;
+}
+
+// Review a story against INVEST with the model
+export async function reviewStory(story: Story): Promise<StoryReview> {
+  // Earlier reviews are left out so they do not anchor the new scores
+  const prompt = [
+    'Review this user story:',
+    '',
+    storyToMarkdown({ ...story, reviews: [] }),
+  ].join('\n');
+
+  const result = await requestStructured(
+    STORY_REVIEW_PROMPT,
+    prompt,
+    reviewTool,
+    ReviewResultSchema
+  );
+
+  return {
+    reviewedAt: new Date().toISOString(),
+    model: getCurrentModel(),
+    analysis: { ...result, overallScore: calculateOverallScore(result) },
+  };
+}
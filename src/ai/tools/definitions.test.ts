@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { validateToolInput, toolDefinitions } from './definitions.js';
+
+const story = {
+  id: 'reset-password',
+  title: 'Reset a forgotten password',
+  asA: 'registered user',
+  iWant: 'to reset my password',
+  soThat: 'I can sign in again',
+  acceptanceCriteria: ['A reset link is emailed'],
+};
+
+describe('validateToolInput', () => {
+  it('accepts valid input', () => {
+    expect(validateToolInput('create_story', story)).toEqual({ success: true, input: story });
+  });
+
+  it('reports every invalid field with its path', () => {
+    const result = validateToolInput('create_story', {
+      ...story,
+      title: '',
+      priority: 'urgent',
+      acceptanceCriteria: 'A reset link is emailed',
+    });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((i) => i.path)).toEqual(['title', 'acceptanceCriteria', 'priority']);
+    expect(result.error).toMatch(
+      /^Invalid input for create_story - title: .+; acceptanceCriteria: /
+    );
+    expect(result.error).toContain('Fix these fields and call the tool again.');
+  });
+
+  it('rejects missing and unknown fields', () => {
+    const { soThat: _, ...missing } = story;
+    const result = validateToolInput('create_story', { ...missing, sothat: 'typo' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((i) => i.path)).toEqual(['soThat', '']);
+    expect(result.issues[1].message).toContain('sothat');
+  });
+
+  it('rejects IDs that are not safe as file names', () => {
+    for (const id of ['../escape', 'a/b', '-leading-dash', '']) {
+      expect(validateToolInput('create_story', { ...story, id }).success).toBe(false);
+    }
+  });
+
+  it('applies the same ID rule to existing stories and features', () => {
+    const unsafe = '../../x';
+    expect(validateToolInput('create_story', { ...story, feature: unsafe }).success).toBe(false);
+    expect(validateToolInput('update_story', { id: unsafe, updates: {} }).success).toBe(false);
+    expect(
+      validateToolInput('update_story', { id: 'a', feature: unsafe, updates: {} }).success
+    ).toBe(false);
+    expect(validateToolInput('list_stories', { feature: unsafe }).success).toBe(false);
+    expect(validateToolInput('get_backlog', { feature: unsafe }).success).toBe(false);
+    expect(validateToolInput('analyze_story_quality', { storyId: unsafe }).success).toBe(false);
+  });
+
+  it('treats missing input as an empty object and rejects unknown tools', () => {
+    const empty = validateToolInput('list_stories', undefined);
+    expect(empty.success).toBe(true);
+
+    const unknown = validateToolInput('no_such_tool' as 'list_stories', {});
+    expect(unknown).toEqual({ success: false, error: 'Unknown tool: no_such_tool', issues: [] });
+  });
+});
+
+describe('toolDefinitions', () => {
+  it('gives the model an input schema for every tool without unknown fields', () => {
+    const createStory = toolDefinitions.find((t) => t.name === 'create_story');
+    expect(createStory?.input_schema).toMatchObject({
+      type: 'object',
+      additionalProperties: false,
+      required: ['id', 'title', 'asA', 'iWant', 'soThat', 'acceptanceCriteria'],
+    });
+    expect(toolDefinitions.every((t) => t.input_schema.type === 'object')).toBe(true);
+  });
+});
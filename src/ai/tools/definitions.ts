@@ -1,262 +1,289 @@
 import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { Priority, StoryStatus, ScoringModel, MoscowCategory } from '../../models/index.js';
 
-export const toolDefinitions: Anthropic.Messages.Tool[] = [
-  {
-    name: 'create_story',
+// Story, feature and persona IDs name files and directories, so every ID a tool takes,
+// new or existing, is kept to letters, digits, - and _
+const Id = z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_-]*$/, 'Use letters, digits, "-" and "_" only');
+
+const InFeature = Id.describe(
+  'Feature ID where the story is located (optional - only needed if the story ID exists in several features)'
+);
+
+const TextList = z.array(z.string());
+
+// Every tool's description and input schema. The schema validates the input before the
+// tool runs and is converted to the JSON schema the model sees, so the two cannot drift.
+// Unknown fields are rejected so a mistyped field is reported instead of ignored.
+const tools = {
+  create_story: {
     description:
       'Create a new user story with the provided details. Use this after gathering requirements from the user through questions.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        id: {
-          type: 'string',
-          description: 'URL-friendly ID for the story (e.g., "user-can-reset-password")',
-        },
-        title: {
-          type: 'string',
-          description: 'Brief descriptive title for the story',
-        },
-        feature: {
-          type: 'string',
-          description: 'Feature/epic ID this story belongs to (optional)',
-        },
-        asA: {
-          type: 'string',
-          description: 'The user role/persona (e.g., "registered user", "admin")',
-        },
-        iWant: {
-          type: 'string',
-          description: 'What the user wants to accomplish',
-        },
-        soThat: {
-          type: 'string',
-          description: 'The value/benefit the user gains',
-        },
-        acceptanceCriteria: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'List of acceptance criteria (testable conditions)',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'critical'],
-          description: 'Priority level',
-        },
-        edgeCases: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Edge cases to consider',
-        },
-        openQuestions: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Questions that need to be resolved',
-        },
-      },
-      required: ['id', 'title', 'asA', 'iWant', 'soThat', 'acceptanceCriteria'],
-    },
+    input: z.strictObject({
+      id: Id.describe('URL-friendly ID for the story (e.g., "user-can-reset-password")'),
+      title: z.string().min(1).describe('Brief descriptive title for the story'),
+      feature: Id.optional().describe('Feature/epic ID this story belongs to (optional)'),
+      asA: z.string().describe('The user role/persona (e.g., "registered user", "admin")'),
+      iWant: z.string().describe('What the user wants to accomplish'),
+      soThat: z.string().describe('The value/benefit the user gains'),
+      acceptanceCriteria: TextList.describe('List of acceptance criteria (testable conditions)'),
+      priority: Priority.optional().describe('Priority level'),
+      edgeCases: TextList.optional().describe('Edge cases to consider'),
+      openQuestions: TextList.optional().describe('Questions that need to be resolved'),
+    }),
   },
-  {
-    name: 'update_story',
-    description: 'Update an existing story with new information',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        id: {
-          type: 'string',
-          description: 'The story ID to update',
-        },
-        feature: {
-          type: 'string',
-          description: 'Feature ID where the story is located',
-        },
-        updates: {
-          type: 'object',
-          description: 'Fields to update',
-          properties: {
-            title: { type: 'string' },
-            status: { type: 'string', enum: ['draft', 'ready', 'in-progress', 'done'] },
-            priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
-            asA: { type: 'string' },
-            iWant: { type: 'string' },
-            soThat: { type: 'string' },
-            acceptanceCriteria: { type: 'array', items: { type: 'string' } },
-            edgeCases: { type: 'array', items: { type: 'string' } },
-            openQuestions: { type: 'array', items: { type: 'string' } },
-          },
-        },
-      },
-      required: ['id', 'feature', 'updates'],
-    },
+  update_story: {
+    description:
+      "Update an existing story with new information. Status changes must meet the project's Definition of Ready/Done; the update is rejected with the unmet items otherwise",
+    input: z.strictObject({
+      id: Id.describe('The story ID to update'),
+      feature: InFeature.optional(),
+      updates: z
+        .strictObject({
+          title: z.string().min(1).optional(),
+          status: StoryStatus.optional(),
+          priority: Priority.optional(),
+          asA: z.string().optional(),
+          iWant: z.string().optional(),
+          soThat: z.string().optional(),
+          acceptanceCriteria: TextList.optional(),
+          edgeCases: TextList.optional(),
+          openQuestions: TextList.optional(),
+        })
+        .describe('Fields to update'),
+    }),
   },
-  {
-    name: 'list_stories',
+  link_stories: {
+    description:
+      'Record that one story depends on another (it cannot start until the other is done), or that two stories are related. Dependencies that would create a cycle are rejected',
+    input: z.strictObject({
+      storyId: Id.describe('The story that depends on, or relates to, the target'),
+      targetStoryId: Id.describe('The story it depends on or relates to'),
+      relationship: z
+        .enum(['depends_on', 'related'])
+        .describe('depends_on for a blocking dependency, related for a non-blocking link'),
+      reason: z.string().optional().describe('Short explanation shown to the user'),
+    }),
+  },
+  list_stories: {
     description: 'List stories, optionally filtered by feature or status',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        feature: {
-          type: 'string',
-          description: 'Filter by feature ID',
-        },
-        status: {
-          type: 'string',
-          enum: ['draft', 'ready', 'in-progress', 'done'],
-          description: 'Filter by status',
-        },
-      },
-      required: [],
-    },
+    input: z.strictObject({
+      feature: Id.optional().describe('Filter by feature ID'),
+      status: StoryStatus.optional().describe('Filter by status'),
+    }),
   },
-  {
-    name: 'create_feature',
+  create_feature: {
     description: 'Create a new feature/epic to group related stories',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        id: {
-          type: 'string',
-          description: 'URL-friendly ID for the feature (e.g., "authentication")',
-        },
-        title: {
-          type: 'string',
-          description: 'Descriptive title for the feature',
-        },
-        description: {
-          type: 'string',
-          description: 'Detailed description of the feature',
-        },
-        successCriteria: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Success criteria for the feature',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'critical'],
-          description: 'Priority level',
-        },
-      },
-      required: ['id', 'title'],
-    },
+    input: z.strictObject({
+      id: Id.describe('URL-friendly ID for the feature (e.g., "authentication")'),
+      title: z.string().min(1).describe('Descriptive title for the feature'),
+      description: z.string().optional().describe('Detailed description of the feature'),
+      successCriteria: TextList.optional().describe('Success criteria for the feature'),
+      priority: Priority.optional().describe('Priority level'),
+    }),
   },
-  {
-    name: 'list_features',
+  list_features: {
     description: 'List all features/epics in the project',
-    input_schema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
+    input: z.strictObject({}),
+  },
+  search_stories: {
+    description:
+      'Search stories and features, ranked by relevance. Words must all match (allowing typos and prefixes); "quoted phrases" must match exactly; -word or -"phrase" excludes. Filters: status:, priority:, tag:, feature:, type:, persona: (comma-separate values to match any; prefix with - to exclude). Example: status:ready,in-progress tag:auth "password reset" -sso',
+    input: z.strictObject({
+      query: z.string().describe('Search query to find matching stories'),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Maximum number of stories to return (default 10)'),
+    }),
   },
-  {
-    name: 'search_stories',
-    description: 'Search across all stories using a text query',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query to find matching stories',
-        },
-      },
-      required: ['query'],
-    },
+  find_related_work: {
+    description:
+      'Find stories and features related in meaning to a description, using the offline semantic index. Matches different wording for the same idea where the project lists it as synonyms (e.g. "sign in" and "login"). Use before drafting a story to spot existing or overlapping work.',
+    input: z.strictObject({
+      description: z.string().min(1).describe('What the new work is about, in plain words'),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Maximum number of matches to return (default 5)'),
+    }),
   },
-  {
-    name: 'ask_user_question',
+  ask_user_question: {
     description:
       'Ask the user a question with multiple-choice options. Use this to gather requirements, clarify needs, or guide the story writing process. Always prefer using this over asking open-ended questions when you can provide helpful options.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        question: {
-          type: 'string',
-          description: 'The question to ask the user',
-        },
-        options: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              label: { type: 'string', description: 'Short option label' },
-              value: { type: 'string', description: 'Value if selected' },
-              description: { type: 'string', description: 'Longer description of the option' },
-            },
-            required: ['label', 'value'],
-          },
-          description: 'Multiple choice options for the user to select from',
-        },
-        allowCustom: {
-          type: 'boolean',
-          description: 'Whether to allow the user to provide a custom answer',
-          default: true,
-        },
-        multiSelect: {
-          type: 'boolean',
-          description: 'Whether to allow multiple selections',
-          default: false,
-        },
-      },
-      required: ['question', 'options'],
-    },
+    input: z.strictObject({
+      question: z.string().describe('The question to ask the user'),
+      options: z
+        .array(
+          z.strictObject({
+            label: z.string().describe('Short option label'),
+            value: z.string().describe('Value if selected'),
+            description: z.string().optional().describe('Longer description of the option'),
+          })
+        )
+        .describe('Multiple choice options for the user to select from'),
+      allowCustom: z
+        .boolean()
+        .default(true)
+        .describe('Whether to allow the user to provide a custom answer'),
+      multiSelect: z.boolean().default(false).describe('Whether to allow multiple selections'),
+    }),
   },
-  {
-    name: 'present_draft',
+  present_draft: {
     description:
       'Present a draft story to the user for review and approval before saving. Always use this before creating a story to confirm details.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        title: { type: 'string' },
-        asA: { type: 'string' },
-        iWant: { type: 'string' },
-        soThat: { type: 'string' },
-        acceptanceCriteria: {
-          type: 'array',
-          items: { type: 'string' },
-        },
-        priority: { type: 'string' },
-        edgeCases: {
-          type: 'array',
-          items: { type: 'string' },
-        },
-        openQuestions: {
-          type: 'array',
-          items: { type: 'string' },
-        },
-      },
-      required: ['title', 'asA', 'iWant', 'soThat', 'acceptanceCriteria'],
-    },
+    input: z.strictObject({
+      title: z.string(),
+      asA: z.string(),
+      iWant: z.string(),
+      soThat: z.string(),
+      acceptanceCriteria: TextList,
+      priority: z.string().optional(),
+      edgeCases: TextList.optional(),
+      openQuestions: TextList.optional(),
+    }),
+  },
+  analyze_story_quality: {
+    description:
+      "Review a story against INVEST criteria (Independent, Negotiable, Valuable, Estimable, Small, Testable). The review is saved to the story's review history and the previous score is returned for comparison",
+    input: z.strictObject({
+      storyId: Id.describe('The story ID to analyze'),
+      featureId: InFeature.optional(),
+    }),
+  },
+  estimate_story: {
+    description:
+      'Suggest story points or a t-shirt size for a story by comparing it with finished, estimated stories in the project. Saves the estimate to the story and returns it with a reason and a confidence level',
+    input: z.strictObject({
+      storyId: Id.describe('The story ID to estimate'),
+      featureId: InFeature.optional(),
+    }),
+  },
+  get_backlog: {
+    description:
+      'Get the open stories in backlog rank order, with their prioritisation scoring inputs (RICE, WSJF, MoSCoW) and which ones lack inputs for a model',
+    input: z.strictObject({
+      model: ScoringModel.optional().describe(
+        'Scoring model to report scores and missing inputs for'
+      ),
+      feature: Id.optional().describe('Only include stories in this feature'),
+    }),
+  },
+  propose_scoring_inputs: {
+    description:
+      'Propose scoring inputs for stories. The user reviews the proposals and chooses whether to save them. RICE needs reach, impact (0.25/0.5/1/2/3), confidence (0-1) and effort; WSJF needs businessValue, timeCriticality, riskReduction and jobSize (relative Fibonacci values); MoSCoW needs category.',
+    input: z.strictObject({
+      model: ScoringModel.describe('Scoring model the inputs are for'),
+      proposals: z.array(
+        z.strictObject({
+          storyId: Id,
+          // Checked against the model's own schema when the proposal is applied
+          inputs: z
+            .strictObject({
+              reach: z.number().optional(),
+              impact: z.number().optional(),
+              confidence: z.number().optional(),
+              effort: z.number().optional(),
+              businessValue: z.number().optional(),
+              timeCriticality: z.number().optional(),
+              riskReduction: z.number().optional(),
+              jobSize: z.number().optional(),
+              category: MoscowCategory.optional(),
+            })
+            .describe('Input values for the model'),
+          rationale: z.string().describe('One sentence on why these values fit the story'),
+        })
+      ),
+    }),
   },
-  {
-    name: 'analyze_story_quality',
+  list_personas: {
     description:
-      'Analyze a story against INVEST criteria (Independent, Negotiable, Valuable, Estimable, Small, Testable)',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        storyId: {
-          type: 'string',
-          description: 'The story ID to analyze',
-        },
-        featureId: {
-          type: 'string',
-          description: 'The feature ID where the story is located',
-        },
-      },
-      required: ['storyId', 'featureId'],
-    },
+      'List the personas defined for this project. Use this to write stories for real users and to pick the right "As a" role.',
+    input: z.strictObject({}),
   },
-];
+  create_persona: {
+    description:
+      'Create a persona describing a type of user, with their goals, pain points and behaviours. Confirm the details with the user first.',
+    input: z.strictObject({
+      id: Id.describe('URL-friendly ID for the persona (e.g., "store-manager")'),
+      name: z
+        .string()
+        .min(1)
+        .describe('Persona name as used in "As a ..." (e.g., "Store Manager")'),
+      description: z.string().describe('Who this user is and their context'),
+      goals: TextList.optional().describe('What the persona is trying to achieve'),
+      painPoints: TextList.optional().describe('Frustrations and problems the persona faces'),
+      behaviors: TextList.optional().describe('How the persona typically works or behaves'),
+    }),
+  },
+} satisfies Record<string, { description: string; input: z.ZodType }>;
+
+export type ToolName = keyof typeof tools;
+
+// A tool's input after validation, with defaults filled in
+export type ToolInput<T extends ToolName> = z.output<(typeof tools)[T]['input']>;
+
+const toolNames = Object.keys(tools) as ToolName[];
+
+export interface ToolInputIssue {
+  // Dotted path to the field, e.g. "updates.status"; empty for the input as a whole
+  path: string;
+  message: string;
+}
+
+export type ToolInputValidation<T extends ToolName> =
+  | { success: true; input: ToolInput<T> }
+  | { success: false; error: string; issues: ToolInputIssue[] };
+
+// Check a tool call's input against the tool's schema
+export function validateToolInput<T extends ToolName>(
+  toolName: T,
+  input: unknown
+): ToolInputValidation<T> {
+  const schema: z.ZodType | undefined = tools[toolName]?.input;
+  if (!schema) {
+    return { success: false, error: `Unknown tool: ${toolName}`, issues: [] };
+  }
+
+  const parsed = schema.safeParse(input ?? {});
+  if (parsed.success) {
+    return { success: true, input: parsed.data as ToolInput<T> };
+  }
+
+  const issues = parsed.error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+  const summary = issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ');
+  return {
+    success: false,
+    error: `Invalid input for ${toolName} - ${summary}. Fix these fields and call the tool again.`,
+    issues,
+  };
+}
+
+export const toolDefinitions: Anthropic.Messages.Tool[] = toolNames.map((name) => {
+  // The model sees the input shape, so fields with defaults stay optional
+  const { $schema: _, ...inputSchema } = z.toJSONSchema(tools[name].input, { io: 'input' });
+  return {
+    name,
+    description: tools[name].description,
+    input_schema: inputSchema as Anthropic.Messages.Tool.InputSchema,
+  };
+});
 
-export type ToolName =
-  | 'create_story'
-  | 'update_story'
-  | 'list_stories'
-  | 'create_feature'
-  | 'list_features'
-  | 'search_stories'
-  | 'ask_user_question'
-  | 'present_draft'
-  | 'analyze_story_quality';
+// Tools that change stories, features or personas without asking the user themselves.
+// ConversationManager shows their file changes and applies them once approved.
+export const WRITE_TOOLS: ReadonlySet<ToolName> = new Set<ToolName>([
+  'create_story',
+  'update_story',
+  'link_stories',
+  'create_feature',
+  'estimate_story',
+  'analyze_story_quality',
+  'create_persona',
+]);
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageManager } from '../../storage/index.js';
+import { story, createTempProject, removeTempProject } from '../../testing/fixtures.js';
+import { askConfirm } from '../../ui/index.js';
+import { checkForDuplicates } from '../duplicates.js';
+import { ToolExecutor } from './executor.js';
+
+vi.mock('../duplicates.js', () => ({ checkForDuplicates: vi.fn() }));
+vi.mock('../../ui/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../ui/index.js')>()),
+  askConfirm: vi.fn(),
+  displayWarning: vi.fn(),
+  displayDuplicateFindings: vi.fn(),
+  displaySimilarStories: vi.fn(),
+}));
+
+const input = {
+  id: 'recover-password',
+  title: 'Recover a forgotten password',
+  asA: 'registered user',
+  iWant: 'to get a password reset email',
+  soThat: 'I can sign in again',
+  acceptanceCriteria: ['A reset link is emailed'],
+};
+
+const finding = (relationship: 'duplicate' | 'related') => ({
+  storyId: 'recover-password',
+  otherStoryId: 'reset-password',
+  relationship,
+  explanation: 'Both reset a password by email',
+  suggestion: '',
+});
+
+describe('create_story', () => {
+  let projectPath: string;
+  let storage: StorageManager;
+  let executor: ToolExecutor;
+
+  beforeEach(async () => {
+    projectPath = createTempProject();
+    storage = new StorageManager(projectPath);
+    executor = new ToolExecutor(projectPath);
+    await storage.createStory(
+      story('reset-password', {
+        title: 'Reset a forgotten password',
+        asA: 'registered user',
+        iWant: 'to reset my password by email',
+      })
+    );
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+    vi.mocked(checkForDuplicates).mockReset();
+    vi.mocked(askConfirm).mockReset();
+  });
+
+  it('creates the story without asking when nothing overlaps', async () => {
+    vi.mocked(checkForDuplicates).mockResolvedValue({ candidates: [], findings: [] });
+
+    const result = await executor.execute('create_story', input);
+
+    expect(result.success).toBe(true);
+    expect(askConfirm).not.toHaveBeenCalled();
+    expect(await storage.findStory('recover-password')).not.toBeNull();
+  });
+
+  it('defaults to stopping on a duplicate and reports it when the user declines', async () => {
+    vi.mocked(checkForDuplicates).mockResolvedValue({
+      candidates: [],
+      findings: [finding('duplicate')],
+    });
+    vi.mocked(askConfirm).mockResolvedValue(false);
+
+    const result = await executor.execute('create_story', input);
+
+    expect(vi.mocked(askConfirm).mock.calls[0][1]).toBe(false);
+    expect(result.success).toBe(false);
+    expect(result.data).toEqual({ duplicates: [finding('duplicate')] });
+    expect(await storage.findStory('recover-password')).toBeNull();
+  });
+
+  it('defaults to going ahead on a related story and returns the findings', async () => {
+    vi.mocked(checkForDuplicates).mockResolvedValue({
+      candidates: [],
+      findings: [finding('related')],
+    });
+    vi.mocked(askConfirm).mockImplementation(async (_message, defaultValue) => !!defaultValue);
+
+    const result = await executor.execute('create_story', input);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ duplicates: [finding('related')] });
+  });
+
+  it('falls back to the local matches when the model cannot be reached', async () => {
+    vi.mocked(checkForDuplicates).mockRejectedValue(new Error('No API key'));
+    vi.mocked(askConfirm).mockResolvedValue(false);
+
+    const result = await executor.execute('create_story', input);
+
+    expect(askConfirm).toHaveBeenCalledOnce();
+    expect(result.success).toBe(false);
+    expect(await storage.findStory('recover-password')).toBeNull();
+  });
+
+  it('refuses to overwrite a story that already exists in the feature', async () => {
+    const result = await executor.execute('create_story', { ...input, id: 'reset-password' });
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        'Story "reset-password" already exists in "backlog". Use update_story to change it, or choose another ID.',
+    });
+    expect(checkForDuplicates).not.toHaveBeenCalled();
+    expect((await storage.findStory('reset-password'))?.title).toBe('Reset a forgotten password');
+  });
+});
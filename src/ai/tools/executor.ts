@@ -1,6 +1,19 @@
-import type { ToolName } from './definitions.js';
+import { validateToolInput, type ToolInput, type ToolName } from './definitions.js';
 import { StorageManager } from '../../storage/index.js';
-import type { Story, Feature, InvestAnalysis } from '../../models/index.js';
+import { loadProjectConfig } from '../../config/index.js';
+import type { Story, Feature, Persona, ChangeSet, FileSnapshot } from '../../models/index.js';
+import { resolveWorkflow, changeStoryStatus } from '../../workflow/index.js';
+import { reviewStory } from '../review.js';
+import { estimateStory, selectReferenceStories } from '../estimate.js';
+import { checkForDuplicates, type DuplicateFinding } from '../duplicates.js';
+import { findSimilarStories } from '../../search/index.js';
+import {
+  calculateScore,
+  hasScoringInputs,
+  applyScoringInputs,
+  describeScoringInputs,
+  linkStories,
+} from '../../backlog/index.js';
 import {
   askSelect,
   askMultiSelect,
@@ -8,7 +21,16 @@ import {
   askConfirm,
   displayDraft,
   displayStoryList,
+  displaySearchResults,
+  displayBacklog,
   displayFeature,
+  displayPersona,
+  displayWarning,
+  displayInfo,
+  displayDuplicateFindings,
+  displaySimilarStories,
+  displayStoryEstimate,
+  displayGateFailures,
   type QuestionOption,
 } from '../../ui/index.js';
 
@@ -22,61 +44,150 @@ export interface ToolResult {
 
 export class ToolExecutor {
   private storage: StorageManager;
+  private projectPath: string;
 
   constructor(projectPath: string) {
+    this.projectPath = projectPath;
     this.storage = new StorageManager(projectPath);
   }
 
-  async execute(toolName: ToolName, input: Record<string, unknown>): Promise<ToolResult> {
+  // Snapshot every file the tools write until endChangeSet, so the writes can be undone
+  beginChangeSet(options: { sessionId?: string; label?: string } = {}): void {
+    this.storage.beginChangeSet(options);
+  }
+
+  endChangeSet(): ChangeSet | null {
+    return this.storage.endChangeSet();
+  }
+
+  // Run a tool with its writes held back; they are applied by commitStaged or dropped
+  // by discardStaged, so the user can see the file changes first
+  async executeStaged(
+    toolName: ToolName,
+    input: Record<string, unknown>
+  ): Promise<{ result: ToolResult; changes: FileSnapshot[] }> {
+    this.storage.beginStaging();
+    try {
+      const result = await this.execute(toolName, input);
+      return { result, changes: this.storage.getStagedChanges() };
+    } catch (error) {
+      this.storage.discardStaged();
+      throw error;
+    }
+  }
+
+  commitStaged(): void {
+    this.storage.commitStaged();
+  }
+
+  discardStaged(): void {
+    this.storage.discardStaged();
+  }
+
+  async execute(toolName: ToolName, rawInput: Record<string, unknown>): Promise<ToolResult> {
+    // Bad input goes back to the model with every problem, so it can fix the call
+    const validation = validateToolInput(toolName, rawInput);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error,
+        data: { issues: validation.issues },
+      };
+    }
+    const input = validation.input;
+
+    // Writes made by the tool are attributed to it in the change history
+    this.storage.setActor({ type: 'ai', name: toolName });
+
     switch (toolName) {
       case 'create_story':
-        return this.createStory(input);
+        return this.createStory(input as ToolInput<'create_story'>);
       case 'update_story':
-        return this.updateStory(input);
+        return this.updateStory(input as ToolInput<'update_story'>);
+      case 'link_stories':
+        return this.linkStories(input as ToolInput<'link_stories'>);
       case 'list_stories':
-        return this.listStories(input);
+        return this.listStories(input as ToolInput<'list_stories'>);
       case 'create_feature':
-        return this.createFeature(input);
+        return this.createFeature(input as ToolInput<'create_feature'>);
       case 'list_features':
         return this.listFeatures();
       case 'search_stories':
-        return this.searchStories(input);
+        return this.searchStories(input as ToolInput<'search_stories'>);
+      case 'find_related_work':
+        return this.findRelatedWork(input as ToolInput<'find_related_work'>);
       case 'ask_user_question':
-        return this.askUserQuestion(input);
+        return this.askUserQuestion(input as ToolInput<'ask_user_question'>);
       case 'present_draft':
-        return this.presentDraft(input);
+        return this.presentDraft(input as ToolInput<'present_draft'>);
       case 'analyze_story_quality':
-        return this.analyzeStoryQuality(input);
+        return this.analyzeStoryQuality(input as ToolInput<'analyze_story_quality'>);
+      case 'estimate_story':
+        return this.estimateStory(input as ToolInput<'estimate_story'>);
+      case 'get_backlog':
+        return this.getBacklog(input as ToolInput<'get_backlog'>);
+      case 'propose_scoring_inputs':
+        return this.proposeScoringInputs(input as ToolInput<'propose_scoring_inputs'>);
+      case 'list_personas':
+        return this.listPersonas();
+      case 'create_persona':
+        return this.createPersona(input as ToolInput<'create_persona'>);
       default:
         return { success: false, error: `Unknown tool: ${toolName}` };
     }
   }
 
-  private async createStory(input: Record<string, unknown>): Promise<ToolResult> {
+  private async createStory(input: ToolInput<'create_story'>): Promise<ToolResult> {
     try {
+      // Changes to an existing story go through update_story, which checks the workflow gates
+      const featureId = input.feature || 'backlog';
+      if (await this.storage.getStory(featureId, input.id)) {
+        return {
+          success: false,
+          error: `Story "${input.id}" already exists in "${featureId}". Use update_story to change it, or choose another ID.`,
+        };
+      }
+
       const story: Story = {
-        id: input.id as string,
-        title: input.title as string,
+        id: input.id,
+        title: input.title,
         type: 'user-story',
         status: 'draft',
-        priority: (input.priority as Story['priority']) || 'medium',
-        feature: input.feature as string | undefined,
-        asA: input.asA as string,
-        iWant: input.iWant as string,
-        soThat: input.soThat as string,
-        acceptanceCriteria: ((input.acceptanceCriteria as string[]) || []).map((text) => ({
-          text,
-          completed: false,
-        })),
-        openQuestions: (input.openQuestions as string[]) || [],
-        edgeCases: (input.edgeCases as string[]) || [],
+        priority: input.priority || 'medium',
+        feature: input.feature,
+        asA: input.asA,
+        iWant: input.iWant,
+        soThat: input.soThat,
+        acceptanceCriteria: input.acceptanceCriteria.map((text) => ({ text, completed: false })),
+        openQuestions: input.openQuestions || [],
+        edgeCases: input.edgeCases || [],
         dependencies: [],
         relatedStories: [],
         tags: [],
+        reviews: [],
+        gateOverrides: [],
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
 
+      // Link the story to the persona its "As a" role names
+      const persona = await this.storage.matchPersona(story.asA || '');
+      if (persona) {
+        story.persona = persona.id;
+      }
+
+      // Show overlaps with existing stories before anything is written
+      const duplicates = await this.reviewDuplicates(story);
+      if (!duplicates.proceed) {
+        return {
+          success: false,
+          error:
+            'Story not created: the user declined because it overlaps existing stories. ' +
+            'Consider updating one of them instead.',
+          data: { duplicates: duplicates.findings },
+        };
+      }
+
       await this.storage.createStory(story);
 
       return {
@@ -85,6 +196,8 @@ export class ToolExecutor {
           message: `Story "${story.title}" created successfully`,
           storyId: story.id,
           feature: story.feature || 'backlog',
+          persona: story.persona,
+          duplicates: duplicates.findings.length > 0 ? duplicates.findings : undefined,
         },
       };
     } catch (error) {
@@ -95,31 +208,99 @@ export class ToolExecutor {
     }
   }
 
-  private async updateStory(input: Record<string, unknown>): Promise<ToolResult> {
+  // Check a new story against the backlog and let the user decide whether to go ahead
+  private async reviewDuplicates(
+    story: Story
+  ): Promise<{ proceed: boolean; findings: DuplicateFinding[] }> {
+    let findings: DuplicateFinding[];
+    try {
+      findings = (await checkForDuplicates(this.storage, story)).findings;
+    } catch (error) {
+      // Without the model, fall back to the local matches alone
+      const similar = findSimilarStories(story, await this.storage.listStories());
+      if (similar.length === 0) {
+        return { proceed: true, findings: [] };
+      }
+      displayWarning(
+        `Could not classify similar stories (${error instanceof Error ? error.message : 'Unknown error'}). Closest matches:`
+      );
+      displaySimilarStories(similar);
+      return { proceed: await askConfirm('Create the story anyway?', true), findings: [] };
+    }
+
+    if (findings.length === 0) {
+      return { proceed: true, findings };
+    }
+
+    displayWarning(`"${story.title}" may overlap existing stories:`);
+    displayDuplicateFindings(findings);
+
+    // Default to stopping only when the model found a duplicate or a conflict
+    const serious = findings.some(
+      (f) => f.relationship === 'duplicate' || f.relationship === 'conflicting'
+    );
+    return { proceed: await askConfirm('Create the story anyway?', !serious), findings };
+  }
+
+  private async updateStory(input: ToolInput<'update_story'>): Promise<ToolResult> {
     try {
-      const storyId = input.id as string;
-      const featureId = (input.feature as string) || 'backlog';
-      const updates = input.updates as Record<string, unknown>;
+      const storyId = input.id;
+      const featureId = input.feature;
+      const updates = input.updates;
 
-      const existingStory = await this.storage.getStory(featureId, storyId);
+      const existingStory = await this.storage.findStory(storyId, featureId);
       if (!existingStory) {
-        return { success: false, error: `Story "${storyId}" not found in feature "${featureId}"` };
+        return {
+          success: false,
+          error: featureId
+            ? `Story "${storyId}" not found in feature "${featureId}"`
+            : `Story "${storyId}" not found`,
+        };
       }
 
+      const { status, acceptanceCriteria, ...otherUpdates } = updates;
       const updatedStory: Story = {
         ...existingStory,
-        ...updates,
+        ...otherUpdates,
         updatedAt: new Date().toISOString(),
       };
 
-      // Handle acceptance criteria update
-      if (updates.acceptanceCriteria) {
-        updatedStory.acceptanceCriteria = (updates.acceptanceCriteria as string[]).map((text) => ({
+      // Re-link the persona when the role changes
+      if (updates.asA !== undefined) {
+        const persona = await this.storage.matchPersona(updates.asA);
+        updatedStory.persona = persona?.id;
+      }
+
+      // Criteria whose text is unchanged keep their checked state
+      if (acceptanceCriteria) {
+        updatedStory.acceptanceCriteria = acceptanceCriteria.map((text) => ({
           text,
-          completed: false,
+          completed: existingStory.acceptanceCriteria.some((ac) => ac.text === text && ac.completed),
         }));
       }
 
+      // Status changes must pass the project's Definition of Ready/Done, checked
+      // against the story as updated
+      if (status && status !== existingStory.status) {
+        const workflow = resolveWorkflow(loadProjectConfig(this.projectPath)?.workflow);
+        const change = await changeStoryStatus(updatedStory, status, workflow, {
+          confirmChecklist: (gate, items) =>
+            askMultiSelect(
+              `${gate.label} for "${storyId}" - confirm each item:`,
+              items.map((item) => ({ label: item, value: item }))
+            ),
+        });
+        if (!change.allowed) {
+          displayGateFailures(change.failed);
+          return {
+            success: false,
+            error:
+              `Story "${storyId}" was not updated: it cannot move to ${status}. ` +
+              change.failed.map((r) => `${r.label} not met: ${r.failures.join('; ')}`).join('. '),
+          };
+        }
+      }
+
       await this.storage.updateStory(updatedStory);
 
       return {
@@ -134,10 +315,54 @@ export class ToolExecutor {
     }
   }
 
-  private async listStories(input: Record<string, unknown>): Promise<ToolResult> {
+  private async linkStories(input: ToolInput<'link_stories'>): Promise<ToolResult> {
     try {
-      const featureId = input.feature as string | undefined;
-      const statusFilter = input.status as string | undefined;
+      const storyId = input.storyId;
+      const targetId = input.targetStoryId;
+      const kind = input.relationship === 'related' ? 'related' : 'depends-on';
+
+      const story = await this.storage.findStory(storyId);
+      if (!story) {
+        return { success: false, error: `Story "${storyId}" not found` };
+      }
+      const target = await this.storage.findStory(targetId);
+      if (!target) {
+        return { success: false, error: `Story "${targetId}" not found` };
+      }
+
+      const changed = linkStories(story, target, kind, await this.storage.listStories());
+      for (const s of changed) {
+        await this.storage.updateStory(s);
+      }
+
+      const relation = kind === 'related' ? 'is related to' : 'depends on';
+      if (changed.length > 0) {
+        displayInfo(
+          `${storyId} ${relation} ${targetId}` + (input.reason ? ` - ${input.reason}` : '')
+        );
+      }
+
+      return {
+        success: true,
+        data: {
+          message:
+            changed.length > 0
+              ? `"${storyId}" now ${relation} "${targetId}"`
+              : `"${storyId}" already ${relation} "${targetId}"`,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to link stories: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async listStories(input: ToolInput<'list_stories'>): Promise<ToolResult> {
+    try {
+      const featureId = input.feature;
+      const statusFilter = input.status;
 
       let stories = await this.storage.listStories(featureId);
 
@@ -168,16 +393,18 @@ export class ToolExecutor {
     }
   }
 
-  private async createFeature(input: Record<string, unknown>): Promise<ToolResult> {
+  private async createFeature(input: ToolInput<'create_feature'>): Promise<ToolResult> {
     try {
+      const featureId = input.id;
       const feature: Feature = {
-        id: input.id as string,
-        title: input.title as string,
-        description: input.description as string | undefined,
+        id: featureId,
+        title: input.title,
+        description: input.description,
         status: 'draft',
-        priority: (input.priority as Feature['priority']) || 'medium',
-        successCriteria: (input.successCriteria as string[]) || [],
-        stories: [],
+        priority: input.priority || 'medium',
+        successCriteria: input.successCriteria || [],
+        // Pick up stories already filed under this feature ID
+        stories: await this.storage.listStoryIds(featureId),
         tags: [],
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -228,23 +455,34 @@ export class ToolExecutor {
     }
   }
 
-  private async searchStories(input: Record<string, unknown>): Promise<ToolResult> {
+  private async searchStories(input: ToolInput<'search_stories'>): Promise<ToolResult> {
     try {
-      const query = input.query as string;
+      const query = input.query;
+      const limit = input.limit ?? 10;
       const stories = await this.storage.searchStories(query);
+      const features = await this.storage.searchFeatures(query);
 
-      displayStoryList(stories);
+      displaySearchResults(stories.slice(0, limit), features.slice(0, limit));
 
       return {
         success: true,
         data: {
           query,
           count: stories.length,
-          stories: stories.map((s) => ({
-            id: s.id,
-            title: s.title,
-            status: s.status,
-            feature: s.feature,
+          stories: stories.slice(0, limit).map(({ item, score, snippet }) => ({
+            id: item.id,
+            title: item.title,
+            status: item.status,
+            priority: item.priority,
+            feature: item.feature,
+            score,
+            match: snippet && `${snippet.field}: ${snippet.text}`,
+          })),
+          features: features.slice(0, limit).map(({ item, score }) => ({
+            id: item.id,
+            title: item.title,
+            status: item.status,
+            score,
           })),
         },
       };
@@ -256,12 +494,44 @@ export class ToolExecutor {
     }
   }
 
-  private async askUserQuestion(input: Record<string, unknown>): Promise<ToolResult> {
+  private async findRelatedWork(input: ToolInput<'find_related_work'>): Promise<ToolResult> {
+    try {
+      const description = input.description;
+      const limit = input.limit ?? 5;
+      const { stories, features } = await this.storage.semanticSearchItems(description, { limit });
+
+      displaySearchResults(stories, features);
+
+      return {
+        success: true,
+        data: {
+          stories: stories.map(({ item, score }) => ({
+            id: item.id,
+            title: item.title,
+            status: item.status,
+            feature: item.feature,
+            iWant: item.iWant,
+            similarity: score,
+          })),
+          features: features.map(({ item, score }) => ({
+            id: item.id,
+            title: item.title,
+            status: item.status,
+            similarity: score,
+          })),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find related work: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async askUserQuestion(input: ToolInput<'ask_user_question'>): Promise<ToolResult> {
     try {
-      const question = input.question as string;
-      const options = input.options as Array<{ label: string; value: string; description?: string }>;
-      const allowCustom = (input.allowCustom as boolean) ?? true;
-      const multiSelect = (input.multiSelect as boolean) ?? false;
+      const { question, options, allowCustom, multiSelect } = input;
 
       const questionOptions: QuestionOption[] = options.map((opt) => ({
         label: opt.label,
@@ -310,17 +580,17 @@ export class ToolExecutor {
     }
   }
 
-  private async presentDraft(input: Record<string, unknown>): Promise<ToolResult> {
+  private async presentDraft(input: ToolInput<'present_draft'>): Promise<ToolResult> {
     try {
       const draft = {
-        title: input.title as string,
-        'As a': input.asA as string,
-        'I want': input.iWant as string,
-        'So that': input.soThat as string,
-        'Acceptance Criteria': input.acceptanceCriteria as string[],
-        Priority: input.priority as string,
-        'Edge Cases': input.edgeCases as string[] | undefined,
-        'Open Questions': input.openQuestions as string[] | undefined,
+        title: input.title,
+        'As a': input.asA,
+        'I want': input.iWant,
+        'So that': input.soThat,
+        'Acceptance Criteria': input.acceptanceCriteria,
+        Priority: input.priority,
+        'Edge Cases': input.edgeCases,
+        'Open Questions': input.openQuestions,
       };
 
       displayDraft('Story Draft', draft);
@@ -347,100 +617,226 @@ export class ToolExecutor {
     }
   }
 
-  private async analyzeStoryQuality(input: Record<string, unknown>): Promise<ToolResult> {
+  private async analyzeStoryQuality(input: ToolInput<'analyze_story_quality'>): Promise<ToolResult> {
     try {
-      const storyId = input.storyId as string;
-      const featureId = input.featureId as string;
+      const { storyId, featureId } = input;
 
-      const story = await this.storage.getStory(featureId, storyId);
+      const story = await this.storage.findStory(storyId, featureId);
       if (!story) {
         return { success: false, error: `Story "${storyId}" not found` };
       }
 
-      // Simple INVEST analysis (the AI will provide more detailed analysis)
-      const analysis: InvestAnalysis = {
-        independent: {
-          score: story.dependencies.length === 0 ? 10 : 5,
-          feedback:
-            story.dependencies.length === 0
-              ? 'Story has no dependencies'
-              : `Story has ${story.dependencies.length} dependencies`,
-        },
-        negotiable: {
-          score: story.openQuestions.length > 0 ? 8 : 6,
-          feedback:
-            story.openQuestions.length > 0
-              ? 'Open questions indicate room for negotiation'
-              : 'Consider adding open questions for flexibility',
-        },
-        valuable: {
-          score: story.soThat ? 8 : 4,
-          feedback: story.soThat ? 'Value proposition is defined' : 'Missing "so that" clause',
-        },
-        estimable: {
-          score: story.acceptanceCriteria.length >= 3 ? 8 : 5,
-          feedback:
-            story.acceptanceCriteria.length >= 3
-              ? 'Sufficient acceptance criteria for estimation'
-              : 'Add more acceptance criteria for better estimation',
+      const previous = story.reviews[story.reviews.length - 1];
+      const review = await reviewStory(story);
+
+      // Keep the review with the story so scores can be tracked over time
+      story.reviews.push(review);
+      await this.storage.updateStory(story);
+
+      return {
+        success: true,
+        data: {
+          storyId,
+          analysis: review.analysis,
+          previousScore: previous?.analysis.overallScore,
+          reviewCount: story.reviews.length,
         },
-        small: {
-          score: story.acceptanceCriteria.length <= 7 ? 8 : 4,
-          feedback:
-            story.acceptanceCriteria.length <= 7
-              ? 'Story appears to be appropriately sized'
-              : 'Consider splitting - too many acceptance criteria',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to analyze story: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async estimateStory(input: ToolInput<'estimate_story'>): Promise<ToolResult> {
+    try {
+      const { storyId, featureId } = input;
+
+      const story = await this.storage.findStory(storyId, featureId);
+      if (!story) {
+        return { success: false, error: `Story "${storyId}" not found` };
+      }
+
+      const references = selectReferenceStories(story, await this.storage.listStories());
+      const estimate = await estimateStory(story, references);
+
+      const previousEstimate = story.estimate;
+      story.estimate = estimate.estimate;
+      await this.storage.updateStory(story);
+
+      displayStoryEstimate(story, estimate, previousEstimate);
+
+      return {
+        success: true,
+        data: {
+          storyId,
+          ...estimate,
+          previousEstimate,
+          referenceCount: references.length,
         },
-        testable: {
-          score: story.acceptanceCriteria.length > 0 ? 8 : 2,
-          feedback:
-            story.acceptanceCriteria.length > 0
-              ? 'Acceptance criteria provide testability'
-              : 'Add acceptance criteria for testability',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to estimate story: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async getBacklog(input: ToolInput<'get_backlog'>): Promise<ToolResult> {
+    try {
+      const model = input.model;
+      const stories = await this.storage.listBacklog(input.feature);
+
+      displayBacklog(stories, model);
+
+      return {
+        success: true,
+        data: {
+          count: stories.length,
+          stories: stories.map((s) => ({
+            rank: s.rank,
+            id: s.id,
+            title: s.title,
+            priority: s.priority,
+            status: s.status,
+            feature: s.feature,
+            estimate: s.estimate,
+            iWant: s.iWant,
+            soThat: s.soThat,
+            scoring: s.scoring,
+            ...(model && { score: calculateScore(s, model) }),
+          })),
+          ...(model && {
+            missingInputs: stories.filter((s) => !hasScoringInputs(s, model)).map((s) => s.id),
+          }),
         },
-        overallScore: 0,
-        suggestions: [],
-      };
-
-      // Calculate overall score
-      const scores = [
-        analysis.independent.score,
-        analysis.negotiable.score,
-        analysis.valuable.score,
-        analysis.estimable.score,
-        analysis.small.score,
-        analysis.testable.score,
-      ];
-      analysis.overallScore = Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
-
-      // Generate suggestions
-      if (analysis.independent.score < 7) {
-        analysis.suggestions.push('Consider reducing dependencies on other stories');
-      }
-      if (analysis.valuable.score < 7) {
-        analysis.suggestions.push('Clarify the business value with a stronger "so that" clause');
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get backlog: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async proposeScoringInputs(input: ToolInput<'propose_scoring_inputs'>): Promise<ToolResult> {
+    try {
+      const { model, proposals } = input;
+
+      // Validate every proposal before showing anything
+      const valid: Array<{ story: Story; scoring: Story['scoring']; rationale: string }> = [];
+      const invalid: Array<{ storyId: string; error: string }> = [];
+      for (const proposal of proposals) {
+        try {
+          const story = await this.storage.findStory(proposal.storyId);
+          if (!story) {
+            throw new Error('Story not found');
+          }
+          const scoring = applyScoringInputs(story.scoring, model, proposal.inputs);
+          valid.push({ story, scoring, rationale: proposal.rationale });
+        } catch (error) {
+          invalid.push({
+            storyId: proposal.storyId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
       }
-      if (analysis.estimable.score < 7) {
-        analysis.suggestions.push('Add more specific acceptance criteria');
+
+      if (valid.length === 0) {
+        return { success: false, error: 'No valid proposals', data: { invalid } };
       }
-      if (analysis.small.score < 7) {
-        analysis.suggestions.push('Consider breaking this story into smaller pieces');
+
+      displayDraft(
+        `${model.toUpperCase()} inputs`,
+        Object.fromEntries(
+          valid.map(({ story, scoring, rationale }) => [
+            `${story.id}`,
+            `${describeScoringInputs({ ...story, scoring }, model)} — ${rationale}`,
+          ])
+        )
+      );
+
+      const selected = await askMultiSelect(
+        'Which proposals should be saved?',
+        valid.map(({ story }) => ({ label: `${story.id}: ${story.title}`, value: story.id })),
+        valid.map(({ story }) => story.id)
+      );
+
+      const saved: string[] = [];
+      for (const { story, scoring } of valid) {
+        if (!selected.includes(story.id)) continue;
+        story.scoring = scoring;
+        await this.storage.updateStory(story);
+        saved.push(story.id);
       }
-      if (analysis.testable.score < 7) {
-        analysis.suggestions.push('Add measurable acceptance criteria');
+
+      return {
+        success: true,
+        data: {
+          saved,
+          declined: valid.map(({ story }) => story.id).filter((id) => !saved.includes(id)),
+          invalid,
+          hint: `Run "one-p backlog score --model ${model}" to re-rank the backlog`,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to save scoring inputs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async listPersonas(): Promise<ToolResult> {
+    try {
+      const personas = await this.storage.listPersonas();
+
+      for (const persona of personas) {
+        displayPersona(persona);
       }
 
       return {
         success: true,
         data: {
-          storyId,
-          analysis,
+          count: personas.length,
+          personas,
         },
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to analyze story: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: `Failed to list personas: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  private async createPersona(input: ToolInput<'create_persona'>): Promise<ToolResult> {
+    try {
+      const persona: Persona = {
+        id: input.id,
+        name: input.name,
+        description: input.description,
+        goals: input.goals || [],
+        painPoints: input.painPoints || [],
+        behaviors: input.behaviors || [],
+      };
+
+      await this.storage.createPersona(persona);
+
+      return {
+        success: true,
+        data: {
+          message: `Persona "${persona.name}" created successfully`,
+          personaId: persona.id,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create persona: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
@@ -1,2 +1,9 @@
-export { toolDefinitions, type ToolName } from './definitions.js';
+export {
+  toolDefinitions,
+  validateToolInput,
+  WRITE_TOOLS,
+  type ToolName,
+  type ToolInput,
+  type ToolInputIssue,
+} from './definitions.js';
 export { ToolExecutor, type ToolResult } from './executor.js';
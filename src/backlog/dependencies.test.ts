@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { story } from '../testing/fixtures.js';
+import { findDependencyCycles, findCycleThrough, linkStories } from './dependencies.js';
+
+describe('findDependencyCycles', () => {
+  it('finds no cycles in a DAG and ignores unknown dependencies', () => {
+    const stories = [
+      story('a', { dependencies: ['b', 'c'] }),
+      story('b', { dependencies: ['c'] }),
+      story('c', { dependencies: ['missing'] }),
+    ];
+    expect(findDependencyCycles(stories)).toEqual([]);
+  });
+
+  it('reports each cycle once, starting from its first ID', () => {
+    const stories = [
+      story('c', { dependencies: ['a'] }),
+      story('a', { dependencies: ['b'] }),
+      story('b', { dependencies: ['c'] }),
+      story('x', { dependencies: ['y'] }),
+      story('y', { dependencies: ['x'] }),
+      story('free', { dependencies: ['a'] }),
+    ];
+    expect(findDependencyCycles(stories)).toEqual([
+      ['a', 'b', 'c', 'a'],
+      ['x', 'y', 'x'],
+    ]);
+  });
+
+  it('reports a story that depends on itself', () => {
+    expect(findDependencyCycles([story('self', { dependencies: ['self'] })])).toEqual([
+      ['self', 'self'],
+    ]);
+  });
+
+  it('gives the shortest loop back inside a larger component', () => {
+    const stories = [
+      story('a', { dependencies: ['b', 'c'] }),
+      story('b', { dependencies: ['a'] }),
+      story('c', { dependencies: ['b'] }),
+    ];
+    expect(findDependencyCycles(stories)).toEqual([['a', 'b', 'a']]);
+  });
+});
+
+describe('findCycleThrough', () => {
+  const stories = [
+    story('a', { dependencies: ['b'] }),
+    story('b', { dependencies: ['c'] }),
+    story('c'),
+  ];
+
+  it('returns the cycle a new dependency would close', () => {
+    expect(findCycleThrough(stories, 'c', 'a')).toEqual(['c', 'a', 'b', 'c']);
+    expect(findCycleThrough(stories, 'a', 'a')).toEqual(['a', 'a']);
+  });
+
+  it('returns null when the dependency is safe', () => {
+    expect(findCycleThrough(stories, 'a', 'c')).toBeNull();
+  });
+});
+
+describe('linkStories', () => {
+  it('refuses a dependency that would close a cycle', () => {
+    const stories = [story('a', { dependencies: ['b'] }), story('b')];
+    expect(() => linkStories(stories[1], stories[0], 'depends-on', stories)).toThrow(
+      'it would create the cycle b → a → b'
+    );
+    expect(stories[1].dependencies).toEqual([]);
+  });
+
+  it('stores related links on both stories', () => {
+    const [a, b] = [story('a'), story('b')];
+    expect(linkStories(a, b, 'related', [a, b])).toEqual([a, b]);
+    expect(a.relatedStories).toEqual(['b']);
+    expect(b.relatedStories).toEqual(['a']);
+  });
+});
@@ -0,0 +1,336 @@
+import type { Story, StoryStatus } from '../models/index.js';
+
+export type DependencyKind = 'depends-on' | 'related';
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: DependencyKind;
+}
+
+export interface DependencyNode {
+  id: string;
+  title: string;
+  status?: StoryStatus;
+  feature?: string;
+  // Referenced from the graph's stories but not part of it: outside the feature, or missing
+  external: boolean;
+  missing: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+}
+
+export interface MissingDependency {
+  storyId: string;
+  target: string;
+  kind: DependencyKind;
+}
+
+export const GRAPH_FORMATS = ['mermaid', 'dot', 'json'] as const;
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+// Graph of the given stories. Related links are undirected, so each pair is kept once.
+// allStories resolves targets outside the given stories, e.g. in other features.
+export function buildDependencyGraph(
+  stories: Story[],
+  allStories: Story[] = stories,
+  options: { related?: boolean } = {}
+): DependencyGraph {
+  const included = new Set(stories.map((s) => s.id));
+  const byId = new Map(allStories.map((s) => [s.id, s]));
+  const nodes = new Map<string, DependencyNode>();
+  const edges: DependencyEdge[] = [];
+  const relatedPairs = new Set<string>();
+
+  const addNode = (id: string): void => {
+    if (nodes.has(id)) return;
+    const story = byId.get(id);
+    nodes.set(id, {
+      id,
+      title: story?.title || id,
+      status: story?.status,
+      feature: story?.feature,
+      external: !included.has(id),
+      missing: !story,
+    });
+  };
+
+  for (const story of stories) {
+    addNode(story.id);
+    for (const target of story.dependencies) {
+      addNode(target);
+      edges.push({ from: story.id, to: target, kind: 'depends-on' });
+    }
+    if (options.related === false) continue;
+    for (const target of story.relatedStories) {
+      const pair = [story.id, target].sort().join('\0');
+      if (relatedPairs.has(pair)) continue;
+      relatedPairs.add(pair);
+      addNode(target);
+      edges.push({ from: story.id, to: target, kind: 'related' });
+    }
+  }
+
+  return { nodes: [...nodes.values()], edges };
+}
+
+// Links that point at stories which do not exist
+export function findMissingDependencies(stories: Story[], allStories: Story[] = stories): MissingDependency[] {
+  const known = new Set(allStories.map((s) => s.id));
+  const missing: MissingDependency[] = [];
+  for (const story of stories) {
+    for (const target of story.dependencies) {
+      if (!known.has(target)) missing.push({ storyId: story.id, target, kind: 'depends-on' });
+    }
+    for (const target of story.relatedStories) {
+      if (!known.has(target)) missing.push({ storyId: story.id, target, kind: 'related' });
+    }
+  }
+  return missing;
+}
+
+// Dependency cycles, each as a path of story IDs that ends where it starts
+export function findDependencyCycles(stories: Story[]): string[][] {
+  const edges = new Map(stories.map((s) => [s.id, s.dependencies]));
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  // Tarjan's strongly connected components; every component with a loop is a cycle
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (id: string): void => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of edges.get(id) || []) {
+      if (!edges.has(target)) continue;
+      if (!index.has(target)) {
+        connect(target);
+        lowLink.set(id, Math.min(lowLink.get(id) as number, lowLink.get(target) as number));
+      } else if (onStack.has(target)) {
+        lowLink.set(id, Math.min(lowLink.get(id) as number, index.get(target) as number));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of edges.keys()) {
+    if (!index.has(id)) connect(id);
+  }
+
+  for (const component of components) {
+    const members = new Set(component);
+    const start = [...members].sort()[0];
+    if (members.size === 1 && !(edges.get(start) || []).includes(start)) continue;
+    if (seen.has(start)) continue;
+    seen.add(start);
+    cycles.push(findPathBack(start, members, edges));
+  }
+
+  return cycles;
+}
+
+// Shortest path from start back to itself inside one component
+function findPathBack(start: string, members: Set<string>, edges: Map<string, string[]>): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const target of edges.get(id) || []) {
+      if (!members.has(target)) continue;
+      if (target === start) {
+        const path = [start];
+        for (let step: string | undefined = id; step !== start && step; step = previous.get(step)) {
+          path.splice(1, 0, step);
+        }
+        path.push(start);
+        return path;
+      }
+      if (!previous.has(target)) {
+        previous.set(target, id);
+        queue.push(target);
+      }
+    }
+  }
+  return [start, start];
+}
+
+// Whether "from depends on to" would close a cycle; returns the cycle if so
+export function findCycleThrough(stories: Story[], from: string, to: string): string[] | null {
+  if (from === to) return [from, from];
+  const edges = new Map(stories.map((s) => [s.id, s.dependencies]));
+  const previous = new Map<string, string>();
+  const queue = [to];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (id === from) {
+      // Walk back to "to", giving from -> to -> ... -> from
+      const path = [from];
+      for (let step = from; step !== to; ) {
+        step = previous.get(step) as string;
+        path.unshift(step);
+      }
+      return [from, ...path];
+    }
+    for (const target of edges.get(id) || []) {
+      if (!previous.has(target) && target !== to) {
+        previous.set(target, id);
+        queue.push(target);
+      }
+    }
+  }
+  return null;
+}
+
+// Record that story depends on (or relates to) target; returns the stories that changed.
+// Related links are stored on both stories. Throws if the link would close a dependency cycle.
+export function linkStories(
+  story: Story,
+  target: Story,
+  kind: DependencyKind,
+  allStories: Story[]
+): Story[] {
+  if (story.id === target.id) {
+    throw new Error('A story cannot be linked to itself');
+  }
+
+  if (kind === 'related') {
+    const changed: Story[] = [];
+    if (!story.relatedStories.includes(target.id)) {
+      story.relatedStories.push(target.id);
+      changed.push(story);
+    }
+    if (!target.relatedStories.includes(story.id)) {
+      target.relatedStories.push(story.id);
+      changed.push(target);
+    }
+    return changed;
+  }
+
+  if (story.dependencies.includes(target.id)) {
+    return [];
+  }
+  const cycle = findCycleThrough(allStories, story.id, target.id);
+  if (cycle) {
+    throw new Error(`"${story.id}" cannot depend on "${target.id}": it would create the cycle ${cycle.join(' → ')}`);
+  }
+  story.dependencies.push(target.id);
+  return [story];
+}
+
+// Remove a link in either direction for related stories; returns the stories that changed
+export function unlinkStories(story: Story, targetId: string, kind: DependencyKind, target?: Story): Story[] {
+  const changed: Story[] = [];
+  if (kind === 'related') {
+    if (story.relatedStories.includes(targetId)) {
+      story.relatedStories = story.relatedStories.filter((id) => id !== targetId);
+      changed.push(story);
+    }
+    if (target?.relatedStories.includes(story.id)) {
+      target.relatedStories = target.relatedStories.filter((id) => id !== story.id);
+      changed.push(target);
+    }
+  } else if (story.dependencies.includes(targetId)) {
+    story.dependencies = story.dependencies.filter((id) => id !== targetId);
+    changed.push(story);
+  }
+  return changed;
+}
+
+// Node IDs may not contain punctuation or clash with Mermaid keywords such as "end"
+function mermaidId(id: string): string {
+  const safe = id.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^(end|graph|subgraph|class|classDef|click|style|linkStyle|direction)$/i.test(safe)
+    ? `${safe}_`
+    : safe;
+}
+
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function dotEscape(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function dotString(text: string): string {
+  return `"${dotEscape(text)}"`;
+}
+
+const DOT_STATUS_COLORS: Record<StoryStatus, string> = {
+  draft: 'lightgray',
+  ready: 'lightblue',
+  'in-progress': 'gold',
+  done: 'palegreen',
+};
+
+// Arrows point from a story to what it depends on; related links are dotted
+export function renderDependencyGraph(graph: DependencyGraph, format: GraphFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(graph, null, 2);
+  }
+
+  if (format === 'dot') {
+    const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box, style="rounded,filled"];'];
+    for (const node of graph.nodes) {
+      const title = node.missing ? '(missing)' : dotEscape(node.title);
+      const attributes = [`label="${dotEscape(node.id)}\\n${title}"`];
+      if (node.missing) {
+        attributes.push('fillcolor=white', 'color=red', 'fontcolor=red', 'style="rounded,dashed"');
+      } else {
+        attributes.push(`fillcolor=${node.status ? DOT_STATUS_COLORS[node.status] : 'white'}`);
+        if (node.external) attributes.push('style="rounded,filled,dashed"');
+      }
+      lines.push(`  ${dotString(node.id)} [${attributes.join(', ')}];`);
+    }
+    for (const edge of graph.edges) {
+      const style = edge.kind === 'related' ? ' [style=dotted, dir=none]' : '';
+      lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${style};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  const lines = ['graph LR'];
+  for (const node of graph.nodes) {
+    const label = node.missing ? `${node.id} (missing)` : `${node.id}: ${node.title}`;
+    lines.push(`  ${mermaidId(node.id)}["${mermaidLabel(label)}"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === 'related' ? '-.-' : '-->';
+    lines.push(`  ${mermaidId(edge.from)} ${arrow} ${mermaidId(edge.to)}`);
+  }
+  for (const node of graph.nodes) {
+    if (node.status) lines.push(`  class ${mermaidId(node.id)} ${node.status.replace('-', '')}`);
+    if (node.missing) lines.push(`  class ${mermaidId(node.id)} missing`);
+  }
+  lines.push(
+    '  classDef draft fill:#eee,stroke:#999',
+    '  classDef ready fill:#dbeafe,stroke:#3b82f6',
+    '  classDef inprogress fill:#fef3c7,stroke:#d97706',
+    '  classDef done fill:#dcfce7,stroke:#16a34a',
+    '  classDef missing fill:#fff,stroke:#dc2626,stroke-dasharray:4'
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,41 @@
+export {
+  calculateScore,
+  hasScoringInputs,
+  describeScoringInputs,
+  applyScoringInputs,
+  MOSCOW_WEIGHTS,
+  SCORING_FIELDS,
+} from './scoring.js';
+export {
+  sortByRank,
+  moveInRanking,
+  rankByScore,
+  assignRanks,
+  type RankPosition,
+} from './rank.js';
+export {
+  parseStoryPoints,
+  sumStoryPoints,
+  averageVelocity,
+  planSprint,
+  nextSprintName,
+  sprintStoryRef,
+  resolveSprintStories,
+  type SprintPlan,
+} from './sprint.js';
+export {
+  buildDependencyGraph,
+  findMissingDependencies,
+  findDependencyCycles,
+  findCycleThrough,
+  linkStories,
+  unlinkStories,
+  renderDependencyGraph,
+  GRAPH_FORMATS,
+  type DependencyKind,
+  type DependencyEdge,
+  type DependencyNode,
+  type DependencyGraph,
+  type MissingDependency,
+  type GraphFormat,
+} from './dependencies.js';
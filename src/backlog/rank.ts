@@ -0,0 +1,78 @@
+import type { Story, Priority, ScoringModel } from '../models/index.js';
+import { calculateScore } from './scoring.js';
+
+const PRIORITY_ORDER: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Ranked stories first by rank; unranked ones after, by priority then age
+export function sortByRank(stories: Story[]): Story[] {
+  return [...stories].sort((a, b) => {
+    if (a.rank !== undefined && b.rank !== undefined) return a.rank - b.rank;
+    if (a.rank !== undefined) return -1;
+    if (b.rank !== undefined) return 1;
+    return (
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  });
+}
+
+// Where to put a story when reordering
+export type RankPosition =
+  | { to: number }
+  | { top: true }
+  | { bottom: true }
+  | { before: string }
+  | { after: string };
+
+// Move one story within the ranked order and return the new order
+export function moveInRanking(ordered: Story[], storyId: string, position: RankPosition): Story[] {
+  const story = ordered.find((s) => s.id === storyId);
+  if (!story) {
+    throw new Error(`Story "${storyId}" is not in the backlog`);
+  }
+
+  const rest = ordered.filter((s) => s !== story);
+  let index: number;
+
+  if ('to' in position) {
+    if (!Number.isInteger(position.to) || position.to < 1) {
+      throw new Error(`Invalid position "${position.to}". Use a whole number from 1.`);
+    }
+    index = Math.min(position.to - 1, rest.length);
+  } else if ('top' in position) {
+    index = 0;
+  } else if ('bottom' in position) {
+    index = rest.length;
+  } else {
+    const anchorId = 'before' in position ? position.before : position.after;
+    const anchor = rest.findIndex((s) => s.id === anchorId);
+    if (anchor < 0) {
+      throw new Error(`Story "${anchorId}" is not in the backlog`);
+    }
+    index = 'before' in position ? anchor : anchor + 1;
+  }
+
+  return [...rest.slice(0, index), story, ...rest.slice(index)];
+}
+
+// Order by a scoring model, highest first; stories without inputs keep their order at the end
+export function rankByScore(ordered: Story[], model: ScoringModel): Story[] {
+  const scores = new Map(ordered.map((story) => [story, calculateScore(story, model)]));
+  const scored = ordered
+    .filter((story) => scores.get(story) !== null)
+    .sort((a, b) => (scores.get(b) as number) - (scores.get(a) as number));
+  const unscored = ordered.filter((story) => scores.get(story) === null);
+  return [...scored, ...unscored];
+}
+
+// Assign ranks 1..n in order, returning the stories whose rank changed
+export function assignRanks(ordered: Story[]): Story[] {
+  const changed: Story[] = [];
+  ordered.forEach((story, i) => {
+    if (story.rank !== i + 1) {
+      story.rank = i + 1;
+      changed.push(story);
+    }
+  });
+  return changed;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { story } from '../testing/fixtures.js';
+import { applyScoringInputs, calculateScore } from './scoring.js';
+import { rankByScore, moveInRanking, assignRanks, sortByRank } from './rank.js';
+
+describe('applyScoringInputs', () => {
+  it('parses numbers, including percentages for confidence', () => {
+    const scoring = applyScoringInputs(undefined, 'rice', {
+      reach: '500',
+      impact: 2,
+      confidence: '80%',
+      effort: '4',
+    });
+    expect(scoring.rice).toEqual({ reach: 500, impact: 2, confidence: 0.8, effort: 4 });
+  });
+
+  it('keeps the inputs of other models', () => {
+    const scoring = applyScoringInputs({ moscow: 'must' }, 'wsjf', {
+      businessValue: 8,
+      timeCriticality: 5,
+      riskReduction: 3,
+      jobSize: 2,
+    });
+    expect(scoring.moscow).toBe('must');
+    expect(scoring.wsjf?.jobSize).toBe(2);
+  });
+
+  it('normalises MoSCoW categories', () => {
+    expect(applyScoringInputs(undefined, 'moscow', { category: "Won't" }).moscow).toBe('wont');
+    expect(() => applyScoringInputs(undefined, 'moscow', { category: 'maybe' })).toThrow(
+      'MoSCoW category must be one of'
+    );
+  });
+
+  it('rejects missing, non-numeric and out-of-range inputs', () => {
+    expect(() => applyScoringInputs(undefined, 'rice', { reach: 1, impact: 1 })).toThrow(
+      'Missing rice inputs: confidence, effort'
+    );
+    expect(() =>
+      applyScoringInputs(undefined, 'rice', { reach: 'lots', impact: 1, confidence: 1, effort: 1 })
+    ).toThrow('"reach" must be a number');
+    expect(() =>
+      applyScoringInputs(undefined, 'rice', { reach: 1, impact: 1, confidence: 1, effort: 0 })
+    ).toThrow('Invalid rice input "effort"');
+  });
+});
+
+describe('calculateScore', () => {
+  it('scores each model and returns null without inputs', () => {
+    const scored = story('a', {
+      scoring: {
+        rice: { reach: 100, impact: 2, confidence: 0.5, effort: 3 },
+        wsjf: { businessValue: 8, timeCriticality: 5, riskReduction: 2, jobSize: 5 },
+        moscow: 'should',
+      },
+    });
+    expect(calculateScore(scored, 'rice')).toBe(33.33);
+    expect(calculateScore(scored, 'wsjf')).toBe(3);
+    expect(calculateScore(scored, 'moscow')).toBe(3);
+    expect(calculateScore(story('b'), 'rice')).toBeNull();
+  });
+});
+
+describe('rankByScore', () => {
+  it('orders by score and keeps unscored stories in place at the end', () => {
+    const ordered = [
+      story('unscored-1'),
+      story('could', { scoring: { moscow: 'could' } }),
+      story('unscored-2'),
+      story('must', { scoring: { moscow: 'must' } }),
+    ];
+    expect(rankByScore(ordered, 'moscow').map((s) => s.id)).toEqual([
+      'must',
+      'could',
+      'unscored-1',
+      'unscored-2',
+    ]);
+  });
+});
+
+describe('ranking', () => {
+  it('sorts ranked stories first, then by priority and age', () => {
+    const stories = [
+      story('low', { priority: 'low' }),
+      story('second', { rank: 2 }),
+      story('critical', { priority: 'critical' }),
+      story('first', { rank: 1 }),
+    ];
+    expect(sortByRank(stories).map((s) => s.id)).toEqual(['first', 'second', 'critical', 'low']);
+  });
+
+  it('moves a story and renumbers only the stories whose rank changed', () => {
+    const ordered = [story('a', { rank: 1 }), story('b', { rank: 2 }), story('c', { rank: 3 })];
+    const moved = moveInRanking(ordered, 'c', { before: 'b' });
+    expect(moved.map((s) => s.id)).toEqual(['a', 'c', 'b']);
+    expect(assignRanks(moved).map((s) => s.id)).toEqual(['c', 'b']);
+    expect(() => moveInRanking(ordered, 'a', { to: 0 })).toThrow('Invalid position');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  RiceInputsSchema,
+  WsjfInputsSchema,
+  MoscowCategory,
+  type Story,
+  type ScoringModel,
+  type ScoringInputs,
+} from '../models/index.js';
+
+export const MOSCOW_WEIGHTS: Record<MoscowCategory, number> = {
+  must: 4,
+  should: 3,
+  could: 2,
+  wont: 1,
+};
+
+// Input fields each model needs, in the order they are usually given
+export const SCORING_FIELDS: Record<ScoringModel, string[]> = {
+  rice: ['reach', 'impact', 'confidence', 'effort'],
+  wsjf: ['businessValue', 'timeCriticality', 'riskReduction', 'jobSize'],
+  moscow: ['category'],
+};
+
+function toNumber(field: string, value: unknown): number {
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  // Percentages are accepted for confidence, e.g. "80%"
+  const parsed = text.endsWith('%') ? parseFloat(text) / 100 : Number(text);
+  if (text === '' || Number.isNaN(parsed)) {
+    throw new Error(`"${field}" must be a number, got "${text}"`);
+  }
+  return parsed;
+}
+
+// Validate raw inputs (from the CLI or the AI) for a model and merge them into the story's scoring
+export function applyScoringInputs(
+  current: ScoringInputs | undefined,
+  model: ScoringModel,
+  values: Record<string, unknown>
+): ScoringInputs {
+  const scoring: ScoringInputs = { ...current };
+
+  if (model === 'moscow') {
+    const raw = String(values.category ?? '').toLowerCase().replace(/['’]/g, '');
+    const parsed = MoscowCategory.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`MoSCoW category must be one of: ${MoscowCategory.options.join(', ')}`);
+    }
+    scoring.moscow = parsed.data;
+    return scoring;
+  }
+
+  const missing = SCORING_FIELDS[model].filter((field) => values[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing ${model} inputs: ${missing.join(', ')}`);
+  }
+
+  const numbers = Object.fromEntries(
+    SCORING_FIELDS[model].map((field) => [field, toNumber(field, values[field])])
+  );
+  const schema = model === 'rice' ? RiceInputsSchema : WsjfInputsSchema;
+  const parsed = schema.safeParse(numbers);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${model} input "${issue.path.join('.')}": ${issue.message}`);
+  }
+
+  if (model === 'rice') {
+    scoring.rice = parsed.data as ScoringInputs['rice'];
+  } else {
+    scoring.wsjf = parsed.data as ScoringInputs['wsjf'];
+  }
+  return scoring;
+}
+
+// Score a story under a model; null when the story has no inputs for it
+export function calculateScore(story: Story, model: ScoringModel): number | null {
+  const scoring = story.scoring;
+  if (!scoring) return null;
+
+  switch (model) {
+    case 'rice': {
+      if (!scoring.rice) return null;
+      const { reach, impact, confidence, effort } = scoring.rice;
+      return Math.round(((reach * impact * confidence) / effort) * 100) / 100;
+    }
+    case 'wsjf': {
+      if (!scoring.wsjf) return null;
+      const { businessValue, timeCriticality, riskReduction, jobSize } = scoring.wsjf;
+      return Math.round(((businessValue + timeCriticality + riskReduction) / jobSize) * 100) / 100;
+    }
+    case 'moscow':
+      return scoring.moscow ? MOSCOW_WEIGHTS[scoring.moscow] : null;
+  }
+}
+
+export function hasScoringInputs(story: Story, model: ScoringModel): boolean {
+  return calculateScore(story, model) !== null;
+}
+
+// Short human-readable summary of a story's inputs for a model
+export function describeScoringInputs(story: Story, model: ScoringModel): string {
+  const scoring = story.scoring;
+  switch (model) {
+    case 'rice': {
+      if (!scoring?.rice) return '';
+      const { reach, impact, confidence, effort } = scoring.rice;
+      return `R ${reach} · I ${impact} · C ${Math.round(confidence * 100)}% · E ${effort}`;
+    }
+    case 'wsjf': {
+      if (!scoring?.wsjf) return '';
+      const { businessValue, timeCriticality, riskReduction, jobSize } = scoring.wsjf;
+      return `BV ${businessValue} · TC ${timeCriticality} · RR ${riskReduction} · JS ${jobSize}`;
+    }
+    case 'moscow':
+      return scoring?.moscow || '';
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { Story } from '../models/index.js';
+import { story } from '../testing/fixtures.js';
+import {
+  parseStoryPoints,
+  planSprint,
+  nextSprintName,
+  sprintStoryRef,
+  resolveSprintStories,
+} from './sprint.js';
+
+// Sprint planning only picks ready stories
+function ready(id: string, fields: Partial<Story> = {}): Story {
+  return story(id, { status: 'ready', ...fields });
+}
+
+describe('parseStoryPoints', () => {
+  it('reads numbers with or without a unit and T-shirt sizes', () => {
+    expect(parseStoryPoints('5')).toBe(5);
+    expect(parseStoryPoints(' 3.5pts ')).toBe(3.5);
+    expect(parseStoryPoints('8 points')).toBe(8);
+    expect(parseStoryPoints('2 SP')).toBe(2);
+    expect(parseStoryPoints('XL')).toBe(8);
+  });
+
+  it('returns undefined for estimates it cannot read', () => {
+    expect(parseStoryPoints(undefined)).toBeUndefined();
+    expect(parseStoryPoints('')).toBeUndefined();
+    expect(parseStoryPoints('two days')).toBeUndefined();
+  });
+});
+
+describe('planSprint', () => {
+  const ids = (stories: Story[]) => stories.map((s) => s.id);
+
+  it('takes ranked ready stories while they fit the capacity', () => {
+    const plan = planSprint(
+      [
+        ready('a', { rank: 1, estimate: '5' }),
+        ready('b', { rank: 2, estimate: '8' }),
+        ready('c', { rank: 3, estimate: '3' }),
+        ready('draft', { rank: 4, estimate: '1', status: 'draft' }),
+      ],
+      10
+    );
+    expect(ids(plan.selected)).toEqual(['a', 'c']);
+    expect(plan.points).toBe(8);
+    expect(plan.skipped.map((s) => [s.story.id, s.reason])).toEqual([
+      ['b', '8 points would exceed capacity'],
+    ]);
+  });
+
+  it('pulls in ready dependencies before the story that needs them', () => {
+    const plan = planSprint(
+      [
+        ready('feature', { rank: 1, estimate: '3', dependencies: ['api'] }),
+        ready('api', { rank: 2, estimate: '2' }),
+        ready('done-dep', { status: 'done', estimate: '1' }),
+        ready('other', { rank: 3, estimate: '1', dependencies: ['done-dep'] }),
+      ],
+      10
+    );
+    expect(ids(plan.selected)).toEqual(['api', 'feature', 'other']);
+    expect(plan.points).toBe(6);
+  });
+
+  it('skips stories without an estimate or with blocked dependencies', () => {
+    const plan = planSprint(
+      [
+        ready('unsized', { rank: 1 }),
+        ready('blocked', { rank: 2, estimate: '1', dependencies: ['drafted'] }),
+        ready('drafted', { status: 'draft', estimate: '1' }),
+        ready('elsewhere', { rank: 3, estimate: '1', dependencies: ['taken'] }),
+        ready('taken', { estimate: '1' }),
+        ready('loop-a', { rank: 4, estimate: '1', dependencies: ['loop-b'] }),
+        ready('loop-b', { estimate: '1', dependencies: ['loop-a'] }),
+      ],
+      20,
+      { unavailable: new Set(['backlog/taken']) }
+    );
+    expect(plan.selected).toEqual([]);
+    expect(Object.fromEntries(plan.skipped.map((s) => [s.story.id, s.reason]))).toEqual({
+      unsized: 'no estimate',
+      blocked: 'depends on "drafted" (draft)',
+      elsewhere: 'depends on "taken" (in another sprint)',
+      'loop-a': 'circular dependency through "loop-a"',
+      'loop-b': 'circular dependency through "loop-b"',
+    });
+  });
+
+  it('counts stories already committed to the sprint', () => {
+    const committed = [ready('kept', { estimate: '8' })];
+    const plan = planSprint([...committed, ready('new', { rank: 1, estimate: '3' })], 10, {
+      committed,
+    });
+    expect(plan.selected).toEqual([]);
+    expect(plan.points).toBe(8);
+  });
+});
+
+describe('resolveSprintStories', () => {
+  const stories = [
+    story('pay', { feature: 'checkout' }),
+    story('pay', { feature: 'invoices' }),
+    story('wishlist'),
+  ];
+
+  it('tells apart stories that share an ID across features', () => {
+    expect(stories.map(sprintStoryRef)).toEqual([
+      'checkout/pay',
+      'invoices/pay',
+      'backlog/wishlist',
+    ]);
+    const resolved = resolveSprintStories(['invoices/pay', 'backlog/wishlist'], stories);
+    expect(resolved.stories).toEqual([stories[1], stories[2]]);
+    expect(resolved.missing).toEqual([]);
+  });
+
+  it('reports entries whose story is gone and matches bare IDs from older sprints', () => {
+    const resolved = resolveSprintStories(
+      ['checkout/deleted', 'wishlist', 'checkout/wishlist'],
+      stories
+    );
+    expect(resolved.stories).toEqual([stories[2]]);
+    expect(resolved.missing).toEqual(['checkout/deleted', 'checkout/wishlist']);
+  });
+});
+
+describe('nextSprintName', () => {
+  it('increments a trailing number', () => {
+    expect(nextSprintName('Sprint 9')).toBe('Sprint 10');
+    expect(nextSprintName('Kickoff')).toBe('Kickoff 2');
+  });
+});
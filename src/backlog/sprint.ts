@@ -0,0 +1,153 @@
+import type { Story, Sprint } from '../models/index.js';
+import { sortByRank } from './rank.js';
+
+// T-shirt sizes map onto the usual Fibonacci points
+const SIZE_POINTS: Record<string, number> = { xs: 1, s: 2, m: 3, l: 5, xl: 8, xxl: 13 };
+
+// Story points from a free-form estimate: "5", "5 points", "3.5pts" or a T-shirt size
+export function parseStoryPoints(estimate: string | undefined): number | undefined {
+  if (!estimate) return undefined;
+  const value = estimate.trim().toLowerCase();
+
+  const numeric = value.match(/^(\d+(?:\.\d+)?)\s*(?:sp|pts?|points?)?$/);
+  if (numeric) return Number(numeric[1]);
+
+  return SIZE_POINTS[value];
+}
+
+export function sumStoryPoints(stories: Story[]): number {
+  return stories.reduce((sum, story) => sum + (parseStoryPoints(story.estimate) || 0), 0);
+}
+
+// Completed points per closed sprint, averaged over the most recent ones
+export function averageVelocity(sprints: Sprint[], lastCount = 3): number | undefined {
+  const closed = sprints
+    .filter((s) => s.status === 'closed' && s.velocity !== undefined)
+    .slice(-lastCount);
+  if (closed.length === 0) return undefined;
+  const total = closed.reduce((sum, s) => sum + (s.velocity as number), 0);
+  return Math.round((total / closed.length) * 10) / 10;
+}
+
+// Sprints list stories as "feature/id", backlog stories as "backlog/id", since a story
+// ID is only unique within its feature
+export function sprintStoryRef(story: Story): string {
+  return `${story.feature || 'backlog'}/${story.id}`;
+}
+
+// The sprint's stories in its order, and the entries no longer matching a story.
+// Sprints saved before stories were listed by feature hold bare IDs, matched on ID alone.
+export function resolveSprintStories(
+  refs: string[],
+  stories: Story[]
+): { stories: Story[]; missing: string[] } {
+  const found: Story[] = [];
+  const missing: string[] = [];
+  for (const ref of refs) {
+    const story = ref.includes('/')
+      ? stories.find((s) => sprintStoryRef(s) === ref)
+      : stories.find((s) => s.id === ref);
+    if (story) {
+      found.push(story);
+    } else {
+      missing.push(ref);
+    }
+  }
+  return { stories: found, missing };
+}
+
+export interface SprintPlan {
+  selected: Story[];
+  points: number;
+  skipped: Array<{ story: Story; reason: string }>;
+}
+
+// Greedy scope from ranked ready stories that fits the capacity. A story is only
+// taken when each dependency is done, already in the sprint, or can be pulled in too.
+// Unavailable stories are given by sprintStoryRef.
+export function planSprint(
+  stories: Story[],
+  capacity: number,
+  options: { committed?: Story[]; unavailable?: Set<string> } = {}
+): SprintPlan {
+  const byId = new Map(stories.map((s) => [s.id, s]));
+  const selectedRefs = new Set((options.committed || []).map(sprintStoryRef));
+  const unavailable = options.unavailable || new Set<string>();
+  const selected: Story[] = [];
+  const skipped: SprintPlan['skipped'] = [];
+  let points = sumStoryPoints(options.committed || []);
+
+  const candidates = sortByRank(
+    stories.filter(
+      (s) =>
+        s.status === 'ready' && !selectedRefs.has(sprintStoryRef(s)) && !unavailable.has(sprintStoryRef(s))
+    )
+  );
+
+  // The story plus any ready dependencies it needs, dependencies first
+  const collect = (story: Story, chain: Set<string>): { stories: Story[]; reason?: string } => {
+    if (chain.has(story.id)) {
+      return { stories: [], reason: `circular dependency through "${story.id}"` };
+    }
+    if (parseStoryPoints(story.estimate) === undefined) {
+      const reason = chain.size === 0 ? 'no estimate' : `dependency "${story.id}" has no estimate`;
+      return { stories: [], reason };
+    }
+
+    const nextChain = new Set(chain).add(story.id);
+    const needed: Story[] = [];
+    for (const dependencyId of story.dependencies) {
+      const dependency = byId.get(dependencyId);
+      if (!dependency) {
+        return { stories: [], reason: `depends on unknown story "${dependencyId}"` };
+      }
+      const dependencyRef = sprintStoryRef(dependency);
+      if (dependency.status === 'done' || selectedRefs.has(dependencyRef)) continue;
+      if (dependency.status !== 'ready' || unavailable.has(dependencyRef)) {
+        return {
+          stories: [],
+          reason: `depends on "${dependencyId}" (${unavailable.has(dependencyRef) ? 'in another sprint' : dependency.status})`,
+        };
+      }
+      const pulled = collect(dependency, nextChain);
+      if (pulled.reason) return pulled;
+      for (const s of pulled.stories) {
+        if (!needed.includes(s)) needed.push(s);
+      }
+    }
+    needed.push(story);
+    return { stories: needed };
+  };
+
+  for (const story of candidates) {
+    if (selectedRefs.has(sprintStoryRef(story))) continue;
+
+    const { stories: group, reason } = collect(story, new Set());
+    if (reason) {
+      skipped.push({ story, reason });
+      continue;
+    }
+
+    const groupPoints = sumStoryPoints(group);
+    if (points + groupPoints > capacity) {
+      const extra = group.length > 1 ? ` with ${group.length - 1} dependencies` : '';
+      skipped.push({ story, reason: `${groupPoints} points${extra} would exceed capacity` });
+      continue;
+    }
+
+    for (const s of group) {
+      selectedRefs.add(sprintStoryRef(s));
+      selected.push(s);
+    }
+    points += groupPoints;
+  }
+
+  return { selected, points, skipped };
+}
+
+// "Sprint 4" -> "Sprint 5"; names without a trailing number get " 2"
+export function nextSprintName(name: string): string {
+  const match = name.match(/^(.*?)(\d+)$/);
+  if (match) return `${match[1]}${Number(match[2]) + 1}`;
+  return `${name} 2`;
+}
@@ -0,0 +1,229 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { ConversationManager } from '../../ai/index.js';
+import { ScoringModel } from '../../models/index.js';
+import {
+  moveInRanking,
+  rankByScore,
+  applyScoringInputs,
+  hasScoringInputs,
+  SCORING_FIELDS,
+  type RankPosition,
+} from '../../backlog/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displaySuccess,
+  displayBacklog,
+  displayAIStreamChunk,
+} from '../../ui/index.js';
+import { ensureApiKey, getStorageOrExit } from '../helpers.js';
+
+function parseModelOrExit(model: string | undefined): ScoringModel | undefined {
+  if (model === undefined) return undefined;
+  const parsed = ScoringModel.safeParse(model.toLowerCase());
+  if (!parsed.success) {
+    displayError(`Unknown scoring model "${model}". Use one of: ${ScoringModel.options.join(', ')}.`);
+    process.exit(1);
+  }
+  return parsed.data;
+}
+
+export function backlogCommand(program: Command): void {
+  const backlog = program
+    .command('backlog')
+    .description('View, reorder and score the ranked backlog');
+
+  // backlog show (default)
+  backlog
+    .command('show', { isDefault: true })
+    .description('Show open stories in backlog order')
+    .option('-f, --feature <feature>', 'Only show stories in this feature')
+    .option('-m, --model <model>', 'Show scores for a model (rice, wsjf, moscow)')
+    .action(async (options: { feature?: string; model?: string }) => {
+      const model = parseModelOrExit(options.model);
+      const storage = getStorageOrExit();
+
+      displayHeader('Backlog');
+
+      const stories = await storage.listBacklog(options.feature);
+      if (stories.length === 0) {
+        displayInfo('The backlog is empty.');
+      } else {
+        displayBacklog(stories, model);
+        if (stories.some((s) => s.rank === undefined)) {
+          console.log();
+          console.log(
+            chalk.gray('Unranked stories are ordered by priority. Rank them with "one-p backlog move".')
+          );
+        }
+      }
+      console.log();
+    });
+
+  // backlog move <id>
+  backlog
+    .command('move <id>')
+    .description('Move a story to a new position in the backlog')
+    .option('--to <position>', 'Position, starting at 1')
+    .option('--top', 'Move to the top')
+    .option('--bottom', 'Move to the bottom')
+    .option('--before <id>', 'Move just above another story')
+    .option('--after <id>', 'Move just below another story')
+    .action(
+      async (
+        id: string,
+        options: { to?: string; top?: boolean; bottom?: boolean; before?: string; after?: string }
+      ) => {
+        const given = [options.to, options.top, options.bottom, options.before, options.after];
+        if (given.filter((o) => o !== undefined).length !== 1) {
+          displayError('Give exactly one of --to, --top, --bottom, --before or --after.');
+          process.exit(1);
+        }
+
+        let position: RankPosition;
+        if (options.to !== undefined) position = { to: Number(options.to) };
+        else if (options.top) position = { top: true };
+        else if (options.bottom) position = { bottom: true };
+        else if (options.before) position = { before: options.before };
+        else position = { after: options.after as string };
+
+        const storage = getStorageOrExit();
+        const ordered = await storage.listBacklog();
+
+        try {
+          const reordered = moveInRanking(ordered, id, position);
+          await storage.saveBacklogOrder(reordered);
+          const rank = reordered.findIndex((s) => s.id === id) + 1;
+          displaySuccess(`Story "${id}" is now #${rank} of ${reordered.length}.`);
+        } catch (error) {
+          displayError(error instanceof Error ? error.message : 'Unknown error');
+          process.exit(1);
+        }
+      }
+    );
+
+  // backlog score --model <model>
+  backlog
+    .command('score')
+    .description('Re-rank the backlog by a scoring model')
+    .requiredOption('-m, --model <model>', 'Scoring model (rice, wsjf, moscow)')
+    .option('--dry-run', 'Show the new order without saving it')
+    .action(async (options: { model: string; dryRun?: boolean }) => {
+      const model = parseModelOrExit(options.model) as ScoringModel;
+      const storage = getStorageOrExit();
+
+      const ordered = await storage.listBacklog();
+      const reordered = rankByScore(ordered, model);
+      const unscored = reordered.filter((s) => !hasScoringInputs(s, model));
+
+      displayHeader(`Backlog by ${model.toUpperCase()}`);
+
+      if (options.dryRun) {
+        // Show the would-be ranks without touching the stories
+        displayBacklog(
+          reordered.map((story, i) => ({ ...story, rank: i + 1 })),
+          model
+        );
+        console.log();
+        displayInfo('Dry run: nothing was saved.');
+      } else {
+        const changed = await storage.saveBacklogOrder(reordered);
+        displayBacklog(reordered, model);
+        console.log();
+        displaySuccess(`Backlog re-ranked; ${changed.length} stories moved.`);
+      }
+
+      if (unscored.length > 0) {
+        displayWarning(
+          `${unscored.length} stories have no ${model} inputs and were kept at the bottom.`
+        );
+        console.log(
+          chalk.gray(
+            `Set them with "one-p backlog inputs <id> ${model} ...", or ask the AI: "one-p backlog suggest -m ${model}".`
+          )
+        );
+      }
+      console.log();
+    });
+
+  // backlog inputs <id> <model> [values...]
+  backlog
+    .command('inputs <id> <model> [values...]')
+    .description('Set scoring inputs, e.g. "rice reach=500 impact=2 confidence=80% effort=3" or "moscow must"')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .addHelpText(
+      'after',
+      `
+Inputs per model:
+  rice    ${SCORING_FIELDS.rice.join(', ')}
+  wsjf    ${SCORING_FIELDS.wsjf.join(', ')}
+  moscow  must, should, could or wont`
+    )
+    .action(async (id: string, model: string, values: string[], options: { feature?: string }) => {
+      const scoringModel = parseModelOrExit(model) as ScoringModel;
+      const storage = getStorageOrExit();
+
+      const raw: Record<string, string> = {};
+      for (const value of values) {
+        const [key, ...rest] = value.split('=');
+        if (rest.length === 0) {
+          raw.category = key;
+        } else {
+          raw[key] = rest.join('=');
+        }
+      }
+
+      try {
+        const story = await storage.findStory(id, options.feature);
+        if (!story) {
+          displayError(`Story "${id}" not found.`);
+          process.exit(1);
+        }
+        story.scoring = applyScoringInputs(story.scoring, scoringModel, raw);
+        await storage.updateStory(story);
+      } catch (error) {
+        displayError(error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+      }
+
+      displaySuccess(`${scoringModel.toUpperCase()} inputs saved for "${id}".`);
+    });
+
+  // backlog suggest --model <model>
+  backlog
+    .command('suggest')
+    .description('Ask the AI to propose scoring inputs for stories that lack them')
+    .requiredOption('-m, --model <model>', 'Scoring model (rice, wsjf, moscow)')
+    .action(async (options: { model: string }) => {
+      const model = parseModelOrExit(options.model) as ScoringModel;
+      const storage = getStorageOrExit();
+
+      const missing = (await storage.listBacklog()).filter((s) => !hasScoringInputs(s, model));
+      if (missing.length === 0) {
+        displaySuccess(`Every open story already has ${model} inputs.`);
+        return;
+      }
+
+      if (!(await ensureApiKey())) {
+        process.exit(1);
+      }
+
+      const appConfig = loadAppConfig();
+      displayHeader(`Suggest ${model.toUpperCase()} Inputs`);
+
+      const conversationManager = new ConversationManager(appConfig.projectPath as string, {
+        callbacks: { onText: displayAIStreamChunk },
+      });
+
+      await conversationManager.chat(
+        `Propose ${model} scoring inputs for the ${missing.length} open stories that lack them ` +
+          `(${missing.map((s) => s.id).join(', ')}). Use get_backlog to read them, then ` +
+          `propose_scoring_inputs with a short rationale for each.`
+      );
+      console.log();
+    });
+}
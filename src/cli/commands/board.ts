@@ -0,0 +1,175 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as readline from 'readline';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import { StoryStatus, type Story, type WorkflowConfig } from '../../models/index.js';
+import { resolveWorkflow, changeStoryStatus } from '../../workflow/index.js';
+import {
+  displayHeader,
+  displayWarning,
+  displayError,
+  renderBoard,
+  sortBoardColumn,
+  type BoardSelection,
+} from '../../ui/index.js';
+
+function buildColumns(stories: Story[]): Array<{ status: StoryStatus; stories: Story[] }> {
+  return StoryStatus.options.map((status) => ({
+    status,
+    stories: sortBoardColumn(stories.filter((s) => s.status === status)),
+  }));
+}
+
+// Keyboard-driven board; moving a card saves the story straight away
+async function runInteractiveBoard(
+  storage: StorageManager,
+  stories: Story[],
+  title: string,
+  workflow: WorkflowConfig
+): Promise<void> {
+  const selection: BoardSelection = { column: 0, row: 0 };
+  let message = '';
+
+  const columns = (): Array<{ status: StoryStatus; stories: Story[] }> => buildColumns(stories);
+
+  const clampRow = (): void => {
+    const count = columns()[selection.column].stories.length;
+    selection.row = Math.max(0, Math.min(selection.row, count - 1));
+  };
+
+  const draw = (): void => {
+    console.clear();
+    console.log(chalk.bold(title));
+    console.log();
+    console.log(renderBoard(columns(), { selection }));
+    console.log();
+    console.log(
+      chalk.gray('←/→ column · ↑/↓ card · shift+←/→ or </> move card · q quit')
+    );
+    if (message) {
+      console.log(message);
+    }
+  };
+
+  const moveCard = async (direction: number): Promise<void> => {
+    const current = columns();
+    const story = current[selection.column].stories[selection.row];
+    const target = selection.column + direction;
+    if (!story || target < 0 || target >= current.length) return;
+
+    const previous = story.status;
+    // Checklists cannot be ticked from the board, so gates with one fail here
+    const change = await changeStoryStatus(story, current[target].status, workflow);
+    if (!change.allowed) {
+      message = chalk.red(
+        `✗ ${story.id} cannot move to ${current[target].status}: ` +
+          change.failed.map((r) => `${r.label} not met (${r.failures.join('; ')})`).join(', ')
+      );
+      return;
+    }
+    try {
+      await storage.updateStory(story);
+      message = chalk.green(`✓ ${story.id}: ${previous} → ${story.status}`);
+      selection.column = target;
+      selection.row = columns()[target].stories.indexOf(story);
+    } catch (error) {
+      story.status = previous;
+      message = chalk.red(
+        `✗ Could not move ${story.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+
+  readline.emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.resume();
+  draw();
+
+  await new Promise<void>((resolve) => {
+    let busy = false;
+
+    const onKeypress = async (text: string | undefined, key: readline.Key): Promise<void> => {
+      if (busy) return;
+      const name = key?.name;
+
+      if (name === 'q' || name === 'escape' || (key?.ctrl && name === 'c')) {
+        process.stdin.off('keypress', onKeypress);
+        process.stdin.setRawMode(false);
+        process.stdin.pause();
+        resolve();
+        return;
+      }
+
+      busy = true;
+      message = '';
+      if ((key?.shift && name === 'left') || text === '<') {
+        await moveCard(-1);
+      } else if ((key?.shift && name === 'right') || text === '>') {
+        await moveCard(1);
+      } else if (name === 'left' || name === 'h') {
+        selection.column = Math.max(0, selection.column - 1);
+      } else if (name === 'right' || name === 'l') {
+        selection.column = Math.min(columns().length - 1, selection.column + 1);
+      } else if (name === 'up' || name === 'k') {
+        selection.row -= 1;
+      } else if (name === 'down' || name === 'j') {
+        selection.row += 1;
+      }
+      clampRow();
+      draw();
+      busy = false;
+    };
+
+    process.stdin.on('keypress', onKeypress);
+  });
+}
+
+export function boardCommand(program: Command): void {
+  program
+    .command('board')
+    .description('Show stories as a kanban board, one column per status')
+    .option('-f, --feature <feature>', 'Only show stories in this feature')
+    .option('-i, --interactive', 'Move cards between columns with the keyboard')
+    .action(async (options: { feature?: string; interactive?: boolean }) => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      const storage = new StorageManager(appConfig.projectPath);
+
+      let title = 'Board';
+      if (options.feature) {
+        const feature = await storage.getFeature(options.feature);
+        if (!feature && options.feature !== 'backlog') {
+          displayError(`Feature "${options.feature}" not found.`);
+          process.exit(1);
+        }
+        title = `Board: ${feature?.title || 'Backlog'}`;
+      }
+
+      const stories = await storage.listStories(options.feature);
+
+      if (options.interactive) {
+        if (!process.stdin.isTTY) {
+          displayError('Interactive mode needs a terminal.');
+          process.exit(1);
+        }
+        let workflow: WorkflowConfig;
+        try {
+          workflow = resolveWorkflow(appConfig.projectConfig?.workflow);
+        } catch (error) {
+          displayError(error instanceof Error ? error.message : 'Unknown error');
+          process.exit(1);
+        }
+        await runInteractiveBoard(storage, stories, title, workflow);
+        return;
+      }
+
+      displayHeader(title);
+      console.log(renderBoard(buildColumns(stories)));
+      console.log();
+    });
+}
@@ -3,14 +3,25 @@ import * as readline from 'readline';
 import chalk from 'chalk';
 import { loadAppConfig, settingsExist, getApiKey, getModelInfo, getModel } from '../../config/index.js';
 import { runInitialSetup } from '../../config/setup.js';
+import { StorageManager } from '../../storage/index.js';
 import { ConversationManager } from '../../ai/index.js';
-import { displayHeader, displayError, displayWarning, displayInfo } from '../../ui/index.js';
+import type { Session } from '../../models/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displayAIStreamChunk,
+  displaySession,
+} from '../../ui/index.js';
 
 export function chatCommand(program: Command): void {
   program
     .command('chat')
     .description('Start an interactive AI chat session for story writing')
-    .action(async () => {
+    .option('-r, --resume [sessionId]', 'Resume a saved session (default: most recent)')
+    .option('--dry-run', 'Show the changes the AI would make without saving anything')
+    .action(async (options: { resume?: string | boolean; dryRun?: boolean }) => {
       // Check for settings - run setup if first time
       if (!settingsExist()) {
         console.log(chalk.cyan('First time setup required.'));
@@ -42,6 +53,32 @@ export function chatCommand(program: Command): void {
         process.exit(1);
       }
 
+      // Load the session to resume, if requested
+      let resumeSession: Session | undefined;
+      if (options.resume) {
+        const storage = new StorageManager(appConfig.projectPath);
+        let found: Session | null | undefined;
+        try {
+          found =
+            typeof options.resume === 'string'
+              ? await storage.getSession(options.resume)
+              : (await storage.listSessions())[0];
+        } catch (error) {
+          displayError(error instanceof Error ? error.message : 'Unknown error');
+          process.exit(1);
+        }
+
+        if (!found) {
+          displayError(
+            typeof options.resume === 'string'
+              ? `Session "${options.resume}" not found.`
+              : 'No saved sessions to resume.'
+          );
+          process.exit(1);
+        }
+        resumeSession = found;
+      }
+
       // Get model info
       const modelId = getModel();
       const modelInfo = getModelInfo(modelId);
@@ -50,16 +87,27 @@ export function chatCommand(program: Command): void {
       console.log(chalk.gray(`Project: ${appConfig.projectConfig?.name || 'Unknown'}`));
       console.log(chalk.gray(`Path: ${appConfig.projectPath}`));
       console.log(chalk.gray(`Model: ${modelInfo?.name || modelId}`));
+      if (options.dryRun) {
+        console.log(chalk.yellow('Dry run: changes are shown but nothing is saved.'));
+      }
       console.log();
       console.log(chalk.cyan('I\'m your AI assistant for writing user stories and managing requirements.'));
       console.log(chalk.cyan('Type your message and press Enter. Type "exit" or "quit" to leave.'));
       console.log();
 
       // Initialize conversation manager
-      const conversationManager = new ConversationManager(appConfig.projectPath);
+      const conversationManager = new ConversationManager(appConfig.projectPath, {
+        callbacks: { onText: displayAIStreamChunk },
+        sessionKind: 'chat',
+        resumeSession,
+        dryRun: options.dryRun,
+      });
 
-      // Add project context
-      if (appConfig.projectConfig) {
+      if (resumeSession) {
+        console.log(chalk.gray(`Resuming session: ${resumeSession.id}`));
+        displaySession(resumeSession);
+      } else if (appConfig.projectConfig) {
+        // Add project context
         conversationManager.addContext(
           `Current project: ${appConfig.projectConfig.name}. ${appConfig.projectConfig.description || ''}`
         );
@@ -83,6 +131,13 @@ export function chatCommand(program: Command): void {
           if (trimmedInput.toLowerCase() === 'exit' || trimmedInput.toLowerCase() === 'quit') {
             console.log();
             console.log(chalk.cyan('Goodbye! Your stories are saved in the project folder.'));
+            if (conversationManager.hasSavedSession()) {
+              console.log(
+                chalk.gray(
+                  `Resume this session with: one-p chat --resume ${conversationManager.getSessionId()}`
+                )
+              );
+            }
             rl.close();
             process.exit(0);
           }
@@ -94,6 +149,12 @@ export function chatCommand(program: Command): void {
             return;
           }
 
+          if (trimmedInput.toLowerCase() === 'undo' || trimmedInput.toLowerCase() === 'undo --force') {
+            await undoLastChange(conversationManager, trimmedInput.toLowerCase() === 'undo --force');
+            prompt();
+            return;
+          }
+
           if (trimmedInput.toLowerCase() === 'help') {
             displayChatHelp();
             prompt();
@@ -116,11 +177,35 @@ export function chatCommand(program: Command): void {
     });
 }
 
+// Revert the files changed by this session's latest turn
+async function undoLastChange(conversationManager: ConversationManager, force: boolean): Promise<void> {
+  try {
+    const { changeSet, conflicts } = await conversationManager.undoLastChange({ force });
+    if (!changeSet) {
+      console.log(chalk.gray('Nothing to undo in this session.'));
+      return;
+    }
+
+    if (conflicts.length > 0 && !force) {
+      displayWarning('These files were changed after the AI wrote them, so nothing was reverted:');
+      conflicts.forEach((file) => console.log(chalk.gray(`  ${file}`)));
+      console.log(chalk.gray('Type "undo --force" to revert them anyway.'));
+      return;
+    }
+
+    console.log(chalk.cyan(`Undid the changes from "${changeSet.label}":`));
+    changeSet.files.forEach((file) => console.log(chalk.gray(`  ${file.path}`)));
+  } catch (error) {
+    displayError(`Undo failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 function displayChatHelp(): void {
   console.log();
   console.log(chalk.bold('Chat Commands:'));
   console.log(chalk.gray('  exit, quit  - End the chat session'));
-  console.log(chalk.gray('  clear       - Clear conversation history'));
+  console.log(chalk.gray('  clear       - Clear conversation history (starts a new session)'));
+  console.log(chalk.gray('  undo        - Revert the stories and features changed by the last reply'));
   console.log(chalk.gray('  help        - Show this help message'));
   console.log();
   console.log(chalk.bold('Things you can ask me:'));
@@ -0,0 +1,169 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageManager } from '../../storage/index.js';
+import type { Story } from '../../models/index.js';
+import {
+  buildDependencyGraph,
+  findMissingDependencies,
+  findDependencyCycles,
+  renderDependencyGraph,
+  linkStories,
+  unlinkStories,
+  GRAPH_FORMATS,
+  type DependencyKind,
+  type GraphFormat,
+} from '../../backlog/index.js';
+import {
+  displayHeader,
+  displayError,
+  displaySuccess,
+  displayInfo,
+} from '../../ui/index.js';
+import { getStorageOrExit, findStoryOrExit } from '../helpers.js';
+
+// Stories in a feature, or all of them; exits if the feature does not exist
+async function storiesInScope(storage: StorageManager, feature: string | undefined): Promise<Story[]> {
+  if (feature && feature !== 'backlog' && !(await storage.getFeature(feature))) {
+    displayError(`Feature "${feature}" not found.`);
+    process.exit(1);
+  }
+  return storage.listStories(feature);
+}
+
+export function depsCommand(program: Command): void {
+  const deps = program.command('deps').description('Manage and check story dependencies');
+
+  // deps graph
+  deps
+    .command('graph')
+    .description('Export the dependency graph')
+    .option('--format <format>', `Output format: ${GRAPH_FORMATS.join(', ')}`, 'mermaid')
+    .option('-f, --feature <feature>', 'Only stories in this feature (and what they link to)')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('--no-related', 'Leave out related-story links')
+    .action(
+      async (options: { format: string; feature?: string; output?: string; related: boolean }) => {
+        if (!(GRAPH_FORMATS as readonly string[]).includes(options.format)) {
+          displayError(`Invalid format "${options.format}". Use one of: ${GRAPH_FORMATS.join(', ')}.`);
+          process.exit(1);
+        }
+
+        const storage = getStorageOrExit();
+        const stories = await storiesInScope(storage, options.feature);
+        const allStories = options.feature ? await storage.listStories() : stories;
+
+        const graph = buildDependencyGraph(stories, allStories, { related: options.related });
+        const output = renderDependencyGraph(graph, options.format as GraphFormat) + '\n';
+
+        if (options.output) {
+          fs.writeFileSync(path.resolve(options.output), output, 'utf-8');
+          displaySuccess(`Dependency graph written to ${options.output}`);
+        } else {
+          process.stdout.write(output);
+        }
+      }
+    );
+
+  // deps check
+  deps
+    .command('check')
+    .description('Report links to missing stories and dependency cycles')
+    .option('-f, --feature <feature>', 'Only check stories in this feature')
+    .action(async (options: { feature?: string }) => {
+      const storage = getStorageOrExit();
+      const stories = await storiesInScope(storage, options.feature);
+      const allStories = options.feature ? await storage.listStories() : stories;
+
+      displayHeader('Dependency Check');
+
+      const missing = findMissingDependencies(stories, allStories);
+      // Cycles can run through other features, so they are found over the whole project
+      const scope = new Set(stories.map((s) => s.id));
+      const cycles = findDependencyCycles(allStories).filter((cycle) =>
+        cycle.some((id) => scope.has(id))
+      );
+
+      if (missing.length === 0 && cycles.length === 0) {
+        displaySuccess(`No problems found in ${stories.length} stories.`);
+        console.log();
+        return;
+      }
+
+      if (missing.length > 0) {
+        console.log(chalk.red(`Missing targets (${missing.length}):`));
+        for (const { storyId, target, kind } of missing) {
+          console.log(`  ${storyId} ${chalk.gray(kind === 'related' ? 'is related to' : 'depends on')} ${chalk.red(target)}`);
+        }
+        console.log();
+      }
+
+      if (cycles.length > 0) {
+        console.log(chalk.red(`Dependency cycles (${cycles.length}):`));
+        for (const cycle of cycles) {
+          console.log(`  ${cycle.join(chalk.gray(' → '))}`);
+        }
+        console.log();
+      }
+
+      console.log(chalk.gray('Fix them with "one-p deps remove <story> <target>".'));
+      console.log();
+      process.exit(1);
+    });
+
+  // deps add <story> <target>
+  deps
+    .command('add <story> <target>')
+    .description('Record that a story depends on another')
+    .option('--related', 'Link the stories as related instead of as a dependency')
+    .action(async (storyId: string, targetId: string, options: { related?: boolean }) => {
+      const kind: DependencyKind = options.related ? 'related' : 'depends-on';
+      const storage = getStorageOrExit();
+      const story = await findStoryOrExit(storage, storyId);
+      const target = await findStoryOrExit(storage, targetId);
+
+      let changed: Story[];
+      try {
+        changed = linkStories(story, target, kind, await storage.listStories());
+      } catch (error) {
+        displayError(error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+      }
+
+      for (const s of changed) {
+        await storage.updateStory(s);
+      }
+
+      const relation = kind === 'related' ? 'is related to' : 'depends on';
+      if (changed.length === 0) {
+        displayInfo(`"${storyId}" already ${relation} "${targetId}".`);
+      } else {
+        displaySuccess(`"${storyId}" ${relation} "${targetId}".`);
+      }
+    });
+
+  // deps remove <story> <target>
+  deps
+    .command('remove <story> <target>')
+    .description('Remove a dependency (the target may be a missing story)')
+    .option('--related', 'Remove a related-story link instead of a dependency')
+    .action(async (storyId: string, targetId: string, options: { related?: boolean }) => {
+      const kind: DependencyKind = options.related ? 'related' : 'depends-on';
+      const storage = getStorageOrExit();
+      const story = await findStoryOrExit(storage, storyId);
+      const target = (await storage.listStories()).find((s) => s.id === targetId);
+
+      const changed = unlinkStories(story, targetId, kind, target);
+      for (const s of changed) {
+        await storage.updateStory(s);
+      }
+
+      const relation = kind === 'related' ? 'related to' : 'dependent on';
+      if (changed.length === 0) {
+        displayInfo(`"${storyId}" was not ${relation} "${targetId}".`);
+      } else {
+        displaySuccess(`"${storyId}" is no longer ${relation} "${targetId}".`);
+      }
+    });
+}
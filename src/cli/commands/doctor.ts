@@ -0,0 +1,140 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import {
+  displayHeader,
+  displaySubheader,
+  displaySuccess,
+  displayWarning,
+  displayInfo,
+  displayFileIssues,
+  displayFileRepair,
+  askConfirm,
+} from '../../ui/index.js';
+
+// Report and repair each kind of problem; writes land in the caller's change set
+async function checkProject(
+  storage: StorageManager,
+  options: { check?: boolean; yes?: boolean }
+): Promise<void> {
+  // Story and feature files that fail to parse are left out of every list
+  displaySubheader('Story and feature files');
+  const invalidFiles = await storage.findInvalidFiles();
+
+  if (invalidFiles.length === 0) {
+    displaySuccess('Every story and feature file is valid.');
+  }
+
+  let unrepaired = 0;
+  let skipped = 0;
+  for (const file of invalidFiles) {
+    console.log();
+    displayFileIssues(file);
+
+    const repair = storage.getFileRepair(file);
+    if (!repair) {
+      unrepaired++;
+      console.log(chalk.yellow('    ! No automatic fix; edit the file by hand'));
+      continue;
+    }
+
+    console.log(chalk.gray('    Proposed fixes:'));
+    displayFileRepair(repair);
+    if (repair.manual.length > 0) {
+      unrepaired++;
+      continue;
+    }
+    if (options.check) continue;
+
+    if (options.yes || (await askConfirm(`Apply these fixes to ${file.path}?`))) {
+      await storage.repairInvalidFile(file, repair);
+      displaySuccess('Repaired.');
+    } else {
+      skipped++;
+    }
+  }
+
+  if (invalidFiles.length > 0) {
+    console.log();
+    if (unrepaired > 0) {
+      displayWarning(
+        `${unrepaired} of ${invalidFiles.length} files need a hand edit before they can be read.`
+      );
+    }
+    if (options.check) {
+      displayInfo('Run "one-p doctor" without --check to apply the proposed fixes.');
+    } else if (skipped > 0) {
+      displayInfo(`${skipped} file(s) left as they were.`);
+    }
+  }
+
+  console.log();
+
+  // Feature story lists
+  displaySubheader('Feature story lists');
+  const syncResults = await storage.syncFeatureStories({ dryRun: options.check });
+
+  if (syncResults.length === 0) {
+    displaySuccess('All feature story lists match the story files.');
+  }
+
+  for (const result of syncResults) {
+    console.log();
+    console.log(chalk.bold(`  ${result.featureId}`));
+
+    if (result.missingFeature) {
+      console.log(chalk.yellow('    ! Stories exist but feature.md is missing'));
+      continue;
+    }
+
+    for (const id of result.added) {
+      console.log(chalk.green(`    + ${id}`) + chalk.gray(' (story file not listed)'));
+    }
+    for (const id of result.orphaned) {
+      console.log(chalk.red(`    - ${id}`) + chalk.gray(' (orphaned ID, no story file)'));
+    }
+  }
+
+  const repairable = syncResults.some((r) => !r.missingFeature);
+  if (repairable) {
+    console.log();
+    if (options.check) {
+      displayInfo('Run "one-p doctor" without --check to repair these lists.');
+    } else {
+      displaySuccess('Feature story lists rebuilt.');
+    }
+  }
+
+  console.log();
+}
+
+export function doctorCommand(program: Command): void {
+  program
+    .command('doctor')
+    .description('Check the project for inconsistencies and repair them')
+    .option('--check', 'Only report problems, do not repair them')
+    .option('-y, --yes', 'Apply file repairs without asking')
+    .action(async (options: { check?: boolean; yes?: boolean }) => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      displayHeader('Project Doctor');
+
+      const storage = new StorageManager(appConfig.projectPath);
+      // Snapshot every repair so "one-p undo" can put the files back
+      storage.beginChangeSet({ label: 'one-p doctor' });
+
+      try {
+        await checkProject(storage, options);
+      } finally {
+        if (storage.endChangeSet()) {
+          displayInfo('Run "one-p undo" to revert these changes.');
+          console.log();
+        }
+      }
+    });
+}
@@ -0,0 +1,109 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import { StoryStatus } from '../../models/index.js';
+import {
+  exportBacklog,
+  findUnknownExportFields,
+  EXPORT_FORMATS,
+  EXPORT_FIELDS,
+  type ExportFormat,
+} from '../../exchange/index.js';
+import {
+  displayError,
+  displayWarning,
+  displaySuccess,
+  displayInvalidFiles,
+} from '../../ui/index.js';
+
+// Parse "Header=field,Other Header=field" into a column mapping
+function parseColumns(spec: string): Record<string, string> {
+  const columns: Record<string, string> = {};
+  for (const pair of spec.split(',')) {
+    const [header, field] = pair.split('=').map((part) => part.trim());
+    if (header && field) {
+      columns[header] = field;
+    }
+  }
+  return columns;
+}
+
+export function exportCommand(program: Command): void {
+  program
+    .command('export')
+    .description('Export features and stories as CSV, Jira-compatible CSV or JSON')
+    .option('--format <format>', `Output format (${EXPORT_FORMATS.join(', ')})`, 'csv')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('-f, --feature <feature>', 'Only export this feature')
+    .option('-s, --status <status>', 'Only export stories with this status')
+    .option('-t, --tag <tag>', 'Only export stories with this tag')
+    .option('--columns <mapping>', 'Column mapping, e.g. "Summary=summary,Points=storyPoints"')
+    .action(
+      async (options: {
+        format: string;
+        output?: string;
+        feature?: string;
+        status?: string;
+        tag?: string;
+        columns?: string;
+      }) => {
+        const appConfig = loadAppConfig();
+        if (!appConfig.projectPath) {
+          displayWarning('No one-p project found. Run "one-p init" first.');
+          process.exit(1);
+        }
+
+        if (!(EXPORT_FORMATS as readonly string[]).includes(options.format)) {
+          displayError(`Invalid format "${options.format}". Use one of: ${EXPORT_FORMATS.join(', ')}.`);
+          process.exit(1);
+        }
+        const format = options.format as ExportFormat;
+
+        const status = options.status ? StoryStatus.safeParse(options.status) : undefined;
+        if (status && !status.success) {
+          displayError(
+            `Invalid status "${options.status}". Use one of: ${StoryStatus.options.join(', ')}.`
+          );
+          process.exit(1);
+        }
+
+        // --columns wins over the project's configured mapping for this format
+        const exportConfig = appConfig.projectConfig?.export;
+        const columns = options.columns
+          ? parseColumns(options.columns)
+          : format === 'jira-csv'
+            ? exportConfig?.jiraColumns
+            : exportConfig?.csvColumns;
+
+        if (columns) {
+          const unknown = findUnknownExportFields(columns);
+          if (unknown.length > 0) {
+            displayError(
+              `Unknown export field(s): ${unknown.join(', ')}. Available: ${EXPORT_FIELDS.join(', ')}.`
+            );
+            process.exit(1);
+          }
+        }
+
+        const storage = new StorageManager(appConfig.projectPath);
+        const output = await exportBacklog(storage, {
+          format,
+          feature: options.feature,
+          status: status?.data,
+          tag: options.tag,
+          columns,
+        });
+
+        if (options.output) {
+          fs.writeFileSync(path.resolve(options.output), output, 'utf-8');
+          displaySuccess(`Exported ${format} to ${options.output}`);
+          displayInvalidFiles(storage.getInvalidFiles());
+        } else {
+          process.stdout.write(output);
+          displayInvalidFiles(storage.getInvalidFiles(), true);
+        }
+      }
+    );
+}
@@ -1,7 +1,6 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { loadAppConfig, settingsExist, getApiKey } from '../../config/index.js';
-import { runInitialSetup } from '../../config/setup.js';
+import { loadAppConfig } from '../../config/index.js';
 import { StorageManager } from '../../storage/index.js';
 import { ConversationManager } from '../../ai/index.js';
 import {
@@ -11,29 +10,10 @@ import {
   displayInfo,
   displayFeature,
   displayProgress,
+  displayAIStreamChunk,
+  displayInvalidFiles,
 } from '../../ui/index.js';
-
-async function ensureApiKey(): Promise<boolean> {
-  if (!settingsExist()) {
-    console.log(chalk.cyan('First time setup required.'));
-    console.log();
-    const settings = await runInitialSetup();
-    if (!settings) {
-      displayError('Setup cancelled.');
-      return false;
-    }
-    console.log();
-  }
-
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    displayError('No API key configured.');
-    console.log('Run "one-p config" to set up your API key.');
-    return false;
-  }
-
-  return true;
-}
+import { ensureApiKey } from '../helpers.js';
 
 export function featureCommand(program: Command): void {
   const feature = program.command('feature').description('Manage features/epics');
@@ -42,7 +22,8 @@ export function featureCommand(program: Command): void {
   feature
     .command('new')
     .description('Create a new feature/epic with AI guidance')
-    .action(async () => {
+    .option('--dry-run', 'Show the changes the AI would make without saving anything')
+    .action(async (options: { dryRun?: boolean }) => {
       if (!(await ensureApiKey())) {
         process.exit(1);
       }
@@ -54,8 +35,16 @@ export function featureCommand(program: Command): void {
       }
 
       displayHeader('Create New Feature');
+      if (options.dryRun) {
+        console.log(chalk.yellow('Dry run: changes are shown but nothing is saved.'));
+        console.log();
+      }
 
-      const conversationManager = new ConversationManager(appConfig.projectPath);
+      const conversationManager = new ConversationManager(appConfig.projectPath, {
+        callbacks: { onText: displayAIStreamChunk },
+        sessionKind: 'feature',
+        dryRun: options.dryRun,
+      });
 
       console.log(
         chalk.cyan("I'll help you define a new feature. Let's understand what you're building.")
@@ -136,6 +125,7 @@ export function featureCommand(program: Command): void {
           }
         }
       }
+      displayInvalidFiles(storage.getInvalidFiles());
 
       console.log();
     });
@@ -162,8 +152,14 @@ export function featureCommand(program: Command): void {
       displayHeader(`Feature: ${feat.title}`);
       displayFeature(feat);
 
-      // Show stories in this feature
-      const stories = await storage.listStories(id);
+      // Show stories in this feature, in the order the feature lists them
+      const stories = (await storage.listStories(id)).sort((a, b) => {
+        const rank = (storyId: string) => {
+          const index = feat.stories.indexOf(storyId);
+          return index === -1 ? feat.stories.length : index;
+        };
+        return rank(a.id) - rank(b.id);
+      });
       if (stories.length > 0) {
         console.log();
         console.log(chalk.bold('Stories:'));
@@ -0,0 +1,99 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import { convertCriteriaToGherkin } from '../../ai/index.js';
+import { renderFeatureFile, type CriteriaConverter } from '../../exchange/index.js';
+import type { Story } from '../../models/index.js';
+import {
+  displayHeader,
+  displayWarning,
+  displayInfo,
+  displaySuccess,
+  startSpinner,
+  stopSpinner,
+} from '../../ui/index.js';
+import { ensureApiKey } from '../helpers.js';
+
+export function gherkinCommand(program: Command): void {
+  const gherkin = program.command('gherkin').description('Generate Cucumber files from stories');
+
+  // gherkin export
+  gherkin
+    .command('export')
+    .description('Write one .feature file per feature, with a Scenario per acceptance criterion')
+    .option('-f, --feature <feature>', 'Only export this feature')
+    .option('-o, --output <dir>', 'Output directory (default: <project>/gherkin)')
+    .option('--ai', 'Use AI to rewrite criteria that are not in Given/When/Then form')
+    .action(async (options: { feature?: string; output?: string; ai?: boolean }) => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      if (options.ai && !(await ensureApiKey())) {
+        process.exit(1);
+      }
+
+      displayHeader('Gherkin Export');
+
+      const storage = new StorageManager(appConfig.projectPath);
+      const outputDir = options.output
+        ? path.resolve(options.output)
+        : path.join(appConfig.projectPath, 'gherkin');
+
+      // Group stories by the feature directory they belong to
+      const byFeature = new Map<string, Story[]>();
+      for (const story of await storage.listStories(options.feature)) {
+        const featureId = story.feature || 'backlog';
+        byFeature.set(featureId, [...(byFeature.get(featureId) || []), story]);
+      }
+
+      // Fall back to the plain-text conversion for any story the model fails on
+      const convert: CriteriaConverter | undefined = options.ai
+        ? async (story, criteria) => {
+            startSpinner(`Converting criteria for ${story.id}...`);
+            try {
+              const steps = await convertCriteriaToGherkin(story, criteria);
+              stopSpinner(true, `Converted criteria for ${story.id}`);
+              return steps;
+            } catch (error) {
+              stopSpinner(
+                false,
+                `AI conversion failed for ${story.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+              );
+              return [];
+            }
+          }
+        : undefined;
+
+      let written = 0;
+      for (const [featureId, stories] of byFeature) {
+        const feature = await storage.getFeature(featureId);
+        const file = await renderFeatureFile(feature, featureId, stories, convert);
+
+        if (file.scenarioCount === 0) {
+          displayInfo(`${featureId}: no acceptance criteria, skipped.`);
+          continue;
+        }
+
+        if (!fs.existsSync(outputDir)) {
+          fs.mkdirSync(outputDir, { recursive: true });
+        }
+        fs.writeFileSync(path.join(outputDir, file.fileName), file.content, 'utf-8');
+        displaySuccess(`${file.fileName} (${file.scenarioCount} scenarios)`);
+        written++;
+      }
+
+      console.log();
+      if (written === 0) {
+        displayInfo('No feature files written.');
+      } else {
+        console.log(chalk.gray(`Feature files written to ${outputDir}`));
+      }
+      console.log();
+    });
+}
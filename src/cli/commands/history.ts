@@ -0,0 +1,94 @@
+import { Command } from 'commander';
+import { loadAppConfig } from '../../config/index.js';
+import { readHistory } from '../../history/index.js';
+import { HistoryEntrySchema, type HistoryEntry } from '../../models/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displayHistory,
+} from '../../ui/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const HISTORY_ENTITIES: readonly string[] = HistoryEntrySchema.shape.entity.options;
+
+// A date such as 2026-10-01, a timestamp, or a relative age such as 7d or 12h
+function parseSince(value: string): string | null {
+  const relative = value.match(/^(\d+)\s*([dh])$/i);
+  if (relative) {
+    const amount = Number(relative[1]) * (relative[2].toLowerCase() === 'd' ? DAY : DAY / 24);
+    return new Date(Date.now() - amount).toISOString();
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function historyCommand(program: Command): void {
+  program
+    .command('history [id]')
+    .description("Show a story's or feature's change timeline, or the project-wide feed")
+    .option('--since <date>', 'Only changes since a date (YYYY-MM-DD) or age (7d, 12h)')
+    .option('-f, --feature <feature>', 'Only changes in this feature')
+    .option('-t, --type <type>', 'Only one kind of change (story, feature, persona, sprint)')
+    .option('-n, --limit <count>', 'Maximum number of entries in the feed', '50')
+    .option('--json', 'Output the entries as JSON')
+    .action(
+      async (
+        id: string | undefined,
+        options: { since?: string; feature?: string; type?: string; limit: string; json?: boolean }
+      ) => {
+        const appConfig = loadAppConfig();
+        if (!appConfig.projectPath) {
+          displayWarning('No one-p project found. Run "one-p init" first.');
+          process.exit(1);
+        }
+
+        let since: string | undefined;
+        if (options.since) {
+          const parsed = parseSince(options.since);
+          if (!parsed) {
+            displayError(`Invalid date "${options.since}". Use YYYY-MM-DD or an age such as 7d.`);
+            process.exit(1);
+          }
+          since = parsed;
+        }
+
+        if (options.type && !HISTORY_ENTITIES.includes(options.type)) {
+          displayError(`Invalid type "${options.type}". Use one of: ${HISTORY_ENTITIES.join(', ')}.`);
+          process.exit(1);
+        }
+
+        const entries = readHistory(appConfig.projectPath, {
+          id,
+          since,
+          feature: options.feature,
+          entity: options.type as HistoryEntry['entity'] | undefined,
+        });
+
+        // A single story reads oldest first; the feed shows the latest changes first
+        const limit = parseInt(options.limit, 10) || 50;
+        const shown = id ? entries : entries.slice(-limit).reverse();
+
+        if (options.json) {
+          console.log(JSON.stringify(shown, null, 2));
+          return;
+        }
+
+        displayHeader(id ? `History: ${id}` : 'History');
+        if (shown.length === 0) {
+          displayInfo(id ? `No recorded changes for "${id}".` : 'No recorded changes.');
+        } else {
+          // Story IDs can repeat across features, so show where each change happened
+          const features = new Set(entries.map((e) => e.feature));
+          displayHistory(shown, !id || features.size > 1);
+          if (!id && entries.length > shown.length) {
+            console.log();
+            displayInfo(`Showing the latest ${shown.length} of ${entries.length} changes.`);
+          }
+        }
+        console.log();
+      }
+    );
+}
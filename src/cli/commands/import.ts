@@ -0,0 +1,112 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import {
+  planImport,
+  applyImport,
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportPlan,
+} from '../../exchange/index.js';
+import {
+  displayHeader,
+  displaySubheader,
+  displayError,
+  displayWarning,
+  displaySuccess,
+  displayInfo,
+} from '../../ui/index.js';
+
+function displayImportPlan(plan: ImportPlan): void {
+  if (plan.features.length > 0) {
+    displaySubheader(`Features (${plan.features.length})`);
+    for (const feature of plan.features) {
+      console.log(`  ${chalk.cyan('+')} ${feature.id}: ${feature.title}`);
+    }
+  }
+
+  if (plan.stories.length > 0) {
+    displaySubheader(`Stories (${plan.stories.length})`);
+    for (const story of plan.stories) {
+      const details = [
+        story.feature || 'backlog',
+        story.status,
+        story.priority,
+        `${story.acceptanceCriteria.length} AC`,
+      ].join(' | ');
+      console.log(`  ${chalk.cyan('+')} ${story.id}: ${story.title} ${chalk.gray(`(${details})`)}`);
+    }
+  }
+
+  if (plan.errors.length > 0) {
+    displaySubheader(`Rejected rows (${plan.errors.length})`);
+    for (const error of plan.errors) {
+      console.log(chalk.red(`  Row ${error.row}${error.title ? ` - ${error.title}` : ''}`));
+      for (const issue of error.issues) {
+        console.log(chalk.gray(`    ${issue}`));
+      }
+    }
+  }
+}
+
+export function importCommand(program: Command): void {
+  program
+    .command('import <file>')
+    .description('Import stories and features from a CSV or Jira CSV export')
+    .option('--format <format>', `Input format (${IMPORT_FORMATS.join(', ')})`, 'csv')
+    .option('--dry-run', 'Preview what would be created without writing anything')
+    .action(async (file: string, options: { format: string; dryRun?: boolean }) => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      if (!(IMPORT_FORMATS as readonly string[]).includes(options.format)) {
+        displayError(`Invalid format "${options.format}". Use one of: ${IMPORT_FORMATS.join(', ')}.`);
+        process.exit(1);
+      }
+      const format = options.format as ImportFormat;
+
+      if (!fs.existsSync(file)) {
+        displayError(`File "${file}" not found.`);
+        process.exit(1);
+      }
+
+      displayHeader(options.dryRun ? `Import Preview: ${file}` : `Import: ${file}`);
+
+      // Columns renamed through the export mapping are read back the same way
+      const exportConfig = appConfig.projectConfig?.export;
+      const storage = new StorageManager(appConfig.projectPath);
+      const plan = await planImport(storage, fs.readFileSync(file, 'utf-8'), {
+        format,
+        columns: format === 'jira-csv' ? exportConfig?.jiraColumns : exportConfig?.csvColumns,
+      });
+
+      displayImportPlan(plan);
+      console.log();
+
+      if (plan.features.length === 0 && plan.stories.length === 0) {
+        displayInfo('Nothing to import.');
+      } else if (options.dryRun) {
+        displayInfo(
+          `Dry run: would create ${plan.features.length} features and ${plan.stories.length} stories.`
+        );
+      } else {
+        storage.setActor({ type: 'import', name: `${format}:${path.basename(file)}` });
+        await applyImport(storage, plan);
+        displaySuccess(
+          `Imported ${plan.features.length} features and ${plan.stories.length} stories.`
+        );
+      }
+
+      if (plan.errors.length > 0) {
+        displayWarning(`${plan.errors.length} rows failed validation and were skipped.`);
+      }
+
+      console.log();
+    });
+}
@@ -4,3 +4,16 @@ export { storyCommand } from './story.js';
 export { featureCommand } from './feature.js';
 export { searchCommand } from './search.js';
 export { configCommand } from './config.js';
+export { sessionsCommand } from './sessions.js';
+export { doctorCommand } from './doctor.js';
+export { personaCommand } from './persona.js';
+export { exportCommand } from './export.js';
+export { importCommand } from './import.js';
+export { gherkinCommand } from './gherkin.js';
+export { boardCommand } from './board.js';
+export { backlogCommand } from './backlog.js';
+export { sprintCommand } from './sprint.js';
+export { depsCommand } from './deps.js';
+export { lintCommand } from './lint.js';
+export { historyCommand } from './history.js';
+export { undoCommand } from './undo.js';
@@ -0,0 +1,150 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import {
+  LINT_RULES,
+  resolveLintRules,
+  lintStories,
+  type LintReport,
+  type ResolvedLintRule,
+} from '../../lint/index.js';
+import { displayHeader, displayError, displayWarning, displaySuccess } from '../../ui/index.js';
+
+const LINT_FORMATS = ['text', 'json'] as const;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function displayLintReport(report: LintReport): void {
+  let current = '';
+  for (const problem of report.problems) {
+    const location = `${problem.feature}/${problem.storyId}`;
+    if (location !== current) {
+      current = location;
+      console.log();
+      console.log(chalk.underline(location));
+    }
+    const severity =
+      problem.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+    console.log(`  ${severity}  ${problem.message}  ${chalk.gray(problem.rule)}`);
+  }
+
+  console.log();
+  const total = report.errorCount + report.warningCount;
+  if (total === 0) {
+    displaySuccess(
+      `No problems found in ${report.storyCount} ${report.storyCount === 1 ? 'story' : 'stories'}.`
+    );
+    return;
+  }
+
+  const affected = new Set(report.problems.map((p) => `${p.feature}/${p.storyId}`)).size;
+  const summary =
+    `${plural(total, 'problem')} (${plural(report.errorCount, 'error')}, ` +
+    `${plural(report.warningCount, 'warning')}) in ${affected} of ${report.storyCount} stories`;
+  console.log(report.errorCount > 0 ? chalk.red(`✗ ${summary}`) : chalk.yellow(`⚠ ${summary}`));
+}
+
+function displayLintRules(rules: ResolvedLintRule[]): void {
+  for (const rule of LINT_RULES) {
+    const active = rules.find((r) => r.rule.id === rule.id);
+    const severity = !active
+      ? chalk.gray('off    ')
+      : active.severity === 'error'
+        ? chalk.red('error  ')
+        : chalk.yellow('warning');
+    const options = active ? JSON.stringify(active.options) : '';
+    console.log(`  ${severity}  ${chalk.bold(rule.id)}  ${chalk.gray(rule.description)}`);
+    if (options && options !== '{}') {
+      console.log(chalk.gray(`             ${options}`));
+    }
+  }
+}
+
+export function lintCommand(program: Command): void {
+  program
+    .command('lint')
+    .description('Check stories against quality rules, without AI')
+    .option('-f, --feature <feature>', 'Only lint stories in this feature')
+    .option('--format <format>', `Output format: ${LINT_FORMATS.join(', ')}`, 'text')
+    .option('--max-warnings <count>', 'Also fail when there are more warnings than this')
+    .option('--rules', 'List the rules and how they are configured')
+    .addHelpText(
+      'after',
+      `
+Rules are configured under "lint" in one-p.yaml with a severity (error,
+warning or off) or an object of options:
+
+  lint:
+    rules:
+      title-length: off
+      min-acceptance-criteria: { severity: error, min: 3 }
+      vague-criteria: { words: [fast, easy, intuitive] }
+
+The command exits with code 1 when there are errors, so it can gate commits.`
+    )
+    .action(
+      async (options: { feature?: string; format: string; maxWarnings?: string; rules?: boolean }) => {
+        const appConfig = loadAppConfig();
+        if (!appConfig.projectPath) {
+          displayWarning('No one-p project found. Run "one-p init" first.');
+          process.exit(1);
+        }
+
+        if (!(LINT_FORMATS as readonly string[]).includes(options.format)) {
+          displayError(`Invalid format "${options.format}". Use one of: ${LINT_FORMATS.join(', ')}.`);
+          process.exit(1);
+        }
+
+        const maxWarnings = options.maxWarnings !== undefined ? Number(options.maxWarnings) : undefined;
+        if (maxWarnings !== undefined && !(Number.isInteger(maxWarnings) && maxWarnings >= 0)) {
+          displayError(`Invalid --max-warnings "${options.maxWarnings}". Use a whole number.`);
+          process.exit(1);
+        }
+
+        let rules: ResolvedLintRule[];
+        try {
+          rules = resolveLintRules(appConfig.projectConfig?.lint);
+        } catch (error) {
+          displayError(error instanceof Error ? error.message : 'Unknown error');
+          process.exit(1);
+        }
+
+        if (options.rules) {
+          displayHeader('Lint Rules');
+          displayLintRules(rules);
+          console.log();
+          return;
+        }
+
+        const storage = new StorageManager(appConfig.projectPath);
+        if (
+          options.feature &&
+          options.feature !== 'backlog' &&
+          !(await storage.getFeature(options.feature))
+        ) {
+          displayError(`Feature "${options.feature}" not found.`);
+          process.exit(1);
+        }
+
+        const stories = await storage.listStories(options.feature);
+        const report = lintStories(stories, rules, storage.getInvalidFiles());
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          displayLintReport(report);
+        }
+
+        const tooManyWarnings = maxWarnings !== undefined && report.warningCount > maxWarnings;
+        if (options.format === 'text' && tooManyWarnings) {
+          console.log(chalk.yellow(`Only ${plural(maxWarnings as number, 'warning')} allowed.`));
+        }
+        if (report.errorCount > 0 || tooManyWarnings) {
+          process.exit(1);
+        }
+      }
+    );
+}
@@ -0,0 +1,185 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { toSlug } from '../../storage/index.js';
+import type { Persona } from '../../models/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displaySuccess,
+  displayPersona,
+  askQuestion,
+  askConfirm,
+} from '../../ui/index.js';
+import { getStorageOrExit } from '../helpers.js';
+
+// Same rule as IDs the AI tools create
+const PERSONA_ID = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// List fields are entered on one line, separated by semicolons
+function splitList(input: string): string[] {
+  return input
+    .split(';')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+async function askPersonaDetails(existing?: Persona): Promise<Omit<Persona, 'id'>> {
+  const name = (await askQuestion('Name (used in "As a ..."):', existing?.name)).trim();
+  const description = (await askQuestion('Description:', existing?.description)).trim();
+  const goals = await askQuestion('Goals (separate with ;):', existing?.goals.join('; '));
+  const painPoints = await askQuestion(
+    'Pain points (separate with ;):',
+    existing?.painPoints.join('; ')
+  );
+  const behaviors = await askQuestion(
+    'Behaviors (separate with ;):',
+    existing?.behaviors.join('; ')
+  );
+
+  return {
+    name,
+    description,
+    goals: splitList(goals),
+    painPoints: splitList(painPoints),
+    behaviors: splitList(behaviors),
+  };
+}
+
+export function personaCommand(program: Command): void {
+  const persona = program.command('persona').description('Manage user personas');
+
+  // persona new
+  persona
+    .command('new')
+    .description('Create a new persona')
+    .action(async () => {
+      const storage = getStorageOrExit();
+
+      displayHeader('Create New Persona');
+
+      const details = await askPersonaDetails();
+      if (!details.name) {
+        displayError('A persona needs a name.');
+        process.exit(1);
+      }
+
+      // Names without latin letters or digits give no slug, so ask for the ID
+      const id = toSlug(details.name) || (await askQuestion('ID (letters, digits, "-" and "_"):')).trim();
+      if (!PERSONA_ID.test(id)) {
+        displayError(`Invalid persona ID "${id}". Use letters, digits, "-" and "_" only.`);
+        process.exit(1);
+      }
+
+      if (await storage.getPersona(id)) {
+        displayError(`Persona "${id}" already exists. Use "one-p persona edit ${id}" instead.`);
+        process.exit(1);
+      }
+
+      await storage.createPersona({ id, ...details });
+      displaySuccess(`Persona "${details.name}" created (ID: ${id}).`);
+    });
+
+  // persona list
+  persona
+    .command('list')
+    .description('List all personas')
+    .action(async () => {
+      const storage = getStorageOrExit();
+
+      displayHeader('Personas');
+
+      const personas = await storage.listPersonas();
+
+      if (personas.length === 0) {
+        displayInfo('No personas found.');
+        console.log(chalk.gray('Create one with: one-p persona new'));
+      } else {
+        for (const p of personas) {
+          displayPersona(p);
+        }
+      }
+
+      console.log();
+    });
+
+  // persona show <id>
+  persona
+    .command('show <id>')
+    .description('Show details of a persona')
+    .action(async (id: string) => {
+      const storage = getStorageOrExit();
+      const found = await storage.getPersona(id);
+
+      if (!found) {
+        displayError(`Persona "${id}" not found.`);
+        process.exit(1);
+      }
+
+      displayHeader(`Persona: ${found.name}`);
+      displayPersona(found, true);
+
+      const stories = (await storage.listStories()).filter((s) => s.persona === id);
+      if (stories.length > 0) {
+        console.log();
+        console.log(chalk.bold('Stories:'));
+        for (const story of stories) {
+          console.log(chalk.gray(`  - [${story.status}] ${story.id}: ${story.title}`));
+        }
+      }
+
+      console.log();
+    });
+
+  // persona edit <id>
+  persona
+    .command('edit <id>')
+    .description('Edit a persona')
+    .action(async (id: string) => {
+      const storage = getStorageOrExit();
+      const found = await storage.getPersona(id);
+
+      if (!found) {
+        displayError(`Persona "${id}" not found.`);
+        process.exit(1);
+      }
+
+      displayHeader(`Edit Persona: ${found.name}`);
+
+      const details = await askPersonaDetails(found);
+      await storage.updatePersona({ ...found, ...details, name: details.name || found.name });
+      displaySuccess(`Persona "${id}" updated.`);
+    });
+
+  // persona delete <id>
+  persona
+    .command('delete <id>')
+    .description('Delete a persona')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (id: string, options: { yes?: boolean }) => {
+      const storage = getStorageOrExit();
+      const found = await storage.getPersona(id);
+
+      if (!found) {
+        displayError(`Persona "${id}" not found.`);
+        process.exit(1);
+      }
+
+      // Their persona link is cleared along with the persona
+      const stories = (await storage.listStories()).filter((s) => s.persona === id);
+      if (stories.length > 0) {
+        displayWarning(
+          `${stories.length} ${stories.length === 1 ? 'story refers' : 'stories refer'} to this persona and will be unlinked: ${stories.map((s) => s.id).join(', ')}`
+        );
+      }
+
+      if (!options.yes && !(await askConfirm(`Delete persona "${found.name}"?`, false))) {
+        console.log(chalk.gray('Cancelled.'));
+        return;
+      }
+
+      await storage.deletePersona(id);
+      displaySuccess(`Persona "${id}" deleted.`);
+    });
+}
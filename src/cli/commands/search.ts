@@ -2,30 +2,101 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { loadAppConfig } from '../../config/index.js';
 import { StorageManager } from '../../storage/index.js';
-import { displayHeader, displayWarning, displayInfo, displayStoryList } from '../../ui/index.js';
+import type { Story, Feature } from '../../models/index.js';
+import {
+  parseSearchQuery,
+  matchesFilters,
+  type SearchQuery,
+  type SearchResult,
+} from '../../search/index.js';
+import {
+  displayHeader,
+  displayWarning,
+  displayError,
+  displayInfo,
+  displaySearchResults,
+  startSpinner,
+  clearSpinner,
+  displayInvalidFiles,
+} from '../../ui/index.js';
 
 export function searchCommand(program: Command): void {
   program
-    .command('search <query>')
-    .description('Search across all stories')
-    .action(async (query: string) => {
+    .command('search <query...>')
+    .description('Search stories and features, ranked by relevance')
+    .option('-n, --limit <count>', 'Maximum number of stories to show', '20')
+    .option('--semantic', 'Match by meaning with the offline semantic index instead of keywords')
+    .addHelpText(
+      'after',
+      `
+Query syntax:
+  word              all words must match (typos and prefixes are tolerated)
+  "exact phrase"    the phrase must appear as written
+  -word, -"phrase"  exclude matches
+  status:ready      filter by status, priority, tag, feature, type or persona
+  tag:auth,login    comma-separated values match any of them
+  -status:done      exclude by filter
+
+With --semantic, the words are matched by meaning: phrasings listed under
+search.synonyms in one-p.yaml count as the same word ("sign in" finds "login"),
+and filters still apply.
+
+Example:
+  one-p search 'status:ready priority:high tag:auth "password reset" -sso'`
+    )
+    .action(async (words: string[], options: { limit: string; semantic?: boolean }) => {
       const appConfig = loadAppConfig();
       if (!appConfig.projectPath) {
         displayWarning('No one-p project found. Run "one-p init" first.');
         process.exit(1);
       }
 
-      displayHeader(`Search: "${query}"`);
+      const query = words.join(' ');
+      let parsed: SearchQuery;
+      try {
+        parsed = parseSearchQuery(query);
+      } catch (error) {
+        displayError(error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+      }
+
+      displayHeader(`Search: ${query}`);
 
       const storage = new StorageManager(appConfig.projectPath);
-      const stories = await storage.searchStories(query);
+      const limit = parseInt(options.limit, 10) || 20;
+      let stories: Array<SearchResult<Story>>;
+      let features: Array<SearchResult<Feature>>;
+
+      if (options.semantic) {
+        const text = [...parsed.terms, ...parsed.phrases].join(' ');
+        if (!text) {
+          displayError('Semantic search needs some words to match.');
+          process.exit(1);
+        }
+        startSpinner('Searching semantic index...');
+        const results = await storage.semanticSearchItems(text, { limit: Infinity });
+        clearSpinner();
+        stories = results.stories.filter((r) => matchesFilters(r.item, parsed.filters));
+        features = results.features.filter((r) => matchesFilters(r.item, parsed.filters));
+      } else {
+        stories = await storage.searchStories(parsed);
+        features = await storage.searchFeatures(parsed);
+      }
 
-      if (stories.length === 0) {
-        displayInfo(`No stories found matching "${query}".`);
+      if (stories.length === 0 && features.length === 0) {
+        displayInfo(`No stories or features found matching ${query}.`);
       } else {
-        console.log(chalk.gray(`Found ${stories.length} matching stories:`));
-        displayStoryList(stories);
+        console.log(
+          chalk.gray(
+            `Found ${stories.length} matching stories` +
+              (features.length > 0 ? ` and ${features.length} features` : '') +
+              (stories.length > limit ? `, showing the top ${limit}` : '') +
+              ':'
+          )
+        );
+        displaySearchResults(stories.slice(0, limit), features);
       }
+      displayInvalidFiles(storage.getInvalidFiles());
 
       console.log();
     });
@@ -0,0 +1,107 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import type { Session } from '../../models/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displaySuccess,
+  displaySession,
+  displaySessionList,
+  askConfirm,
+} from '../../ui/index.js';
+
+export function sessionsCommand(program: Command): void {
+  const sessions = program.command('sessions').description('Manage saved chat sessions');
+
+  // sessions list
+  sessions
+    .command('list')
+    .description('List saved sessions, most recent first')
+    .action(async () => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      displayHeader('Sessions');
+
+      const storage = new StorageManager(appConfig.projectPath);
+      const saved = await storage.listSessions();
+
+      if (saved.length === 0) {
+        displayInfo('No sessions found.');
+        console.log(chalk.gray('Start one with: one-p chat'));
+      } else {
+        displaySessionList(saved);
+        console.log();
+        console.log(chalk.gray('Resume one with: one-p chat --resume <id>'));
+      }
+
+      console.log();
+    });
+
+  // sessions show <id>
+  sessions
+    .command('show <id>')
+    .description('Show the transcript of a saved session')
+    .action(async (id: string) => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      const storage = new StorageManager(appConfig.projectPath);
+      let session: Session | null;
+      try {
+        session = await storage.getSession(id);
+      } catch (error) {
+        displayError(error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+      }
+
+      if (!session) {
+        displayError(`Session "${id}" not found.`);
+        process.exit(1);
+      }
+
+      displayHeader(`Session: ${session.title || session.id}`);
+      console.log(chalk.gray(`ID: ${session.id} | Kind: ${session.kind}`));
+      console.log(chalk.gray(`Started: ${new Date(session.createdAt).toLocaleString()}`));
+      displaySession(session);
+      console.log();
+    });
+
+  // sessions delete <id>
+  sessions
+    .command('delete <id>')
+    .description('Delete a saved session')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (id: string, options: { yes?: boolean }) => {
+      const appConfig = loadAppConfig();
+      if (!appConfig.projectPath) {
+        displayWarning('No one-p project found. Run "one-p init" first.');
+        process.exit(1);
+      }
+
+      const storage = new StorageManager(appConfig.projectPath);
+
+      if (!options.yes && !(await askConfirm(`Delete session "${id}"?`, false))) {
+        console.log(chalk.gray('Cancelled.'));
+        return;
+      }
+
+      const deleted = await storage.deleteSession(id);
+      if (!deleted) {
+        displayError(`Session "${id}" not found.`);
+        process.exit(1);
+      }
+
+      displaySuccess(`Session "${id}" deleted.`);
+    });
+}
@@ -0,0 +1,324 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { StorageManager, toSlug } from '../../storage/index.js';
+import { SprintSchema, type Sprint, type Story } from '../../models/index.js';
+import {
+  planSprint,
+  sumStoryPoints,
+  averageVelocity,
+  nextSprintName,
+  sprintStoryRef,
+  resolveSprintStories,
+} from '../../backlog/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displaySuccess,
+  displaySprint,
+  displaySprintList,
+  askConfirm,
+} from '../../ui/index.js';
+import { getStorageOrExit } from '../helpers.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateOrExit(value: string, option: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    displayError(`Invalid ${option} date "${value}". Use YYYY-MM-DD.`);
+    process.exit(1);
+  }
+  return date;
+}
+
+function parsePointsOrExit(value: string, option: string): number {
+  const points = Number(value);
+  if (!Number.isFinite(points) || points < 0) {
+    displayError(`Invalid ${option} "${value}". Use a number of story points.`);
+    process.exit(1);
+  }
+  return points;
+}
+
+// The sprint named on the command line, or the earliest open one
+async function getSprintOrExit(storage: StorageManager, id: string | undefined): Promise<Sprint> {
+  if (id) {
+    let sprint: Sprint | null;
+    try {
+      sprint = await storage.getSprint(id);
+    } catch (error) {
+      displayError((error as Error).message);
+      process.exit(1);
+    }
+    if (!sprint) {
+      displayError(`Sprint "${id}" not found.`);
+      process.exit(1);
+    }
+    return sprint;
+  }
+
+  const open = (await storage.listSprints()).find((s) => s.status === 'open');
+  if (!open) {
+    displayError('No open sprint. Create one with "one-p sprint new".');
+    process.exit(1);
+  }
+  return open;
+}
+
+function uniqueSprintId(name: string, existing: Sprint[]): string {
+  const base = toSlug(name) || 'sprint';
+  let id = base;
+  for (let n = 2; existing.some((s) => s.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+// The sprint's stories, and the entries whose story was deleted or moved away
+async function sprintStories(
+  storage: StorageManager,
+  sprint: Sprint
+): Promise<{ stories: Story[]; missing: string[] }> {
+  return resolveSprintStories(sprint.stories, await storage.listStories());
+}
+
+export function sprintCommand(program: Command): void {
+  const sprint = program.command('sprint').description('Plan and track sprints');
+
+  // sprint new <name>
+  sprint
+    .command('new <name>')
+    .description('Create a sprint')
+    .requiredOption('-c, --capacity <points>', 'Capacity in story points')
+    .option('-s, --start <date>', 'Start date (YYYY-MM-DD), defaults to today')
+    .option('-e, --end <date>', 'End date (YYYY-MM-DD)')
+    .option('-l, --length <days>', 'Length in days when no end date is given', '14')
+    .option('-g, --goal <goal>', 'Sprint goal')
+    .action(
+      async (
+        name: string,
+        options: { capacity: string; start?: string; end?: string; length: string; goal?: string }
+      ) => {
+        const storage = getStorageOrExit();
+        const capacity = parsePointsOrExit(options.capacity, 'capacity');
+        const start = options.start ? parseDateOrExit(options.start, 'start') : new Date();
+        let end: Date;
+        if (options.end) {
+          end = parseDateOrExit(options.end, 'end');
+        } else {
+          const length = parseInt(options.length, 10);
+          if (!(length > 0)) {
+            displayError(`Invalid length "${options.length}". Use a number of days.`);
+            process.exit(1);
+          }
+          end = new Date(start.getTime() + (length - 1) * DAY);
+        }
+        if (end < start) {
+          displayError('The sprint cannot end before it starts.');
+          process.exit(1);
+        }
+
+        const existing = await storage.listSprints();
+        const created = SprintSchema.parse({
+          id: uniqueSprintId(name, existing),
+          name,
+          goal: options.goal,
+          startDate: formatDate(start),
+          endDate: formatDate(end),
+          capacity,
+        });
+        await storage.saveSprint(created);
+
+        displaySuccess(`Sprint "${created.id}" created: ${created.startDate} → ${created.endDate}, ${capacity} points.`);
+        console.log(chalk.gray(`Fill it with "one-p sprint plan ${created.id}".`));
+      }
+    );
+
+  // sprint list
+  sprint
+    .command('list')
+    .description('List sprints')
+    .action(async () => {
+      const storage = getStorageOrExit();
+      displayHeader('Sprints');
+      displaySprintList(await storage.listSprints());
+      console.log();
+    });
+
+  // sprint show [id]
+  sprint
+    .command('show [id]')
+    .description('Show a sprint, the current open one by default')
+    .action(async (id: string | undefined) => {
+      const storage = getStorageOrExit();
+      const current = await getSprintOrExit(storage, id);
+      const { stories, missing } = await sprintStories(storage, current);
+      displaySprint(current, stories, missing);
+      console.log();
+    });
+
+  // sprint plan [id]
+  sprint
+    .command('plan [id]')
+    .description('Fill a sprint from the ranked ready stories that fit its capacity')
+    .option('-c, --capacity <points>', 'Plan against this capacity instead of the sprint\'s')
+    .option('--dry-run', 'Show the suggested scope without saving it')
+    .option('-y, --yes', 'Save without asking')
+    .action(
+      async (id: string | undefined, options: { capacity?: string; dryRun?: boolean; yes?: boolean }) => {
+        const storage = getStorageOrExit();
+        const current = await getSprintOrExit(storage, id);
+        if (current.status === 'closed') {
+          displayError(`Sprint "${current.id}" is closed.`);
+          process.exit(1);
+        }
+
+        const capacity =
+          options.capacity !== undefined
+            ? parsePointsOrExit(options.capacity, 'capacity')
+            : current.capacity;
+
+        const sprints = await storage.listSprints();
+        const stories = await storage.listStories();
+        // Stories committed to other open sprints are not available
+        const unavailable = new Set(
+          resolveSprintStories(
+            sprints.filter((s) => s.status === 'open' && s.id !== current.id).flatMap((s) => s.stories),
+            stories
+          ).stories.map(sprintStoryRef)
+        );
+        const committed = resolveSprintStories(current.stories, stories).stories;
+        const plan = planSprint(stories, capacity, { committed, unavailable });
+
+        displayHeader(`Plan: ${current.name}`);
+
+        const velocity = averageVelocity(sprints);
+        if (velocity !== undefined) {
+          console.log(chalk.gray(`Average velocity of recent sprints: ${velocity} points.`));
+          if (velocity < capacity) {
+            displayWarning(`Capacity ${capacity} is above recent velocity.`);
+          }
+        }
+
+        if (committed.length > 0) {
+          console.log(chalk.gray(`Already planned: ${committed.length} stories, ${sumStoryPoints(committed)} points.`));
+        }
+
+        if (plan.selected.length === 0) {
+          displayInfo('No more ready stories fit this sprint.');
+        } else {
+          console.log();
+          console.log(chalk.cyan(`Suggested (${plan.points} of ${capacity} points):`));
+          for (const story of plan.selected) {
+            console.log(`  + ${story.id}: ${story.title} ${chalk.gray(`(${story.estimate})`)}`);
+          }
+        }
+
+        if (plan.skipped.length > 0) {
+          console.log();
+          console.log(chalk.gray('Left out:'));
+          for (const { story, reason } of plan.skipped) {
+            console.log(chalk.gray(`  - ${story.id}: ${reason}`));
+          }
+        }
+        console.log();
+
+        if (plan.selected.length === 0) return;
+        if (options.dryRun) {
+          displayInfo('Dry run: nothing was saved.');
+          return;
+        }
+        if (!options.yes && !(await askConfirm(`Add ${plan.selected.length} stories to ${current.name}?`))) {
+          displayInfo('Sprint left unchanged.');
+          return;
+        }
+
+        current.stories = [...current.stories, ...plan.selected.map(sprintStoryRef)];
+        await storage.saveSprint(current);
+        displaySuccess(`${current.name} now has ${current.stories.length} stories, ${plan.points} points.`);
+      }
+    );
+
+  // sprint close [id]
+  sprint
+    .command('close [id]')
+    .description('Close a sprint, record its velocity and carry unfinished stories over')
+    .option('-n, --next <id>', 'Sprint to carry unfinished stories into')
+    .action(async (id: string | undefined, options: { next?: string }) => {
+      const storage = getStorageOrExit();
+      const current = await getSprintOrExit(storage, id);
+      if (current.status === 'closed') {
+        displayError(`Sprint "${current.id}" is already closed.`);
+        process.exit(1);
+      }
+
+      const all = await storage.listStories();
+      const { stories, missing } = resolveSprintStories(current.stories, all);
+      const finished = stories.filter((s) => s.status === 'done');
+      const unfinished = stories.filter((s) => s.status !== 'done');
+
+      let next: Sprint | undefined;
+      if (unfinished.length > 0) {
+        const sprints = await storage.listSprints();
+        if (options.next) {
+          next = sprints.find((s) => s.id === options.next);
+          if (!next || next.status === 'closed' || next.id === current.id) {
+            displayError(`Sprint "${options.next}" is not an open sprint to carry stories into.`);
+            process.exit(1);
+          }
+        } else {
+          next = sprints.find(
+            (s) => s.status === 'open' && s.id !== current.id && s.startDate >= current.startDate
+          );
+        }
+
+        if (!next) {
+          // Follow straight on with the same length and capacity
+          const start = new Date(`${current.endDate}T00:00:00Z`).getTime() + DAY;
+          const length = new Date(`${current.endDate}T00:00:00Z`).getTime() -
+            new Date(`${current.startDate}T00:00:00Z`).getTime();
+          const name = nextSprintName(current.name);
+          next = SprintSchema.parse({
+            id: uniqueSprintId(name, sprints),
+            name,
+            startDate: formatDate(new Date(start)),
+            endDate: formatDate(new Date(start + length)),
+            capacity: current.capacity,
+          });
+        }
+
+        const planned = resolveSprintStories(next.stories, all).stories;
+        const carried = unfinished.filter((s) => !planned.includes(s)).map(sprintStoryRef);
+        next.stories = [...carried, ...next.stories];
+        await storage.saveSprint(next);
+      }
+
+      current.status = 'closed';
+      current.closedAt = new Date().toISOString();
+      current.committedPoints = sumStoryPoints(stories);
+      current.velocity = sumStoryPoints(finished);
+      current.carriedOver = unfinished.map(sprintStoryRef);
+      current.stories = finished.map(sprintStoryRef);
+      await storage.saveSprint(current);
+
+      if (missing.length > 0) {
+        displayWarning(`Committed stories no longer found, left out of the velocity: ${missing.join(', ')}`);
+      }
+      displaySuccess(
+        `${current.name} closed: ${finished.length} stories done, velocity ${current.velocity} of ${current.committedPoints} points.`
+      );
+      if (next) {
+        displayInfo(`${unfinished.length} unfinished stories moved to ${next.name} (${next.id}).`);
+      }
+      const velocity = averageVelocity(await storage.listSprints());
+      if (velocity !== undefined) {
+        console.log(chalk.gray(`Average velocity of recent sprints: ${velocity} points.`));
+      }
+    });
+}
@@ -1,39 +1,48 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { loadAppConfig, settingsExist, getApiKey } from '../../config/index.js';
-import { runInitialSetup } from '../../config/setup.js';
+import { loadAppConfig } from '../../config/index.js';
 import { StorageManager } from '../../storage/index.js';
-import { ConversationManager } from '../../ai/index.js';
+import {
+  ConversationManager,
+  reviewStory,
+  classifyStoryRelationships,
+  estimateStory,
+  selectReferenceStories,
+  type StoryEstimate,
+} from '../../ai/index.js';
+import { clusterSimilarStories, DEFAULT_SIMILARITY_THRESHOLD } from '../../search/index.js';
+import { sortByRank } from '../../backlog/index.js';
+import { resolveWorkflow, changeStoryStatus } from '../../workflow/index.js';
+import {
+  StoryStatus,
+  Priority,
+  type Story,
+  type StoryReview,
+  type WorkflowConfig,
+} from '../../models/index.js';
 import {
   displayHeader,
   displayError,
   displayWarning,
   displayInfo,
+  displaySuccess,
   displayStory,
   displayStoryList,
+  displayAIStreamChunk,
+  displayInvestAnalysis,
+  displayReviewHistory,
+  displayDuplicateFindings,
+  displayStoryEstimate,
+  displayGateFailures,
+  startSpinner,
+  stopSpinner,
+  clearSpinner,
+  updateSpinner,
+  askConfirm,
+  askMultiSelect,
+  displayInvalidFiles,
 } from '../../ui/index.js';
-
-async function ensureApiKey(): Promise<boolean> {
-  if (!settingsExist()) {
-    console.log(chalk.cyan('First time setup required.'));
-    console.log();
-    const settings = await runInitialSetup();
-    if (!settings) {
-      displayError('Setup cancelled.');
-      return false;
-    }
-    console.log();
-  }
-
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    displayError('No API key configured.');
-    console.log('Run "one-p config" to set up your API key.');
-    return false;
-  }
-
-  return true;
-}
+import { ensureApiKey, getStorageOrExit, findStoryOrExit } from '../helpers.js';
 
 export function storyCommand(program: Command): void {
   const story = program.command('story').description('Manage user stories');
@@ -42,7 +51,8 @@ export function storyCommand(program: Command): void {
   story
     .command('new')
     .description('Create a new user story with AI guidance')
-    .action(async () => {
+    .option('--dry-run', 'Show the changes the AI would make without saving anything')
+    .action(async (options: { dryRun?: boolean }) => {
       if (!(await ensureApiKey())) {
         process.exit(1);
       }
@@ -54,8 +64,16 @@ export function storyCommand(program: Command): void {
       }
 
       displayHeader('Create New Story');
+      if (options.dryRun) {
+        console.log(chalk.yellow('Dry run: changes are shown but nothing is saved.'));
+        console.log();
+      }
 
-      const conversationManager = new ConversationManager(appConfig.projectPath);
+      const conversationManager = new ConversationManager(appConfig.projectPath, {
+        callbacks: { onText: displayAIStreamChunk },
+        sessionKind: 'story',
+        dryRun: options.dryRun,
+      });
 
       console.log(
         chalk.cyan("I'll help you write a user story. Let's start by understanding what you need.")
@@ -118,7 +136,7 @@ export function storyCommand(program: Command): void {
       displayHeader('Stories');
 
       const storage = new StorageManager(appConfig.projectPath);
-      let stories = await storage.listStories(options.feature);
+      let stories = sortByRank(await storage.listStories(options.feature));
 
       if (options.status) {
         stories = stories.filter((s) => s.status === options.status);
@@ -130,6 +148,7 @@ export function storyCommand(program: Command): void {
       } else {
         displayStoryList(stories);
       }
+      displayInvalidFiles(storage.getInvalidFiles());
 
       console.log();
     });
@@ -138,7 +157,7 @@ export function storyCommand(program: Command): void {
   story
     .command('show <id>')
     .description('Show details of a specific story')
-    .option('-f, --feature <feature>', 'Feature containing the story (default: backlog)')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
     .action(async (id: string, options: { feature?: string }) => {
       const appConfig = loadAppConfig();
       if (!appConfig.projectPath) {
@@ -147,13 +166,7 @@ export function storyCommand(program: Command): void {
       }
 
       const storage = new StorageManager(appConfig.projectPath);
-      const featureId = options.feature || 'backlog';
-      const storyData = await storage.getStory(featureId, id);
-
-      if (!storyData) {
-        displayError(`Story "${id}" not found in feature "${featureId}".`);
-        process.exit(1);
-      }
+      const storyData = await findStoryOrExit(storage, id, options.feature);
 
       displayHeader(`Story: ${storyData.title}`);
       displayStory(storyData, true);
@@ -164,27 +177,394 @@ export function storyCommand(program: Command): void {
   story
     .command('review <id>')
     .description('AI review of story quality (INVEST criteria)')
-    .option('-f, --feature <feature>', 'Feature containing the story (default: backlog)')
-    .action(async (id: string, options: { feature?: string }) => {
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .option('--history', 'Show past reviews without running a new one')
+    .action(async (id: string, options: { feature?: string; history?: boolean }) => {
+      const storage = getStorageOrExit();
+      const storyData = await findStoryOrExit(storage, id, options.feature);
+
+      if (options.history) {
+        displayHeader(`Reviews: ${storyData.title}`);
+        if (storyData.reviews.length === 0) {
+          displayInfo('This story has not been reviewed yet.');
+          console.log(chalk.gray(`Review it with: one-p story review ${id}`));
+        } else {
+          displayInvestAnalysis(storyData.reviews[storyData.reviews.length - 1].analysis);
+          displayReviewHistory(storyData.reviews);
+        }
+        console.log();
+        return;
+      }
+
       if (!(await ensureApiKey())) {
         process.exit(1);
       }
 
-      const appConfig = loadAppConfig();
-      if (!appConfig.projectPath) {
-        displayWarning('No one-p project found. Run "one-p init" first.');
+      displayHeader(`Reviewing Story: ${id}`);
+
+      startSpinner('Reviewing story against INVEST...');
+      let review: StoryReview;
+      try {
+        review = await reviewStory(storyData);
+        clearSpinner();
+      } catch (error) {
+        stopSpinner(false, 'Review failed');
+        displayError(error instanceof Error ? error.message : 'Unknown error');
         process.exit(1);
       }
 
-      displayHeader(`Reviewing Story: ${id}`);
+      storyData.reviews.push(review);
+      await storage.updateStory(storyData);
 
-      const conversationManager = new ConversationManager(appConfig.projectPath);
-      const featureId = options.feature || 'backlog';
+      displayInvestAnalysis(review.analysis);
+      if (storyData.reviews.length > 1) {
+        displayReviewHistory(storyData.reviews);
+      }
+      console.log();
+    });
 
-      await conversationManager.chat(
-        `Please analyze the story with ID "${id}" in feature "${featureId}" against the INVEST criteria and provide improvement suggestions.`
-      );
+  // story estimate [id]
+  story
+    .command('estimate [id]')
+    .description('AI estimate in points or t-shirt size, compared with finished stories')
+    .option('-f, --feature <feature>', 'Feature containing the story, or the feature to estimate in bulk')
+    .option('--bulk', 'Estimate every unestimated open story in the feature')
+    .option('-y, --yes', 'Save without asking')
+    .action(
+      async (id: string | undefined, options: { feature?: string; bulk?: boolean; yes?: boolean }) => {
+        if (options.bulk ? id !== undefined || !options.feature : id === undefined) {
+          displayError('Give a story ID, or --bulk with --feature <feature>.');
+          process.exit(1);
+        }
+
+        const storage = getStorageOrExit();
+        const allStories = await storage.listStories();
+
+        let targets: Story[];
+        if (options.bulk) {
+          const feature = options.feature as string;
+          if (feature !== 'backlog' && !(await storage.getFeature(feature))) {
+            displayError(`Feature "${feature}" not found.`);
+            process.exit(1);
+          }
+          targets = sortByRank(
+            allStories.filter(
+              (s) => (s.feature || 'backlog') === feature && !s.estimate && s.status !== 'done'
+            )
+          );
+          if (targets.length === 0) {
+            displaySuccess(`Every open story in "${feature}" already has an estimate.`);
+            return;
+          }
+        } else {
+          targets = [await findStoryOrExit(storage, id as string, options.feature)];
+        }
+
+        if (!(await ensureApiKey())) {
+          process.exit(1);
+        }
+
+        displayHeader(options.bulk ? `Estimating ${options.feature}` : `Estimating Story: ${id}`);
+
+        const referenceCount = allStories.filter((s) => s.status === 'done' && s.estimate).length;
+        if (referenceCount === 0) {
+          displayWarning('No finished stories have estimates yet, so confidence will be low.');
+        }
+
+        const estimates = new Map<string, StoryEstimate>();
+        startSpinner('Comparing with finished stories...');
+        for (const [i, target] of targets.entries()) {
+          if (targets.length > 1) {
+            updateSpinner(`Estimating ${target.id} (${i + 1}/${targets.length})...`);
+          }
+          try {
+            estimates.set(target.id, await estimateStory(target, selectReferenceStories(target, allStories)));
+          } catch (error) {
+            stopSpinner(false, `Could not estimate ${target.id}`);
+            displayError(error instanceof Error ? error.message : 'Unknown error');
+            if (!options.bulk) {
+              process.exit(1);
+            }
+            startSpinner('Comparing with finished stories...');
+          }
+        }
+        clearSpinner();
+
+        const estimated = targets.filter((t) => estimates.has(t.id));
+        console.log();
+        for (const target of estimated) {
+          displayStoryEstimate(target, estimates.get(target.id) as StoryEstimate, target.estimate);
+        }
+        console.log();
+        if (estimated.length === 0) {
+          process.exit(1);
+        }
+
+        let selected = estimated.map((t) => t.id);
+        if (!options.yes) {
+          if (estimated.length === 1) {
+            if (!(await askConfirm(`Save estimate ${estimates.get(selected[0])?.estimate}?`))) {
+              displayInfo('Estimate not saved.');
+              return;
+            }
+          } else {
+            selected = await askMultiSelect(
+              'Estimates to save:',
+              estimated.map((t) => ({
+                label: `${t.id}: ${estimates.get(t.id)?.estimate}`,
+                value: t.id,
+                description: `${estimates.get(t.id)?.confidence} confidence`,
+              })),
+              selected
+            );
+          }
+        }
+
+        for (const target of estimated.filter((t) => selected.includes(t.id))) {
+          target.estimate = estimates.get(target.id)?.estimate;
+          await storage.updateStory(target);
+        }
+        displaySuccess(
+          selected.length === 1 ? 'Estimate saved.' : `${selected.length} estimates saved.`
+        );
+      }
+    );
+
+  // story dedupe
+  story
+    .command('dedupe')
+    .description('Find clusters of duplicate, overlapping or conflicting stories')
+    .option('-f, --feature <feature>', 'Only scan one feature')
+    .option(
+      '-t, --threshold <score>',
+      `Similarity needed to group stories, 0-1 (default ${DEFAULT_SIMILARITY_THRESHOLD})`
+    )
+    .option('--local', 'Only use local similarity, without asking the AI')
+    .action(async (options: { feature?: string; threshold?: string; local?: boolean }) => {
+      const threshold = options.threshold ? parseFloat(options.threshold) : undefined;
+      if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+        displayError(`Invalid threshold "${options.threshold}". Use a number between 0 and 1.`);
+        process.exit(1);
+      }
+
+      const storage = getStorageOrExit();
+      if (!options.local && !(await ensureApiKey())) {
+        process.exit(1);
+      }
+
+      displayHeader('Duplicate Check');
+
+      const stories = await storage.listStories(options.feature);
+      const clusters = clusterSimilarStories(stories, threshold);
+
+      if (clusters.length === 0) {
+        displaySuccess(`No similar stories found among ${stories.length} stories.`);
+        console.log();
+        return;
+      }
+
+      for (const [i, cluster] of clusters.entries()) {
+        console.log();
+        console.log(
+          chalk.bold(`Cluster ${i + 1}`) +
+            chalk.gray(` (${cluster.stories.length} stories, similarity up to ${cluster.score})`)
+        );
+        for (const member of cluster.stories) {
+          console.log(
+            `  ${member.id}: ${member.title}` + chalk.gray(` (${member.feature || 'backlog'})`)
+          );
+        }
+
+        if (options.local) continue;
+
+        startSpinner('Classifying...');
+        try {
+          const findings = await classifyStoryRelationships(cluster.stories);
+          clearSpinner();
+          if (findings.length === 0) {
+            displayInfo('  The AI found no real overlap in this cluster.');
+          } else {
+            displayDuplicateFindings(findings);
+          }
+        } catch (error) {
+          stopSpinner(false, 'Classification failed');
+          displayWarning(error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
 
       console.log();
+      displayInfo(`${clusters.length} cluster(s) of similar stories found.`);
+      console.log();
+    });
+
+  // story status <id> <status>
+  story
+    .command('status <id> <status>')
+    .description('Set the status of a story (draft, ready, in-progress, done)')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .option('--force', 'Change the status even if the Definition of Ready/Done is not met')
+    .option('--reason <reason>', 'Why the gate was overridden (recorded with --force)')
+    .action(
+      async (
+        id: string,
+        status: string,
+        options: { feature?: string; force?: boolean; reason?: string }
+      ) => {
+        const parsed = StoryStatus.safeParse(status);
+        if (!parsed.success) {
+          displayError(`Invalid status "${status}". Use one of: ${StoryStatus.options.join(', ')}.`);
+          process.exit(1);
+        }
+
+        const storage = getStorageOrExit();
+        const storyData = await findStoryOrExit(storage, id, options.feature);
+
+        let workflow: WorkflowConfig;
+        try {
+          workflow = resolveWorkflow(loadAppConfig().projectConfig?.workflow);
+        } catch (error) {
+          displayError(error instanceof Error ? error.message : 'Unknown error');
+          process.exit(1);
+        }
+
+        const change = await changeStoryStatus(storyData, parsed.data, workflow, {
+          force: options.force,
+          reason: options.reason,
+          confirmChecklist: process.stdin.isTTY
+            ? (gate, items) =>
+                askMultiSelect(
+                  `${gate.label} - confirm each item:`,
+                  items.map((item) => ({ label: item, value: item }))
+                )
+            : undefined,
+        });
+
+        if (!change.allowed) {
+          displayError(`Story "${id}" cannot move from ${storyData.status} to ${parsed.data}.`);
+          displayGateFailures(change.failed);
+          console.log(chalk.gray('Fix the story, or override with --force --reason "...".'));
+          process.exit(1);
+        }
+
+        await storage.updateStory(storyData);
+        if (change.overridden) {
+          displayGateFailures(change.failed);
+          displayWarning('Gate overridden with --force; recorded on the story.');
+        }
+        displaySuccess(`Story "${id}" status set to ${parsed.data}.`);
+      }
+    );
+
+  // story priority <id> <priority>
+  story
+    .command('priority <id> <priority>')
+    .description('Set the priority of a story (low, medium, high, critical)')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .action(async (id: string, priority: string, options: { feature?: string }) => {
+      const parsed = Priority.safeParse(priority);
+      if (!parsed.success) {
+        displayError(`Invalid priority "${priority}". Use one of: ${Priority.options.join(', ')}.`);
+        process.exit(1);
+      }
+
+      const storage = getStorageOrExit();
+      const storyData = await findStoryOrExit(storage, id, options.feature);
+
+      storyData.priority = parsed.data;
+      await storage.updateStory(storyData);
+      displaySuccess(`Story "${id}" priority set to ${parsed.data}.`);
+    });
+
+  // story move <id> --to <feature>
+  story
+    .command('move <id>')
+    .description('Move a story to another feature (use "backlog" for no feature)')
+    .requiredOption('-t, --to <feature>', 'Target feature ID')
+    .option('-f, --feature <feature>', 'Feature currently containing the story')
+    .action(async (id: string, options: { to: string; feature?: string }) => {
+      const storage = getStorageOrExit();
+
+      try {
+        await storage.moveStory(id, options.to, options.feature);
+      } catch (error) {
+        displayError(error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+      }
+
+      displaySuccess(`Story "${id}" moved to ${options.to}.`);
+    });
+
+  // story delete <id>
+  story
+    .command('delete <id>')
+    .description('Delete a story')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (id: string, options: { feature?: string; yes?: boolean }) => {
+      const storage = getStorageOrExit();
+      const storyData = await findStoryOrExit(storage, id, options.feature);
+
+      if (!options.yes && !(await askConfirm(`Delete story "${storyData.title}"?`, false))) {
+        console.log(chalk.gray('Cancelled.'));
+        return;
+      }
+
+      const featureId = (await storage.resolveStoryFeature(id, options.feature)) as string;
+      await storage.deleteStory(featureId, id);
+      displaySuccess(`Story "${id}" deleted.`);
+    });
+
+  // story tag add|remove <id> <tags...>
+  const tag = story.command('tag').description('Manage story tags');
+
+  tag
+    .command('add <id> <tags...>')
+    .description('Add tags to a story')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .action(async (id: string, tags: string[], options: { feature?: string }) => {
+      const storage = getStorageOrExit();
+      const storyData = await findStoryOrExit(storage, id, options.feature);
+
+      storyData.tags = [...new Set([...storyData.tags, ...tags])];
+      await storage.updateStory(storyData);
+      displaySuccess(`Tags on "${id}": ${storyData.tags.join(', ')}`);
+    });
+
+  tag
+    .command('remove <id> <tags...>')
+    .description('Remove tags from a story')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .action(async (id: string, tags: string[], options: { feature?: string }) => {
+      const storage = getStorageOrExit();
+      const storyData = await findStoryOrExit(storage, id, options.feature);
+
+      storyData.tags = storyData.tags.filter((t) => !tags.includes(t));
+      await storage.updateStory(storyData);
+      displaySuccess(`Tags on "${id}": ${storyData.tags.join(', ') || '(none)'}`);
+    });
+
+  // story ac check <id> <n>
+  const ac = story.command('ac').description('Manage acceptance criteria');
+
+  ac
+    .command('check <id> <n>')
+    .description('Toggle acceptance criterion number n (1-based) as completed')
+    .option('-f, --feature <feature>', 'Feature containing the story (only needed for ambiguous IDs)')
+    .action(async (id: string, n: string, options: { feature?: string }) => {
+      const storage = getStorageOrExit();
+      const storyData = await findStoryOrExit(storage, id, options.feature);
+
+      const index = parseInt(n, 10) - 1;
+      const criterion = storyData.acceptanceCriteria[index];
+      if (!criterion) {
+        displayError(
+          `Story "${id}" has ${storyData.acceptanceCriteria.length} acceptance criteria; "${n}" is out of range.`
+        );
+        process.exit(1);
+      }
+
+      criterion.completed = !criterion.completed;
+      await storage.updateStory(storyData);
+      displaySuccess(`${criterion.completed ? 'Checked' : 'Unchecked'}: ${criterion.text}`);
     });
 }
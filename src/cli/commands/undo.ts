@@ -0,0 +1,104 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadAppConfig } from '../../config/index.js';
+import { StorageManager } from '../../storage/index.js';
+import type { ChangeSet } from '../../models/index.js';
+import {
+  displayHeader,
+  displayError,
+  displayWarning,
+  displayInfo,
+  displaySuccess,
+  displayChangeSet,
+  displayChangeSetList,
+  askConfirm,
+} from '../../ui/index.js';
+
+export function undoCommand(program: Command): void {
+  program
+    .command('undo [id]')
+    .description('Revert the files changed by the last AI chat turn or doctor repair, or by a given change set')
+    .option('-l, --list', 'List recent change sets')
+    .option('-n, --limit <count>', 'Number of change sets to list', '10')
+    .option('--force', 'Revert even if the files were edited since')
+    .option('-y, --yes', 'Skip the confirmation')
+    .action(
+      async (
+        id: string | undefined,
+        options: { list?: boolean; limit: string; force?: boolean; yes?: boolean }
+      ) => {
+        const appConfig = loadAppConfig();
+        if (!appConfig.projectPath) {
+          displayWarning('No one-p project found. Run "one-p init" first.');
+          process.exit(1);
+        }
+
+        const storage = new StorageManager(appConfig.projectPath);
+
+        if (options.list) {
+          displayHeader('Recorded Changes');
+          const limit = parseInt(options.limit, 10) || 10;
+          displayChangeSetList((await storage.listChangeSets()).slice(0, limit));
+          console.log();
+          return;
+        }
+
+        let changeSet: ChangeSet | null;
+        if (id) {
+          try {
+            changeSet = await storage.getChangeSet(id);
+          } catch (error) {
+            displayError(error instanceof Error ? error.message : 'Unknown error');
+            process.exit(1);
+          }
+          if (!changeSet) {
+            displayError(`Change set "${id}" not found.`);
+            process.exit(1);
+          }
+          if (changeSet.undoneAt) {
+            displayError(`Change set "${id}" was already undone.`);
+            process.exit(1);
+          }
+        } else {
+          changeSet = (await storage.listChangeSets()).find((c) => !c.undoneAt) || null;
+          if (!changeSet) {
+            displayInfo('No changes to undo.');
+            return;
+          }
+        }
+
+        displayHeader('Undo');
+        displayChangeSet(changeSet);
+        console.log();
+
+        // Reverting a file that was edited since would throw those edits away
+        const conflicts = storage.findUndoConflicts(changeSet);
+        if (conflicts.length > 0) {
+          if (!options.force) {
+            displayError('These files were changed after the change set wrote them:');
+            conflicts.forEach((file) => console.log(chalk.gray(`  ${file}`)));
+            console.log('Run again with --force to revert them anyway.');
+            process.exit(1);
+          }
+          displayWarning(`Overwriting later edits to ${conflicts.length} file(s).`);
+        }
+
+        if (!options.yes && !(await askConfirm('Revert these files?'))) {
+          displayInfo('Nothing was changed.');
+          return;
+        }
+
+        try {
+          await storage.undoChangeSet(changeSet);
+        } catch (error) {
+          displayError(error instanceof Error ? error.message : 'Unknown error');
+          process.exit(1);
+        }
+
+        displaySuccess(
+          `Reverted ${changeSet.files.length} file${changeSet.files.length === 1 ? '' : 's'}.`
+        );
+        console.log();
+      }
+    );
+}
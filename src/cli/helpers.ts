@@ -0,0 +1,58 @@
+import chalk from 'chalk';
+import { loadAppConfig, settingsExist, getApiKey } from '../config/index.js';
+import { StorageManager } from '../storage/index.js';
+import type { Story } from '../models/index.js';
+import { runInitialSetup } from '../config/setup.js';
+import { displayError, displayWarning } from '../ui/index.js';
+
+// Run first-time setup if needed; false when there is still no API key to use
+export async function ensureApiKey(): Promise<boolean> {
+  if (!settingsExist()) {
+    console.log(chalk.cyan('First time setup required.'));
+    console.log();
+    const settings = await runInitialSetup();
+    if (!settings) {
+      displayError('Setup cancelled.');
+      return false;
+    }
+    console.log();
+  }
+
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    displayError('No API key configured.');
+    console.log('Run "one-p config" to set up your API key.');
+    return false;
+  }
+
+  return true;
+}
+
+export function getStorageOrExit(): StorageManager {
+  const appConfig = loadAppConfig();
+  if (!appConfig.projectPath) {
+    displayWarning('No one-p project found. Run "one-p init" first.');
+    process.exit(1);
+  }
+  return new StorageManager(appConfig.projectPath);
+}
+
+// Resolve a story across all features, exiting with an error if missing or ambiguous
+export async function findStoryOrExit(
+  storage: StorageManager,
+  id: string,
+  featureId?: string
+): Promise<Story> {
+  try {
+    const found = await storage.findStory(id, featureId);
+    if (found) {
+      return found;
+    }
+    displayError(
+      featureId ? `Story "${id}" not found in feature "${featureId}".` : `Story "${id}" not found.`
+    );
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : 'Unknown error');
+  }
+  process.exit(1);
+}
@@ -1,6 +1,26 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { initCommand, chatCommand, storyCommand, featureCommand, searchCommand, configCommand } from './commands/index.js';
+import {
+  initCommand,
+  chatCommand,
+  storyCommand,
+  featureCommand,
+  searchCommand,
+  boardCommand,
+  backlogCommand,
+  sprintCommand,
+  depsCommand,
+  lintCommand,
+  historyCommand,
+  undoCommand,
+  configCommand,
+  sessionsCommand,
+  doctorCommand,
+  personaCommand,
+  exportCommand,
+  importCommand,
+  gherkinCommand,
+} from './commands/index.js';
 
 export function createCLI(): Command {
   const program = new Command();
@@ -28,7 +48,20 @@ ${chalk.cyan('╚═════════════════════
   chatCommand(program);
   storyCommand(program);
   featureCommand(program);
+  personaCommand(program);
   searchCommand(program);
+  boardCommand(program);
+  backlogCommand(program);
+  sprintCommand(program);
+  depsCommand(program);
+  lintCommand(program);
+  historyCommand(program);
+  undoCommand(program);
+  exportCommand(program);
+  importCommand(program);
+  gherkinCommand(program);
+  sessionsCommand(program);
+  doctorCommand(program);
 
   return program;
 }
@@ -51,12 +51,23 @@ export function saveProjectConfig(projectPath: string, config: ProjectConfig): v
   fs.writeFileSync(configPath, content, 'utf-8');
 }
 
+// Written to a new project's one-p.yaml as a start for semantic search; edit to fit the domain
+const STARTER_SYNONYMS: Record<string, string[]> = {
+  login: ['log in', 'sign in', 'log on', 'sign on', 'authenticate'],
+  logout: ['log out', 'sign out', 'log off', 'sign off'],
+  signup: ['sign up', 'register', 'registration'],
+  password: ['passphrase', 'passcode', 'credentials'],
+  email: ['e-mail'],
+};
+
 export function initializeProject(projectPath: string, name: string): ProjectConfig {
   // Create directory structure
   const dirs = [
     projectPath,
     path.join(projectPath, 'features'),
     path.join(projectPath, 'personas'),
+    path.join(projectPath, 'sessions'),
+    path.join(projectPath, 'sprints'),
   ];
 
   for (const dir of dirs) {
@@ -71,6 +82,7 @@ export function initializeProject(projectPath: string, name: string): ProjectCon
     description: `Project: ${name}`,
     personas: [],
     defaultPriority: 'medium',
+    search: { synonyms: STARTER_SYNONYMS },
     createdAt: new Date().toISOString(),
   };
 
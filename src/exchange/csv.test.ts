@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { StorageManager } from '../storage/index.js';
+import { FeatureSchema, StorySchema } from '../models/index.js';
+import { createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { formatCsv, parseCsv } from './csv.js';
+import { exportBacklog } from './export.js';
+import { planImport, applyImport } from './import.js';
+
+describe('formatCsv and parseCsv', () => {
+  it('round-trips cells with delimiters, quotes and line breaks', () => {
+    const rows = [
+      ['id', 'title', 'notes'],
+      ['a', 'Plain', ''],
+      ['b', 'Comma, inside', 'Say "hi"'],
+      ['c', 'Two\nlines', 'CR\r\nLF'],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('strips a byte order mark and drops blank lines', () => {
+    expect(parseCsv('\uFEFFid,title\n\n1,One\n,\n')).toEqual([
+      ['id', 'title'],
+      ['1', 'One'],
+    ]);
+  });
+
+  it('keeps a last row without a trailing line break', () => {
+    expect(parseCsv('a,b\r\n1,"2"')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('export and import', () => {
+  let source: string;
+  let target: string;
+
+  beforeEach(() => {
+    source = createTempProject();
+    target = createTempProject();
+  });
+
+  afterEach(() => {
+    removeTempProject(source);
+    removeTempProject(target);
+  });
+
+  async function seed(storage: StorageManager): Promise<void> {
+    await storage.createFeature(
+      FeatureSchema.parse({ id: 'checkout', title: 'Checkout', description: 'Paying for orders' })
+    );
+    await storage.createStory(
+      StorySchema.parse({
+        id: 'pay-by-card',
+        title: 'Pay by card, with "3-D Secure"',
+        feature: 'checkout',
+        status: 'ready',
+        priority: 'high',
+        asA: 'shopper',
+        iWant: 'to pay by card',
+        soThat: 'I can finish my order',
+        acceptanceCriteria: [
+          { text: 'Visa and Mastercard are accepted', completed: true },
+          { text: 'A declined card shows the reason', completed: false },
+        ],
+        openQuestions: ['Do we support Amex?'],
+        estimate: '5',
+        tags: ['payments', 'mvp'],
+      })
+    );
+    await storage.createStory(
+      StorySchema.parse({ id: 'wishlist', title: 'Keep a wishlist', tags: ['later'] })
+    );
+  }
+
+  it('imports what the CSV export wrote', async () => {
+    const from = new StorageManager(source);
+    await seed(from);
+    const csv = await exportBacklog(from, { format: 'csv' });
+
+    const to = new StorageManager(target);
+    const plan = await planImport(to, csv, { format: 'csv' });
+    expect(plan.errors).toEqual([]);
+    await applyImport(to, plan);
+
+    const [original, imported] = await Promise.all([from.listStories(), to.listStories()]);
+    const fields = (s: (typeof original)[number]) => ({
+      id: s.id,
+      title: s.title,
+      feature: s.feature,
+      status: s.status,
+      priority: s.priority,
+      asA: s.asA,
+      iWant: s.iWant,
+      soThat: s.soThat,
+      acceptanceCriteria: s.acceptanceCriteria,
+      openQuestions: s.openQuestions,
+      estimate: s.estimate,
+      tags: s.tags,
+    });
+    expect(imported.map(fields)).toEqual(original.map(fields));
+
+    const feature = await to.getFeature('checkout');
+    expect(feature?.title).toBe('Checkout');
+    expect(feature?.stories).toEqual(['pay-by-card']);
+  });
+
+  it('reports rows that fail validation without planning them', async () => {
+    const csv = 'ID,Title,Status\nok,Fine,ready\nbad,,ready\n';
+    const plan = await planImport(new StorageManager(target), csv, { format: 'csv' });
+    expect(plan.stories.map((s) => s.id)).toEqual(['ok']);
+    expect(plan.errors).toHaveLength(1);
+    expect(plan.errors[0].row).toBe(3);
+  });
+
+  it('points dependencies on Jira keys at the IDs the stories are given', async () => {
+    const csv = [
+      'Issue key,Issue Type,Summary,Depends On',
+      'SHOP-1,Story,Pay by card,',
+      'SHOP-2,Story,Refund a payment,shop-1',
+      'SHOP-3,Story,Gift cards,SHOP-9',
+    ].join('\n');
+    const plan = await planImport(new StorageManager(target), csv, {
+      format: 'jira-csv',
+      columns: { 'Depends On': 'dependencies' },
+    });
+    expect(plan.stories.map((s) => [s.id, s.dependencies])).toEqual([
+      ['pay-by-card', []],
+      ['refund-a-payment', ['pay-by-card']],
+      ['gift-cards', ['SHOP-9']],
+    ]);
+  });
+
+  it('frees the ID of a row that fails so a later row can take it', async () => {
+    const csv = [
+      'Issue Id,Issue Type,Summary,Epic Name,Priority',
+      'SHOP-1,Epic,Checkout,Checkout,urgent',
+      'SHOP-2,Epic,Checkout,Checkout,High',
+      'SHOP-3,Story,Refund,,urgent',
+      'SHOP-4,Story,Refund,,High',
+    ].join('\n');
+    const plan = await planImport(new StorageManager(target), csv, { format: 'jira-csv' });
+    expect(plan.errors.map((e) => e.row)).toEqual([2, 4]);
+    expect(plan.features.map((f) => f.id)).toEqual(['checkout']);
+    expect(plan.stories.map((s) => s.id)).toEqual(['refund']);
+  });
+});
@@ -0,0 +1,278 @@
+import type { StorageManager } from '../storage/index.js';
+import type { Story, Feature, StoryStatus, Priority, StoryType } from '../models/index.js';
+import { formatCsv } from './csv.js';
+
+export const EXPORT_FORMATS = ['csv', 'jira-csv', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Fields a column mapping can refer to
+export const EXPORT_FIELDS = [
+  'issueType',
+  'id',
+  'summary',
+  'description',
+  'status',
+  'priority',
+  'labels',
+  'epicName',
+  'epicLink',
+  'feature',
+  'persona',
+  'asA',
+  'iWant',
+  'soThat',
+  'acceptanceCriteria',
+  'openQuestions',
+  'edgeCases',
+  'dependencies',
+  'estimate',
+  'storyPoints',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type ExportField = (typeof EXPORT_FIELDS)[number];
+
+type ExportRecord = Partial<Record<ExportField, string | string[]>>;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  feature?: string;
+  status?: StoryStatus;
+  tag?: string;
+  // CSV header -> export field; defaults depend on the format
+  columns?: Record<string, string>;
+}
+
+export const DEFAULT_CSV_COLUMNS: Record<string, ExportField> = {
+  ID: 'id',
+  'Issue Type': 'issueType',
+  Title: 'summary',
+  Feature: 'feature',
+  Status: 'status',
+  Priority: 'priority',
+  Persona: 'persona',
+  'As a': 'asA',
+  'I want': 'iWant',
+  'So that': 'soThat',
+  'Acceptance Criteria': 'acceptanceCriteria',
+  'Open Questions': 'openQuestions',
+  'Edge Cases': 'edgeCases',
+  Dependencies: 'dependencies',
+  Tags: 'labels',
+  Estimate: 'estimate',
+  Description: 'description',
+};
+
+export const DEFAULT_JIRA_COLUMNS: Record<string, ExportField> = {
+  'Issue Id': 'id',
+  'Issue Type': 'issueType',
+  Summary: 'summary',
+  Description: 'description',
+  Priority: 'priority',
+  Status: 'status',
+  Labels: 'labels',
+  'Epic Name': 'epicName',
+  'Epic Link': 'epicLink',
+  'Story Points': 'storyPoints',
+};
+
+const JIRA_STATUSES: Record<StoryStatus, string> = {
+  draft: 'Backlog',
+  ready: 'To Do',
+  'in-progress': 'In Progress',
+  done: 'Done',
+};
+
+const JIRA_PRIORITIES: Record<Priority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Highest',
+};
+
+const ISSUE_TYPES: Record<StoryType, string> = {
+  'user-story': 'Story',
+  'technical-story': 'Task',
+  bug: 'Bug',
+  spike: 'Task',
+};
+
+// List fields kept on one line in plain CSV; the rest are one item per line
+const INLINE_LIST_FIELDS: ExportField[] = ['labels', 'dependencies'];
+
+// Render a story's narrative and criteria as Jira wiki markup or plain text
+function renderStoryDescription(story: Story, jira: boolean): string {
+  const parts: string[] = [];
+
+  if (story.asA || story.iWant || story.soThat) {
+    parts.push(
+      jira
+        ? [
+            story.asA && `*As a* ${story.asA}`,
+            story.iWant && `*I want* ${story.iWant}`,
+            story.soThat && `*So that* ${story.soThat}`,
+          ]
+            .filter(Boolean)
+            .join('\n')
+        : [
+            story.asA && `As a ${story.asA}`,
+            story.iWant && `I want ${story.iWant}`,
+            story.soThat && `so that ${story.soThat}`,
+          ]
+            .filter(Boolean)
+            .join(', ') + '.'
+    );
+  }
+
+  if (story.acceptanceCriteria.length > 0) {
+    const items = story.acceptanceCriteria.map((ac) =>
+      jira ? `* ${ac.completed ? '(/) ' : ''}${ac.text}` : `- [${ac.completed ? 'x' : ' '}] ${ac.text}`
+    );
+    parts.push([jira ? 'h3. Acceptance Criteria' : 'Acceptance Criteria:', ...items].join('\n'));
+  }
+
+  if (story.openQuestions.length > 0) {
+    const items = story.openQuestions.map((q, i) => (jira ? `# ${q}` : `${i + 1}. ${q}`));
+    parts.push([jira ? 'h3. Open Questions' : 'Open Questions:', ...items].join('\n'));
+  }
+
+  if (story.edgeCases.length > 0) {
+    const items = story.edgeCases.map((ec) => (jira ? `* ${ec}` : `- ${ec}`));
+    parts.push([jira ? 'h3. Edge Cases' : 'Edge Cases:', ...items].join('\n'));
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderFeatureDescription(feature: Feature, jira: boolean): string {
+  const parts: string[] = [];
+
+  if (feature.description) {
+    parts.push(feature.description);
+  }
+
+  if (feature.successCriteria.length > 0) {
+    const items = feature.successCriteria.map((sc) => (jira ? `* ${sc}` : `- ${sc}`));
+    parts.push([jira ? 'h3. Success Criteria' : 'Success Criteria:', ...items].join('\n'));
+  }
+
+  return parts.join('\n\n');
+}
+
+function featureRecord(feature: Feature, jira: boolean): ExportRecord {
+  return {
+    issueType: 'Epic',
+    id: feature.id,
+    summary: feature.title,
+    description: renderFeatureDescription(feature, jira),
+    status: jira ? JIRA_STATUSES[feature.status] : feature.status,
+    priority: jira ? JIRA_PRIORITIES[feature.priority] : feature.priority,
+    labels: feature.tags,
+    epicName: feature.title,
+    feature: feature.id,
+    createdAt: feature.createdAt,
+    updatedAt: feature.updatedAt,
+  };
+}
+
+function storyRecord(story: Story, feature: Feature | undefined, jira: boolean): ExportRecord {
+  return {
+    issueType: ISSUE_TYPES[story.type],
+    id: story.id,
+    summary: story.title,
+    description: renderStoryDescription(story, jira),
+    status: jira ? JIRA_STATUSES[story.status] : story.status,
+    priority: jira ? JIRA_PRIORITIES[story.priority] : story.priority,
+    labels: story.tags,
+    // Jira links stories to an epic in the same file by its Epic Name
+    epicLink: feature?.title,
+    feature: story.feature,
+    persona: story.persona,
+    asA: story.asA,
+    iWant: story.iWant,
+    soThat: story.soThat,
+    acceptanceCriteria: story.acceptanceCriteria.map(
+      (ac) => `[${ac.completed ? 'x' : ' '}] ${ac.text}`
+    ),
+    openQuestions: story.openQuestions,
+    edgeCases: story.edgeCases,
+    dependencies: story.dependencies,
+    estimate: story.estimate,
+    storyPoints: story.estimate && /^\d+(\.\d+)?$/.test(story.estimate) ? story.estimate : '',
+    createdAt: story.createdAt,
+    updatedAt: story.updatedAt,
+  };
+}
+
+// Check a column mapping, returning the names of unknown fields
+export function findUnknownExportFields(columns: Record<string, string>): string[] {
+  return Object.values(columns).filter(
+    (field) => !(EXPORT_FIELDS as readonly string[]).includes(field)
+  );
+}
+
+// Build the table; in Jira CSV, labels repeat the header once per label
+function buildTable(
+  records: ExportRecord[],
+  columns: Record<string, string>,
+  jira: boolean
+): string[][] {
+  const entries = Object.entries(columns) as Array<[string, ExportField]>;
+
+  const widths = entries.map(([, field]) =>
+    jira && field === 'labels'
+      ? Math.max(1, ...records.map((r) => (Array.isArray(r.labels) ? r.labels.length : 0)))
+      : 1
+  );
+
+  const header = entries.flatMap(([name], i) => Array<string>(widths[i]).fill(name));
+
+  const rows = records.map((record) =>
+    entries.flatMap(([, field], i) => {
+      const value = record[field] ?? '';
+      if (!Array.isArray(value)) {
+        return [value];
+      }
+      if (jira && field === 'labels') {
+        return Array.from({ length: widths[i] }, (_, j) => value[j] ?? '');
+      }
+      return [value.join(INLINE_LIST_FIELDS.includes(field) ? ', ' : '\n')];
+    })
+  );
+
+  return [header, ...rows];
+}
+
+// Export features and stories, applying the filters
+export async function exportBacklog(storage: StorageManager, options: ExportOptions): Promise<string> {
+  const features = await storage.listFeatures();
+  let stories = await storage.listStories(options.feature);
+
+  if (options.status) {
+    stories = stories.filter((s) => s.status === options.status);
+  }
+  if (options.tag) {
+    stories = stories.filter((s) => s.tags.includes(options.tag as string));
+  }
+
+  // Only epics for the exported stories, or the requested feature
+  const exportedFeatureIds = new Set(stories.map((s) => s.feature).filter(Boolean));
+  if (options.feature) {
+    exportedFeatureIds.add(options.feature);
+  }
+  const exportedFeatures = features.filter((f) => exportedFeatureIds.has(f.id));
+
+  if (options.format === 'json') {
+    return JSON.stringify({ features: exportedFeatures, stories }, null, 2) + '\n';
+  }
+
+  const jira = options.format === 'jira-csv';
+  const featuresById = new Map(features.map((f) => [f.id, f]));
+  const records = [
+    ...exportedFeatures.map((f) => featureRecord(f, jira)),
+    ...stories.map((s) => storyRecord(s, s.feature ? featuresById.get(s.feature) : undefined, jira)),
+  ];
+
+  const columns = options.columns || (jira ? DEFAULT_JIRA_COLUMNS : DEFAULT_CSV_COLUMNS);
+  return formatCsv(buildTable(records, columns, jira));
+}
@@ -0,0 +1,172 @@
+import type { Story, Feature, AcceptanceCriterion } from '../models/index.js';
+
+export type GherkinKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But';
+
+export interface GherkinStep {
+  keyword: GherkinKeyword;
+  text: string;
+}
+
+// Turns criteria that are not already Given/When/Then into steps, one list per criterion
+export type CriteriaConverter = (story: Story, criteria: string[]) => Promise<GherkinStep[][]>;
+
+export interface GherkinFeatureFile {
+  featureId: string;
+  fileName: string;
+  content: string;
+  scenarioCount: number;
+}
+
+// Lower-case "and"/"but" only start a step after punctuation, so "name and email" stays intact
+const STEP_KEYWORD =
+  /\b([Gg]iven|[Ww]hen|[Tt]hen)\b|(?<=[,;.]\s*|^\s*)\b([Aa]nd|[Bb]ut)\b|\b(And|But)\b/gm;
+
+const STEP_ORDER: Record<string, number> = { given: 0, when: 1, then: 2 };
+
+function capitalizeKeyword(word: string): GherkinKeyword {
+  const lower = word.toLowerCase();
+  return (lower.charAt(0).toUpperCase() + lower.slice(1)) as GherkinKeyword;
+}
+
+// Parse "Given ..., when ..., then ..." into steps; null if the text is not in that form
+export function parseGherkinSteps(text: string): GherkinStep[] | null {
+  const trimmed = text.trim();
+  if (!/^(given|when)\b/i.test(trimmed) || !/\bthen\b/i.test(trimmed)) {
+    return null;
+  }
+
+  // Given/When/Then only split when they move the scenario forward, so a
+  // "when" inside an outcome ("Then an error shows when ...") stays in that step
+  let phase = -1;
+  const keywords = [...trimmed.matchAll(STEP_KEYWORD)].filter((match) => {
+    const order = STEP_ORDER[match[0].toLowerCase()];
+    if (order === undefined) return phase >= 0;
+    if (order <= phase) return false;
+    phase = order;
+    return true;
+  });
+
+  const steps = keywords
+    .map((match, i) => {
+      const start = (match.index as number) + match[0].length;
+      const end = i + 1 < keywords.length ? (keywords[i + 1].index as number) : trimmed.length;
+      const stepText = trimmed
+        .slice(start, end)
+        .trim()
+        .replace(/[,;.]$/, '')
+        .trim();
+      return { keyword: capitalizeKeyword(match[0]), text: stepText };
+    })
+    .filter((step) => step.text);
+
+  return steps.length > 0 ? steps : null;
+}
+
+// Without AI, frame a plain criterion with the story's role and goal
+export function heuristicSteps(story: Story, criterion: string): GherkinStep[] {
+  const steps: GherkinStep[] = [];
+  const outcome = criterion.trim().replace(/\.$/, '');
+
+  if (story.asA) {
+    steps.push({ keyword: 'Given', text: `I am a ${story.asA.replace(/^(a|an)\s+/i, '')}` });
+  }
+  if (story.iWant) {
+    steps.push({ keyword: 'When', text: `I ${story.iWant.replace(/^to\s+/i, '')}` });
+  }
+  steps.push({ keyword: 'Then', text: outcome.charAt(0).toLowerCase() + outcome.slice(1) });
+
+  return steps;
+}
+
+// Repeat keywords become "And", as Cucumber style guides recommend
+function normalizeKeywords(steps: GherkinStep[]): GherkinStep[] {
+  let previous: GherkinKeyword | null = null;
+  return steps.map((step) => {
+    if (step.keyword === 'And' || step.keyword === 'But') {
+      return step;
+    }
+    const keyword: GherkinKeyword = step.keyword === previous ? 'And' : step.keyword;
+    previous = step.keyword;
+    return { keyword, text: step.text };
+  });
+}
+
+function tagFor(value: string): string {
+  return `@${value.replace(/\s+/g, '-')}`;
+}
+
+async function renderScenarios(story: Story, convert?: CriteriaConverter): Promise<string[]> {
+  const parsed = story.acceptanceCriteria.map((ac) => parseGherkinSteps(ac.text));
+  const plain = story.acceptanceCriteria.filter((_, i) => !parsed[i]);
+
+  let converted: GherkinStep[][] = [];
+  if (convert && plain.length > 0) {
+    converted = await convert(story, plain.map((ac) => ac.text));
+  }
+
+  const lines: string[] = [];
+  let plainIndex = 0;
+
+  story.acceptanceCriteria.forEach((ac: AcceptanceCriterion, i) => {
+    let steps = parsed[i];
+    const original = steps ? null : ac.text;
+    if (!steps) {
+      const fromConverter = converted[plainIndex++];
+      steps =
+        fromConverter && fromConverter.length > 0 ? fromConverter : heuristicSteps(story, ac.text);
+    }
+
+    const tags = [tagFor(story.id), tagFor(`priority-${story.priority}`)];
+    if (ac.completed) tags.push('@done');
+
+    lines.push('');
+    lines.push(`  ${tags.join(' ')}`);
+    lines.push(`  Scenario: ${story.title} (AC ${i + 1})`);
+    if (original) {
+      lines.push(`    # Original: ${original.replace(/\n/g, ' ')}`);
+    }
+    for (const step of normalizeKeywords(steps)) {
+      lines.push(`    ${step.keyword} ${step.text}`);
+    }
+  });
+
+  return lines;
+}
+
+// Render one .feature file with a Scenario per acceptance criterion
+export async function renderFeatureFile(
+  feature: Feature | null,
+  featureId: string,
+  stories: Story[],
+  convert?: CriteriaConverter
+): Promise<GherkinFeatureFile> {
+  const lines: string[] = [tagFor(featureId), `Feature: ${feature?.title || 'Backlog'}`];
+
+  if (feature?.description) {
+    for (const line of feature.description.split('\n')) {
+      lines.push(`  ${line}`.trimEnd());
+    }
+  }
+
+  let scenarioCount = 0;
+  for (const story of stories) {
+    if (story.acceptanceCriteria.length === 0) continue;
+
+    lines.push('');
+    lines.push(`  # Story: ${story.id} - ${story.title}`);
+    if (story.asA || story.iWant || story.soThat) {
+      lines.push(
+        `  # As a ${story.asA || '?'}, I want ${story.iWant || '?'}, so that ${story.soThat || '?'}`
+      );
+    }
+    lines.push(...(await renderScenarios(story, convert)));
+    scenarioCount += story.acceptanceCriteria.length;
+  }
+
+  return {
+    featureId,
+    fileName: `${featureId}.feature`,
+    content: lines.join('\n') + '\n',
+    scenarioCount,
+  };
+}
@@ -0,0 +1,388 @@
+import { toSlug, type StorageManager } from '../storage/index.js';
+import {
+  StorySchema,
+  FeatureSchema,
+  type Story,
+  type Feature,
+  type AcceptanceCriterion,
+} from '../models/index.js';
+import { parseCsv } from './csv.js';
+import {
+  DEFAULT_CSV_COLUMNS,
+  DEFAULT_JIRA_COLUMNS,
+  EXPORT_FIELDS,
+  type ExportField,
+} from './export.js';
+
+export const IMPORT_FORMATS = ['csv', 'jira-csv'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export interface ImportRowError {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  title?: string;
+  issues: string[];
+}
+
+export interface ImportPlan {
+  features: Feature[];
+  stories: Story[];
+  errors: ImportRowError[];
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  // CSV header -> export field, merged over the format's defaults
+  columns?: Record<string, string>;
+}
+
+// Headers written by Jira's own CSV export
+const JIRA_EXPORT_ALIASES: Record<string, ExportField> = {
+  'issue key': 'id',
+  'custom field (story points)': 'storyPoints',
+  'custom field (epic link)': 'epicLink',
+  'custom field (epic name)': 'epicName',
+  'parent summary': 'epicLink',
+};
+
+const STATUS_ALIASES: Record<string, string> = {
+  backlog: 'draft',
+  open: 'draft',
+  new: 'draft',
+  'to do': 'ready',
+  todo: 'ready',
+  'selected for development': 'ready',
+  'in progress': 'in-progress',
+  'in review': 'in-progress',
+  closed: 'done',
+  resolved: 'done',
+};
+
+const PRIORITY_ALIASES: Record<string, string> = {
+  lowest: 'low',
+  highest: 'critical',
+  blocker: 'critical',
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  story: 'user-story',
+  task: 'technical-story',
+  'sub-task': 'technical-story',
+};
+
+type RowValues = Partial<Record<ExportField, string[]>>;
+
+// Map each header to a field: explicit mapping first, then the format's defaults
+function resolveHeaders(
+  header: string[],
+  format: ImportFormat,
+  columns?: Record<string, string>
+): Array<ExportField | undefined> {
+  const lookup = new Map<string, ExportField>();
+  const add = (mapping: Record<string, string>) => {
+    for (const [name, field] of Object.entries(mapping)) {
+      if ((EXPORT_FIELDS as readonly string[]).includes(field)) {
+        lookup.set(name.trim().toLowerCase(), field as ExportField);
+      }
+    }
+  };
+
+  if (format === 'jira-csv') {
+    add(JIRA_EXPORT_ALIASES);
+    add(DEFAULT_JIRA_COLUMNS);
+  } else {
+    add(DEFAULT_CSV_COLUMNS);
+  }
+  if (columns) {
+    add(columns);
+  }
+
+  return header.map((name) => lookup.get(name.trim().toLowerCase()));
+}
+
+// Repeated headers (e.g. Jira's Labels) collect every value
+function readRow(fields: Array<ExportField | undefined>, cells: string[]): RowValues {
+  const values: RowValues = {};
+  fields.forEach((field, i) => {
+    if (!field || cells[i] === undefined) return;
+    values[field] = [...(values[field] || []), cells[i]];
+  });
+  return values;
+}
+
+function first(values: RowValues, field: ExportField): string | undefined {
+  return values[field]?.map((v) => v.trim()).find(Boolean);
+}
+
+function splitInline(values: RowValues, field: ExportField): string[] {
+  return (values[field] || [])
+    .flatMap((v) => v.split(/[,;]/))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(/^\s*(?:[-*•+]|#|\d+[.)])\s+/, '').trim();
+}
+
+// "[x] text" and Jira's "(/) text" mark a completed criterion
+function toCriterion(text: string): AcceptanceCriterion {
+  const match = text.match(/^(?:\[([ xX])\]|\((\/|x)\))\s*(.*)$/);
+  if (!match) {
+    return { text, completed: false };
+  }
+  return { text: match[3].trim(), completed: match[1]?.toLowerCase() === 'x' || match[2] === '/' };
+}
+
+function splitLines(values: RowValues, field: ExportField): string[] {
+  return (values[field] || [])
+    .flatMap((v) => v.split(/\r?\n/))
+    .map(stripBullet)
+    .filter(Boolean);
+}
+
+function mapEnum(value: string | undefined, aliases: Record<string, string>): string | undefined {
+  if (!value) return undefined;
+  const lower = value.toLowerCase();
+  // Unknown values pass through so schema validation reports them
+  return aliases[lower] || lower;
+}
+
+interface ParsedDescription {
+  prose: string;
+  asA?: string;
+  iWant?: string;
+  soThat?: string;
+  acceptanceCriteria: AcceptanceCriterion[];
+  openQuestions: string[];
+  edgeCases: string[];
+  successCriteria: string[];
+}
+
+const SECTION_HEADING =
+  /^(?:h\d\.\s*|#{1,6}\s+)?\*{0,2}(acceptance criteria|open questions|edge cases|success criteria)\*{0,2}\s*:?\s*$/i;
+const BULLET = /^\s*(?:[-*•+]|#|\d+[.)])\s+/;
+
+// Split a plain-text, markdown or Jira wiki description into story parts
+function parseDescription(text: string): ParsedDescription {
+  const parsed: ParsedDescription = {
+    prose: '',
+    acceptanceCriteria: [],
+    openQuestions: [],
+    edgeCases: [],
+    successCriteria: [],
+  };
+  const proseLines: string[] = [];
+  const looseBullets: string[] = [];
+  let section: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.trim().match(SECTION_HEADING);
+    if (heading) {
+      section = heading[1].toLowerCase();
+      continue;
+    }
+
+    if (!BULLET.test(line)) {
+      if (line.trim()) {
+        proseLines.push(line.trim());
+      }
+      section = line.trim() ? null : section;
+      continue;
+    }
+
+    const item = stripBullet(line);
+    if (section === 'acceptance criteria') parsed.acceptanceCriteria.push(toCriterion(item));
+    else if (section === 'open questions') parsed.openQuestions.push(item);
+    else if (section === 'edge cases') parsed.edgeCases.push(item);
+    else if (section === 'success criteria') parsed.successCriteria.push(item);
+    else looseBullets.push(item);
+  }
+
+  // Bullets outside any section are taken as acceptance criteria
+  if (parsed.acceptanceCriteria.length === 0) {
+    parsed.acceptanceCriteria = looseBullets.map(toCriterion);
+  }
+
+  const prose = proseLines.join(' ').replace(/\*/g, '');
+  const userStory = prose.match(
+    /\bas an?\s+(.+?)[,\s]+i want\s+(.+?)(?:[,\s]+so that\s+(.+?))?\.?\s*$/i
+  );
+  if (userStory) {
+    parsed.asA = userStory[1].trim();
+    parsed.iWant = userStory[2].trim();
+    parsed.soThat = userStory[3]?.trim();
+    parsed.prose = prose.slice(0, userStory.index).trim();
+  } else {
+    parsed.prose = prose;
+  }
+
+  return parsed;
+}
+
+// Append -2, -3, ... until the ID is free
+function uniqueId(base: string, taken: Set<string>, fallback: string): string {
+  const slug = toSlug(base) || fallback;
+  let id = slug;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${slug}-${n}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+function formatIssues(error: { issues: Array<{ path: PropertyKey[]; message: string }> }): string[] {
+  return error.issues.map(
+    (issue) => `${issue.path.map(String).join('.') || '(row)'}: ${issue.message}`
+  );
+}
+
+// Work out which features and stories a CSV would create, without writing anything
+export async function planImport(
+  storage: StorageManager,
+  content: string,
+  options: ImportOptions
+): Promise<ImportPlan> {
+  const [header, ...rows] = parseCsv(content);
+  const plan: ImportPlan = { features: [], stories: [], errors: [] };
+
+  if (!header) {
+    return plan;
+  }
+
+  const fields = resolveHeaders(header, options.format, options.columns);
+  const records = rows.map((cells, i) => ({ row: i + 2, values: readRow(fields, cells) }));
+
+  const existingFeatures = await storage.listFeatures();
+  const takenFeatureIds = new Set(['backlog', ...existingFeatures.map((f) => f.id)]);
+  const takenStoryIds = new Set(await storage.listStoryIds());
+
+  // Feature references (IDs, names, epic keys) -> feature ID
+  const featureRefs = new Map<string, string>();
+  for (const feature of existingFeatures) {
+    featureRefs.set(feature.id.toLowerCase(), feature.id);
+    featureRefs.set(feature.title.toLowerCase(), feature.id);
+  }
+
+  // Our own CSV carries real IDs; Jira keys like "SHOP-12" make poor IDs, so use titles
+  const preferKey = options.format === 'csv';
+
+  const isEpic = (values: RowValues) => first(values, 'issueType')?.toLowerCase() === 'epic';
+
+  // Epic rows become features, unless one with the same ID or title already exists
+  for (const { row, values } of records.filter((r) => isEpic(r.values))) {
+    const title = first(values, 'epicName') || first(values, 'summary');
+    const key = first(values, 'id') || first(values, 'feature');
+    const refs = [title, key].filter((r): r is string => Boolean(r)).map((r) => r.toLowerCase());
+    const existing = refs.map((r) => featureRefs.get(r)).find(Boolean);
+
+    if (existing) {
+      refs.forEach((r) => featureRefs.set(r, existing));
+      continue;
+    }
+
+    const description = parseDescription(first(values, 'description') || '');
+    const id = uniqueId(
+      (preferKey ? key || title : title || key) || '',
+      takenFeatureIds,
+      'feature'
+    );
+    const result = FeatureSchema.safeParse({
+      id,
+      title,
+      description: description.prose || undefined,
+      successCriteria: description.successCriteria,
+      status: mapEnum(first(values, 'status'), STATUS_ALIASES),
+      priority: mapEnum(first(values, 'priority'), PRIORITY_ALIASES),
+      tags: splitInline(values, 'labels'),
+    });
+
+    if (!result.success) {
+      takenFeatureIds.delete(id);
+      plan.errors.push({ row, title, issues: formatIssues(result.error) });
+      continue;
+    }
+
+    plan.features.push(result.data);
+    refs.forEach((r) => featureRefs.set(r, result.data.id));
+    featureRefs.set(result.data.id, result.data.id);
+  }
+
+  // Features referenced by stories but not defined anywhere are created from the reference
+  const resolveFeature = (ref: string | undefined): string | undefined => {
+    if (!ref || ref.toLowerCase() === 'backlog') return undefined;
+
+    const known = featureRefs.get(ref.toLowerCase()) || featureRefs.get(toSlug(ref));
+    if (known) return known;
+
+    const feature = FeatureSchema.parse({ id: uniqueId(ref, takenFeatureIds, 'feature'), title: ref });
+    plan.features.push(feature);
+    featureRefs.set(ref.toLowerCase(), feature.id);
+    featureRefs.set(feature.id, feature.id);
+    return feature.id;
+  };
+
+  // Story keys from the CSV -> the IDs given to them, so dependencies on keys like
+  // "SHOP-12" can point at the imported stories
+  const storyKeys = new Map<string, string>();
+
+  for (const { row, values } of records.filter((r) => !isEpic(r.values))) {
+    const title = first(values, 'summary');
+    const key = first(values, 'id');
+    const description = parseDescription(first(values, 'description') || '');
+    const criteria = splitLines(values, 'acceptanceCriteria').map(toCriterion);
+    const openQuestions = splitLines(values, 'openQuestions');
+    const edgeCases = splitLines(values, 'edgeCases');
+
+    const candidate = {
+      id: uniqueId(
+        (preferKey ? key || title : title || key) || '',
+        takenStoryIds,
+        'story'
+      ),
+      title,
+      type: mapEnum(first(values, 'issueType'), TYPE_ALIASES),
+      status: mapEnum(first(values, 'status'), STATUS_ALIASES),
+      priority: mapEnum(first(values, 'priority'), PRIORITY_ALIASES),
+      persona: first(values, 'persona'),
+      asA: first(values, 'asA') || description.asA,
+      iWant: first(values, 'iWant') || description.iWant,
+      soThat: first(values, 'soThat') || description.soThat,
+      acceptanceCriteria: criteria.length > 0 ? criteria : description.acceptanceCriteria,
+      openQuestions: openQuestions.length > 0 ? openQuestions : description.openQuestions,
+      edgeCases: edgeCases.length > 0 ? edgeCases : description.edgeCases,
+      dependencies: splitInline(values, 'dependencies'),
+      estimate: first(values, 'estimate') || first(values, 'storyPoints'),
+      tags: splitInline(values, 'labels'),
+    };
+
+    const result = StorySchema.safeParse(candidate);
+    if (!result.success) {
+      takenStoryIds.delete(candidate.id);
+      plan.errors.push({ row, title, issues: formatIssues(result.error) });
+      continue;
+    }
+
+    result.data.feature = resolveFeature(first(values, 'feature') || first(values, 'epicLink'));
+    plan.stories.push(result.data);
+    if (key) {
+      storyKeys.set(key.toLowerCase(), result.data.id);
+    }
+  }
+
+  for (const story of plan.stories) {
+    story.dependencies = story.dependencies.map((d) => storyKeys.get(d.toLowerCase()) || d);
+  }
+
+  return plan;
+}
+
+// Write a planned import: features first, so stories are linked to them
+export async function applyImport(storage: StorageManager, plan: ImportPlan): Promise<void> {
+  for (const feature of plan.features) {
+    await storage.createFeature(feature);
+  }
+  for (const story of plan.stories) {
+    await storage.createStory(story);
+  }
+}
@@ -0,0 +1,30 @@
+export { formatCsv, parseCsv } from './csv.js';
+export {
+  exportBacklog,
+  findUnknownExportFields,
+  EXPORT_FORMATS,
+  EXPORT_FIELDS,
+  DEFAULT_CSV_COLUMNS,
+  DEFAULT_JIRA_COLUMNS,
+  type ExportFormat,
+  type ExportField,
+  type ExportOptions,
+} from './export.js';
+export {
+  planImport,
+  applyImport,
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportOptions,
+  type ImportPlan,
+  type ImportRowError,
+} from './import.js';
+export {
+  renderFeatureFile,
+  parseGherkinSteps,
+  heuristicSteps,
+  type GherkinStep,
+  type GherkinKeyword,
+  type GherkinFeatureFile,
+  type CriteriaConverter,
+} from './gherkin.js';
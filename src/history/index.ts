@@ -0,0 +1,8 @@
+export {
+  diffRecords,
+  appendHistory,
+  readHistory,
+  getHistoryPath,
+  defaultActor,
+  type HistoryFilter,
+} from './log.js';
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { StorageManager } from '../storage/index.js';
+import { story, createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { diffRecords, defaultActor, readHistory } from './log.js';
+
+describe('diffRecords', () => {
+  it('lists changed, added and removed fields but not updatedAt', () => {
+    const before = { title: 'Old', status: 'draft', estimate: '3', updatedAt: 'then' };
+    const after = { title: 'New', status: 'draft', tags: ['auth'], updatedAt: 'now' };
+    expect(diffRecords(before, after)).toEqual([
+      { field: 'title', before: 'Old', after: 'New' },
+      { field: 'estimate', before: '3', after: undefined },
+      { field: 'tags', before: undefined, after: ['auth'] },
+    ]);
+  });
+
+  it('compares lists of objects item by item', () => {
+    const before = {
+      acceptanceCriteria: [
+        { text: 'One', completed: false },
+        { text: 'Two', completed: false },
+      ],
+    };
+    const after = {
+      acceptanceCriteria: [
+        { text: 'One', completed: false },
+        { text: 'Two', completed: true },
+        { text: 'Three', completed: false },
+      ],
+    };
+    expect(diffRecords(before, after)).toEqual([
+      {
+        field: 'acceptanceCriteria.1',
+        before: { text: 'Two', completed: false },
+        after: { text: 'Two', completed: true },
+      },
+      {
+        field: 'acceptanceCriteria.2',
+        before: undefined,
+        after: { text: 'Three', completed: false },
+      },
+    ]);
+  });
+
+  it('treats a missing record as all fields added or removed', () => {
+    expect(diffRecords(undefined, { id: 'a' })).toEqual([
+      { field: 'id', before: undefined, after: 'a' },
+    ]);
+    expect(diffRecords({ id: 'a' }, undefined)).toEqual([
+      { field: 'id', before: 'a', after: undefined },
+    ]);
+  });
+});
+
+describe('change history', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = createTempProject();
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+  });
+
+  it('records who changed what', async () => {
+    const storage = new StorageManager(projectPath);
+    await storage.createStory(story('pay-by-card', { title: 'Pay by card' }));
+
+    storage.setActor({ type: 'ai', name: 'update_story' });
+    await storage.updateStory(story('pay-by-card', { title: 'Pay by card', priority: 'high' }));
+
+    const entries = readHistory(projectPath, { id: 'pay-by-card' });
+    expect(entries.map((e) => [e.action, e.actor])).toEqual([
+      ['create', defaultActor()],
+      ['update', { type: 'ai', name: 'update_story' }],
+    ]);
+    expect(entries[1].changes).toEqual([{ field: 'priority', before: 'medium', after: 'high' }]);
+  });
+
+  it('leaves out writes that change nothing', async () => {
+    const storage = new StorageManager(projectPath);
+    await storage.createStory(story('pay-by-card'));
+    await storage.updateStory(story('pay-by-card'));
+    expect(readHistory(projectPath).map((e) => e.action)).toEqual(['create']);
+  });
+});
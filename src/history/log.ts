@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  HistoryEntrySchema,
+  type FieldChange,
+  type HistoryActor,
+  type HistoryEntry,
+} from '../models/index.js';
+
+const HISTORY_FILE = 'history.jsonl';
+
+// Bumped on every write, so it would only add noise
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+export interface HistoryFilter {
+  id?: string;
+  entity?: HistoryEntry['entity'];
+  feature?: string;
+  // ISO date or timestamp; entries at or after it
+  since?: string;
+}
+
+export function getHistoryPath(projectPath: string): string {
+  return path.join(projectPath, HISTORY_FILE);
+}
+
+// Whoever runs the CLI, by their OS user name
+export function defaultActor(): HistoryActor {
+  let name = process.env.USER || process.env.USERNAME || 'unknown';
+  try {
+    name = os.userInfo().username || name;
+  } catch {
+    // Some containers have no passwd entry; keep the environment's name
+  }
+  return { type: 'cli', name };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Field-level differences between two versions of a record. Lists of objects
+// (acceptance criteria, reviews) are compared item by item as "field.index"
+// so one edited criterion does not log the whole list.
+export function diffRecords(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const old = before?.[field];
+    const value = after?.[field];
+    if (isEqual(old, value)) continue;
+
+    const itemised =
+      (Array.isArray(old) || old === undefined) &&
+      (Array.isArray(value) || value === undefined) &&
+      [...((old as unknown[]) || []), ...((value as unknown[]) || [])].some(
+        (item) => typeof item === 'object' && item !== null
+      );
+
+    if (itemised) {
+      const oldItems = (old as unknown[]) || [];
+      const newItems = (value as unknown[]) || [];
+      for (let i = 0; i < Math.max(oldItems.length, newItems.length); i++) {
+        if (!isEqual(oldItems[i], newItems[i])) {
+          changes.push({ field: `${field}.${i}`, before: oldItems[i], after: newItems[i] });
+        }
+      }
+    } else {
+      changes.push({ field, before: old, after: value });
+    }
+  }
+
+  return changes;
+}
+
+// Entries are only ever appended, one JSON object per line
+export function appendHistory(projectPath: string, entry: HistoryEntry): void {
+  fs.appendFileSync(getHistoryPath(projectPath), JSON.stringify(entry) + '\n', 'utf-8');
+}
+
+// Matching entries, oldest first
+export function readHistory(projectPath: string, filter: HistoryFilter = {}): HistoryEntry[] {
+  const historyPath = getHistoryPath(projectPath);
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const since = filter.since ? new Date(filter.since).getTime() : undefined;
+  const entries: HistoryEntry[] = [];
+
+  for (const line of fs.readFileSync(historyPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    let entry: HistoryEntry;
+    try {
+      entry = HistoryEntrySchema.parse(JSON.parse(line));
+    } catch {
+      // Skip lines cut short by an interrupted write
+      continue;
+    }
+
+    if (filter.id && entry.id !== filter.id) continue;
+    if (filter.entity && entry.entity !== filter.entity) continue;
+    // A feature's own entries count as part of it; personas and sprints belong to no feature
+    const feature =
+      entry.entity === 'feature'
+        ? entry.id
+        : entry.entity === 'story'
+          ? entry.feature || 'backlog'
+          : undefined;
+    if (filter.feature && feature !== filter.feature) continue;
+    if (since !== undefined && new Date(entry.at).getTime() < since) continue;
+    entries.push(entry);
+  }
+
+  return entries;
+}
@@ -4,3 +4,9 @@ export * from './storage/index.js';
 export * from './config/index.js';
 export * from './ui/index.js';
 export * from './ai/index.js';
+export * from './exchange/index.js';
+export * from './search/index.js';
+export * from './backlog/index.js';
+export * from './lint/index.js';
+export * from './workflow/index.js';
+export * from './history/index.js';
@@ -0,0 +1,8 @@
+export { LINT_RULES, DEFAULT_VAGUE_WORDS, type LintRule, type LintRuleSeverity } from './rules.js';
+export {
+  resolveLintRules,
+  lintStories,
+  type ResolvedLintRule,
+  type LintProblem,
+  type LintReport,
+} from './linter.js';
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { story } from '../testing/fixtures.js';
+import { resolveLintRules, lintStories } from './linter.js';
+
+// A story every default rule accepts
+const clean = {
+  type: 'user-story' as const,
+  asA: 'shopper',
+  iWant: 'to pay by card',
+  soThat: 'I can finish my order',
+  acceptanceCriteria: [
+    { text: 'Visa and Mastercard are accepted', completed: false },
+    { text: 'A declined card shows the reason', completed: false },
+  ],
+};
+
+function problems(
+  fields: Parameters<typeof story>[1],
+  config?: Parameters<typeof resolveLintRules>[0]
+) {
+  return lintStories([story('s', { ...clean, ...fields })], resolveLintRules(config)).problems.map(
+    (p) => ({ rule: p.rule, severity: p.severity, message: p.message })
+  );
+}
+
+describe('lint rules', () => {
+  it('accepts a complete story', () => {
+    expect(problems({})).toEqual([]);
+  });
+
+  it('missing-benefit warns about a user story without "so that"', () => {
+    expect(problems({ soThat: ' ' })).toEqual([
+      {
+        rule: 'missing-benefit',
+        severity: 'warning',
+        message: 'Missing "so that": say what the user gains',
+      },
+    ]);
+    expect(problems({ type: 'bug', soThat: undefined })).toEqual([]);
+  });
+
+  it('min-acceptance-criteria counts non-blank criteria', () => {
+    expect(
+      problems({
+        acceptanceCriteria: [
+          { text: 'One', completed: false },
+          { text: ' ', completed: false },
+        ],
+      })
+    ).toEqual([
+      {
+        rule: 'min-acceptance-criteria',
+        severity: 'error',
+        message: 'Has 1 acceptance criterion; needs at least 2',
+      },
+    ]);
+  });
+
+  it('vague-criteria names the vague words of each criterion', () => {
+    const found = problems({
+      acceptanceCriteria: [
+        { text: 'The page loads fast and is user-friendly', completed: false },
+        { text: 'Breakfast is listed', completed: false },
+      ],
+    });
+    expect(found).toEqual([
+      {
+        rule: 'vague-criteria',
+        severity: 'warning',
+        message: 'Criterion 1 uses vague wording: "fast", "user-friendly"',
+      },
+    ]);
+  });
+
+  it('title-length warns about long titles', () => {
+    expect(problems({ title: 'x'.repeat(81) }).map((p) => p.rule)).toEqual(['title-length']);
+    expect(problems({ title: 'x'.repeat(80) })).toEqual([]);
+  });
+
+  it('ready-open-questions warns about open and blank questions', () => {
+    expect(problems({ status: 'draft', openQuestions: ['Which cards?'] })).toEqual([]);
+    expect(problems({ status: 'ready', openQuestions: ['Which cards?', ''] })).toEqual([
+      { rule: 'ready-open-questions', severity: 'warning', message: '1 open question is blank' },
+      {
+        rule: 'ready-open-questions',
+        severity: 'warning',
+        message: 'Marked ready with 1 open question',
+      },
+    ]);
+  });
+
+  it('done-unchecked-criteria requires every criterion checked on done stories', () => {
+    expect(problems({ status: 'done' })).toEqual([
+      {
+        rule: 'done-unchecked-criteria',
+        severity: 'error',
+        message: 'Marked done with 2 of 2 criteria unchecked',
+      },
+    ]);
+    const checked = clean.acceptanceCriteria.map((ac) => ({ ...ac, completed: true }));
+    expect(problems({ status: 'done', acceptanceCriteria: checked })).toEqual([]);
+  });
+});
+
+describe('resolveLintRules', () => {
+  it('changes severities and turns rules off', () => {
+    const config = { rules: { 'missing-benefit': 'error', 'min-acceptance-criteria': 'off' } };
+    const rules = resolveLintRules(config);
+    expect(rules.find((r) => r.rule.id === 'missing-benefit')?.severity).toBe('error');
+    expect(rules.some((r) => r.rule.id === 'min-acceptance-criteria')).toBe(false);
+
+    const found = problems({ soThat: '', acceptanceCriteria: [] }, config);
+    expect(found.map((p) => [p.rule, p.severity])).toEqual([['missing-benefit', 'error']]);
+  });
+
+  it('applies rule options alongside a severity', () => {
+    const config = {
+      rules: {
+        'min-acceptance-criteria': { min: 3, severity: 'warning' },
+        'vague-criteria': { words: ['declined'] },
+      },
+    };
+    expect(problems({}, config)).toEqual([
+      {
+        rule: 'min-acceptance-criteria',
+        severity: 'warning',
+        message: 'Has 2 acceptance criteria; needs at least 3',
+      },
+      {
+        rule: 'vague-criteria',
+        severity: 'warning',
+        message: 'Criterion 2 uses vague wording: "declined"',
+      },
+    ]);
+  });
+
+  it('rejects unknown rules, bad settings and bad options', () => {
+    expect(() => resolveLintRules({ rules: { 'no-such-rule': 'error' } })).toThrow(
+      'Unknown lint rule(s) in one-p.yaml: no-such-rule'
+    );
+    expect(() => resolveLintRules({ rules: { 'title-length': 'loud' } })).toThrow(
+      'Invalid setting for lint rule "title-length"'
+    );
+    expect(() => resolveLintRules({ rules: { 'title-length': { max: 0 } } })).toThrow(
+      'Invalid option "max" for lint rule "title-length"'
+    );
+    expect(() => resolveLintRules({ rules: { 'missing-benefit': { words: [] } } })).toThrow(
+      'Invalid option for lint rule "missing-benefit"'
+    );
+  });
+});
+
+describe('lintStories', () => {
+  it('orders problems by feature, then story', () => {
+    const stories = [
+      story('b', { ...clean, feature: 'checkout', soThat: '' }),
+      story('a', { ...clean, feature: 'checkout', soThat: '' }),
+      story('z', { ...clean, soThat: '' }),
+    ];
+    const report = lintStories(stories, resolveLintRules());
+    expect(report.problems.map((p) => `${p.feature}/${p.storyId}`)).toEqual([
+      'backlog/z',
+      'checkout/a',
+      'checkout/b',
+    ]);
+    expect(report).toMatchObject({ storyCount: 3, errorCount: 0, warningCount: 3 });
+  });
+});
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { LintSeverity, type LintConfig, type Story } from '../models/index.js';
+import type { InvalidFile } from '../storage/index.js';
+import { LINT_RULES, type LintRule, type LintRuleSeverity } from './rules.js';
+
+export interface ResolvedLintRule {
+  rule: LintRule;
+  severity: LintRuleSeverity;
+  options: unknown;
+}
+
+export interface LintProblem {
+  storyId: string;
+  feature: string;
+  rule: string;
+  severity: LintRuleSeverity;
+  message: string;
+}
+
+export interface LintReport {
+  storyCount: number;
+  errorCount: number;
+  warningCount: number;
+  problems: LintProblem[];
+}
+
+// A rule is set with a severity ("error", "warning", "off") or an object of
+// options, which may include a severity
+const RuleSettingSchema = z.union([
+  LintSeverity,
+  z.looseObject({ severity: LintSeverity.optional() }),
+]);
+
+// Active rules with their severity and options from one-p.yaml; throws on unknown rules or bad options
+export function resolveLintRules(config?: LintConfig): ResolvedLintRule[] {
+  const settings = config?.rules || {};
+  const known = new Set(LINT_RULES.map((r) => r.id));
+
+  const unknown = Object.keys(settings).filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown lint rule(s) in one-p.yaml: ${unknown.join(', ')}. Available: ${[...known].join(', ')}`
+    );
+  }
+
+  const resolved: ResolvedLintRule[] = [];
+  for (const rule of LINT_RULES) {
+    const setting = settings[rule.id];
+    let severity: LintSeverity = rule.severity;
+    let rawOptions: Record<string, unknown> = {};
+
+    if (setting !== undefined) {
+      const parsed = RuleSettingSchema.safeParse(setting);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid setting for lint rule "${rule.id}": use ${LintSeverity.options.join(', ')} or an object of options`
+        );
+      }
+      if (typeof parsed.data === 'string') {
+        severity = parsed.data;
+      } else {
+        const { severity: configured, ...rest } = parsed.data;
+        severity = configured || severity;
+        rawOptions = rest;
+      }
+    }
+
+    if (severity === 'off') continue;
+
+    const options = rule.options.safeParse(rawOptions);
+    if (!options.success) {
+      const issue = options.error.issues[0];
+      const where = issue.path.length > 0 ? ` "${issue.path.join('.')}"` : '';
+      throw new Error(`Invalid option${where} for lint rule "${rule.id}": ${issue.message}`);
+    }
+    resolved.push({ rule, severity, options: options.data });
+  }
+
+  return resolved;
+}
+
+// Run the rules over the stories; problems are ordered by feature, story, then rule order
+// Story files that could not be read are reported as errors rather than skipped
+export function lintStories(
+  stories: Story[],
+  rules: ResolvedLintRule[],
+  invalidFiles: InvalidFile[] = []
+): LintReport {
+  const problems: LintProblem[] = [];
+  const invalidStories = invalidFiles.filter((file) => file.entity === 'story');
+
+  for (const file of invalidStories) {
+    for (const issue of file.issues) {
+      problems.push({
+        storyId: file.id,
+        feature: file.feature || 'backlog',
+        rule: 'invalid-file',
+        severity: 'error',
+        message: issue.path ? `${issue.path}: ${issue.message}` : issue.message,
+      });
+    }
+  }
+
+  const ordered = [...stories].sort(
+    (a, b) => (a.feature || 'backlog').localeCompare(b.feature || 'backlog') || a.id.localeCompare(b.id)
+  );
+
+  for (const story of ordered) {
+    for (const { rule, severity, options } of rules) {
+      for (const message of rule.check(story, options)) {
+        problems.push({
+          storyId: story.id,
+          feature: story.feature || 'backlog',
+          rule: rule.id,
+          severity,
+          message,
+        });
+      }
+    }
+  }
+
+  // Keep each story's problems together, unreadable files among the rest
+  problems.sort((a, b) => a.feature.localeCompare(b.feature) || a.storyId.localeCompare(b.storyId));
+
+  return {
+    storyCount: stories.length + invalidStories.length,
+    errorCount: problems.filter((p) => p.severity === 'error').length,
+    warningCount: problems.filter((p) => p.severity === 'warning').length,
+    problems,
+  };
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import type { Story } from '../models/index.js';
+
+export type LintRuleSeverity = 'error' | 'warning';
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintRuleSeverity;
+  // Rule options with their defaults; unknown keys are rejected
+  options: z.ZodType;
+  // One message per problem found in the story
+  check: (story: Story, options: unknown) => string[];
+}
+
+function defineRule<S extends z.ZodType>(rule: {
+  id: string;
+  description: string;
+  severity: LintRuleSeverity;
+  options: S;
+  check: (story: Story, options: z.output<S>) => string[];
+}): LintRule {
+  return { ...rule, check: (story, options) => rule.check(story, options as z.output<S>) };
+}
+
+// Words that make a criterion hard to test
+export const DEFAULT_VAGUE_WORDS = [
+  'fast',
+  'quick',
+  'quickly',
+  'user-friendly',
+  'easy',
+  'easily',
+  'simple',
+  'intuitive',
+  'seamless',
+  'efficient',
+  'robust',
+  'flexible',
+  'appropriate',
+  'as needed',
+  'etc',
+  'and/or',
+  'some',
+  'several',
+  'many',
+  'modern',
+  'nice',
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const LINT_RULES: LintRule[] = [
+  defineRule({
+    id: 'missing-benefit',
+    description: 'User stories need a "so that" benefit',
+    severity: 'warning',
+    options: z.object({}).strict(),
+    check: (story) =>
+      story.type === 'user-story' && !story.soThat?.trim()
+        ? ['Missing "so that": say what the user gains']
+        : [],
+  }),
+  defineRule({
+    id: 'min-acceptance-criteria',
+    description: 'Stories need at least a minimum number of acceptance criteria',
+    severity: 'error',
+    options: z.object({ min: z.number().int().min(1).default(2) }).strict(),
+    check: (story, { min }) => {
+      const count = story.acceptanceCriteria.filter((ac) => ac.text.trim()).length;
+      return count < min
+        ? [`Has ${count} acceptance ${count === 1 ? 'criterion' : 'criteria'}; needs at least ${min}`]
+        : [];
+    },
+  }),
+  defineRule({
+    id: 'vague-criteria',
+    description: 'Acceptance criteria should not use untestable words like "fast"',
+    severity: 'warning',
+    options: z.object({ words: z.array(z.string().min(1)).default(DEFAULT_VAGUE_WORDS) }).strict(),
+    check: (story, { words }) => {
+      const patterns = words.map((word) => ({
+        word,
+        pattern: new RegExp(`(^|[^\\w-])${escapeRegExp(word)}(?=$|[^\\w-])`, 'i'),
+      }));
+      const messages: string[] = [];
+      story.acceptanceCriteria.forEach((ac, i) => {
+        const found = patterns.filter(({ pattern }) => pattern.test(ac.text)).map((p) => p.word);
+        if (found.length > 0) {
+          messages.push(
+            `Criterion ${i + 1} uses vague wording: ${found.map((w) => `"${w}"`).join(', ')}`
+          );
+        }
+      });
+      return messages;
+    },
+  }),
+  defineRule({
+    id: 'title-length',
+    description: 'Titles should be short enough to scan',
+    severity: 'warning',
+    options: z.object({ max: z.number().int().min(1).default(80) }).strict(),
+    check: (story, { max }) =>
+      story.title.length > max ? [`Title is ${story.title.length} characters; keep it under ${max}`] : [],
+  }),
+  defineRule({
+    id: 'ready-open-questions',
+    description: 'Ready stories should have no open questions left, and none blank',
+    severity: 'warning',
+    options: z.object({}).strict(),
+    check: (story) => {
+      const messages: string[] = [];
+      const blank = story.openQuestions.filter((q) => !q.trim()).length;
+      if (blank > 0) {
+        messages.push(`${blank} open question${blank === 1 ? ' is' : 's are'} blank`);
+      }
+      const open = story.openQuestions.length - blank;
+      if (story.status === 'ready' && open > 0) {
+        messages.push(`Marked ready with ${open} open question${open === 1 ? '' : 's'}`);
+      }
+      return messages;
+    },
+  }),
+  defineRule({
+    id: 'done-unchecked-criteria',
+    description: 'Done stories should have every acceptance criterion checked',
+    severity: 'error',
+    options: z.object({}).strict(),
+    check: (story) => {
+      const unchecked = story.acceptanceCriteria.filter((ac) => !ac.completed).length;
+      return story.status === 'done' && unchecked > 0
+        ? [`Marked done with ${unchecked} of ${story.acceptanceCriteria.length} criteria unchecked`]
+        : [];
+    },
+  }),
+];
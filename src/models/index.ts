@@ -19,6 +19,82 @@ export const AcceptanceCriterionSchema = z.object({
 });
 export type AcceptanceCriterion = z.infer<typeof AcceptanceCriterionSchema>;
 
+// INVEST criteria for story quality
+export const InvestScoreSchema = z.object({
+  score: z.number().min(1).max(10),
+  feedback: z.string(),
+});
+export type InvestScore = z.infer<typeof InvestScoreSchema>;
+
+export const InvestAnalysisSchema = z.object({
+  independent: InvestScoreSchema,
+  negotiable: InvestScoreSchema,
+  valuable: InvestScoreSchema,
+  estimable: InvestScoreSchema,
+  small: InvestScoreSchema,
+  testable: InvestScoreSchema,
+  overallScore: z.number(),
+  summary: z.string().optional(),
+  suggestions: z.array(z.string()).default([]),
+});
+export type InvestAnalysis = z.infer<typeof InvestAnalysisSchema>;
+
+// A stored review, kept with the story so scores can be compared over time
+export const StoryReviewSchema = z.object({
+  reviewedAt: z.string(),
+  model: z.string().optional(),
+  analysis: InvestAnalysisSchema,
+});
+export type StoryReview = z.infer<typeof StoryReviewSchema>;
+
+// Prioritisation scoring inputs, one optional block per model
+export const ScoringModel = z.enum(['rice', 'wsjf', 'moscow']);
+export type ScoringModel = z.infer<typeof ScoringModel>;
+
+export const RiceInputsSchema = z.object({
+  reach: z.number().min(0),
+  // 0.25 minimal, 0.5 low, 1 medium, 2 high, 3 massive
+  impact: z.number().min(0),
+  // 0-1, e.g. 0.8 for 80%
+  confidence: z.number().min(0).max(1),
+  // Person-months or points; must be positive
+  effort: z.number().positive(),
+});
+export type RiceInputs = z.infer<typeof RiceInputsSchema>;
+
+// Cost of delay components and job size, on a relative (e.g. Fibonacci) scale
+export const WsjfInputsSchema = z.object({
+  businessValue: z.number().min(0),
+  timeCriticality: z.number().min(0),
+  riskReduction: z.number().min(0),
+  jobSize: z.number().positive(),
+});
+export type WsjfInputs = z.infer<typeof WsjfInputsSchema>;
+
+export const MoscowCategory = z.enum(['must', 'should', 'could', 'wont']);
+export type MoscowCategory = z.infer<typeof MoscowCategory>;
+
+export const ScoringInputsSchema = z.object({
+  rice: RiceInputsSchema.optional(),
+  wsjf: WsjfInputsSchema.optional(),
+  moscow: MoscowCategory.optional(),
+});
+export type ScoringInputs = z.infer<typeof ScoringInputsSchema>;
+
+// A status change that skipped a failed Definition of Ready/Done with --force
+export const GateName = z.enum(['ready', 'done']);
+export type GateName = z.infer<typeof GateName>;
+
+export const GateOverrideSchema = z.object({
+  gate: GateName,
+  from: StoryStatus,
+  to: StoryStatus,
+  failures: z.array(z.string()),
+  reason: z.string().optional(),
+  overriddenAt: z.string(),
+});
+export type GateOverride = z.infer<typeof GateOverrideSchema>;
+
 // Story schema
 export const StorySchema = z.object({
   id: z.string(),
@@ -38,6 +114,11 @@ export const StorySchema = z.object({
   relatedStories: z.array(z.string()).default([]),
   estimate: z.string().optional(),
   tags: z.array(z.string()).default([]),
+  // Position in the ranked backlog, 1 = top; unranked stories sort after ranked ones
+  rank: z.number().int().positive().optional(),
+  scoring: ScoringInputsSchema.optional(),
+  reviews: z.array(StoryReviewSchema).default([]),
+  gateOverrides: z.array(GateOverrideSchema).default([]),
   createdAt: z.string().default(() => new Date().toISOString()),
   updatedAt: z.string().default(() => new Date().toISOString()),
 });
@@ -69,24 +150,167 @@ export const PersonaSchema = z.object({
 });
 export type Persona = z.infer<typeof PersonaSchema>;
 
+// Sprint schema - dates are YYYY-MM-DD, capacity and velocity are in story points
+export const SprintStatus = z.enum(['open', 'closed']);
+export type SprintStatus = z.infer<typeof SprintStatus>;
+
+export const SprintSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  goal: z.string().optional(),
+  startDate: z.string(),
+  endDate: z.string(),
+  capacity: z.number().min(0),
+  status: SprintStatus.default('open'),
+  stories: z.array(z.string()).default([]),
+  // Recorded when the sprint is closed
+  committedPoints: z.number().optional(),
+  velocity: z.number().optional(),
+  carriedOver: z.array(z.string()).default([]),
+  closedAt: z.string().optional(),
+  createdAt: z.string().default(() => new Date().toISOString()),
+  updatedAt: z.string().default(() => new Date().toISOString()),
+});
+export type Sprint = z.infer<typeof SprintSchema>;
+
+// Export configuration - maps CSV column headers to export fields, per format
+export const ExportConfigSchema = z.object({
+  csvColumns: z.record(z.string(), z.string()).optional(),
+  jiraColumns: z.record(z.string(), z.string()).optional(),
+});
+export type ExportConfig = z.infer<typeof ExportConfigSchema>;
+
+// AI configuration - which write tools apply without asking: true for all, or tool names
+export const AiConfigSchema = z.object({
+  autoApprove: z.union([z.boolean(), z.array(z.string())]).default(false),
+});
+export type AiConfig = z.infer<typeof AiConfigSchema>;
+
+// Search configuration - synonyms fold different phrasings of one idea into one
+// concept for semantic search, e.g. login: ["sign in", "log on"]
+export const SearchConfigSchema = z.object({
+  synonyms: z.record(z.string(), z.array(z.string())).default({}),
+});
+export type SearchConfig = z.infer<typeof SearchConfigSchema>;
+
+// Lint configuration - rule settings are checked by the linter so a bad rule
+// does not stop the rest of the project config from loading
+export const LintSeverity = z.enum(['error', 'warning', 'off']);
+export type LintSeverity = z.infer<typeof LintSeverity>;
+
+export const LintConfigSchema = z.object({
+  rules: z.record(z.string(), z.unknown()).default({}),
+});
+export type LintConfig = z.infer<typeof LintConfigSchema>;
+
+// Definition of Ready / Done - automatic rules plus a checklist the user confirms
+export const DefinitionRulesSchema = z
+  .object({
+    'no-open-questions': z.boolean().default(false),
+    'min-acceptance-criteria': z.number().int().min(0).default(0),
+    'has-estimate': z.boolean().default(false),
+    'all-criteria-checked': z.boolean().default(false),
+  })
+  .strict();
+
+export const DefinitionSchema = z
+  .object({
+    rules: DefinitionRulesSchema.default(DefinitionRulesSchema.parse({})),
+    checklist: z.array(z.string().min(1)).default([]),
+  })
+  .strict();
+export type Definition = z.infer<typeof DefinitionSchema>;
+
+export const WorkflowConfigSchema = z
+  .object({
+    definitionOfReady: DefinitionSchema.optional(),
+    definitionOfDone: DefinitionSchema.optional(),
+  })
+  .strict();
+export type WorkflowConfig = z.infer<typeof WorkflowConfigSchema>;
+
 // Project configuration schema
 export const ProjectConfigSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   personas: z.array(PersonaSchema).default([]),
   defaultPriority: Priority.default('medium'),
+  export: ExportConfigSchema.optional(),
+  lint: LintConfigSchema.optional(),
+  search: SearchConfigSchema.optional(),
+  ai: AiConfigSchema.optional(),
+  // Checked with WorkflowConfigSchema when a status changes, so a mistake is
+  // reported there instead of silently dropping the whole project config
+  workflow: z.unknown().optional(),
   createdAt: z.string().default(() => new Date().toISOString()),
 });
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
 
-// INVEST criteria for story quality
-export interface InvestAnalysis {
-  independent: { score: number; feedback: string };
-  negotiable: { score: number; feedback: string };
-  valuable: { score: number; feedback: string };
-  estimable: { score: number; feedback: string };
-  small: { score: number; feedback: string };
-  testable: { score: number; feedback: string };
-  overallScore: number;
-  suggestions: string[];
-}
+// Change history - one entry per write, appended to history.jsonl
+export const HistoryActorSchema = z.object({
+  type: z.enum(['cli', 'ai', 'import']),
+  // CLI user name, AI tool name or import format
+  name: z.string(),
+});
+export type HistoryActor = z.infer<typeof HistoryActorSchema>;
+
+export const FieldChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+});
+export type FieldChange = z.infer<typeof FieldChangeSchema>;
+
+export const HistoryEntrySchema = z.object({
+  at: z.string(),
+  actor: HistoryActorSchema,
+  action: z.enum(['create', 'update', 'move', 'delete']),
+  entity: z.enum(['story', 'feature', 'persona', 'sprint']),
+  id: z.string(),
+  feature: z.string().optional(),
+  changes: z.array(FieldChangeSchema).default([]),
+});
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+// Change set - the files one AI chat turn wrote, so the turn can be undone.
+// Paths are relative to the project; null content means the file did not exist.
+export const FileSnapshotSchema = z.object({
+  path: z.string(),
+  before: z.string().nullable(),
+  after: z.string().nullable(),
+});
+export type FileSnapshot = z.infer<typeof FileSnapshotSchema>;
+
+export const ChangeSetSchema = z.object({
+  id: z.string(),
+  sessionId: z.string().optional(),
+  // The user message that started the turn
+  label: z.string().default(''),
+  tools: z.array(z.string()).default([]),
+  files: z.array(FileSnapshotSchema).default([]),
+  createdAt: z.string(),
+  undoneAt: z.string().optional(),
+});
+export type ChangeSet = z.infer<typeof ChangeSetSchema>;
+
+// Session kind - which command started the conversation
+export const SessionKind = z.enum(['chat', 'story', 'feature']);
+export type SessionKind = z.infer<typeof SessionKind>;
+
+// Session message schema (content blocks are stored as returned by the API)
+export const SessionMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.union([z.string(), z.array(z.record(z.string(), z.unknown()))]),
+});
+export type SessionMessage = z.infer<typeof SessionMessageSchema>;
+
+// Session schema
+export const SessionSchema = z.object({
+  id: z.string(),
+  kind: SessionKind.default('chat'),
+  title: z.string().optional(),
+  messages: z.array(SessionMessageSchema).default([]),
+  createdAt: z.string().default(() => new Date().toISOString()),
+  updatedAt: z.string().default(() => new Date().toISOString()),
+});
+export type Session = z.infer<typeof SessionSchema>;
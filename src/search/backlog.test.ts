@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureSchema } from '../models/index.js';
+import { story } from '../testing/fixtures.js';
+import { searchStoryList, searchFeatureList } from './backlog.js';
+
+const stories = [
+  story('reset-password', {
+    title: 'Reset a forgotten password',
+    status: 'ready',
+    tags: ['auth'],
+    acceptanceCriteria: [{ text: 'A reset link is emailed', completed: false }],
+  }),
+  story('pay-by-card', {
+    title: 'Pay by card',
+    status: 'draft',
+    priority: 'high',
+    iWant: 'to save my password manager card details',
+    tags: ['payments'],
+  }),
+  story('wishlist', { title: 'Keep a wishlist', priority: 'low', tags: ['later'] }),
+];
+
+const ids = (results: Array<{ item: { id: string } }>) => results.map((r) => r.item.id);
+
+describe('searchStoryList', () => {
+  it('ranks a title match above a match in the story text', () => {
+    expect(ids(searchStoryList(stories, 'password'))).toEqual(['reset-password', 'pay-by-card']);
+  });
+
+  it('requires every term and phrase to match', () => {
+    expect(ids(searchStoryList(stories, 'password card'))).toEqual(['pay-by-card']);
+    expect(ids(searchStoryList(stories, '"reset link"'))).toEqual(['reset-password']);
+  });
+
+  it('matches plurals, prefixes and small typos', () => {
+    expect(ids(searchStoryList(stories, 'cards'))).toEqual(['pay-by-card']);
+    expect(ids(searchStoryList(stories, 'wish'))).toEqual(['wishlist']);
+    expect(ids(searchStoryList(stories, 'pasword'))).toContain('reset-password');
+  });
+
+  it('drops excluded terms and applies filters', () => {
+    expect(ids(searchStoryList(stories, 'password -card'))).toEqual(['reset-password']);
+    expect(ids(searchStoryList(stories, 'password status:draft'))).toEqual(['pay-by-card']);
+    expect(ids(searchStoryList(stories, 'password -tag:auth'))).toEqual(['pay-by-card']);
+  });
+
+  it('compares feature and persona filters without regard to case', () => {
+    const mixed = [
+      story('refund', { feature: 'Checkout', persona: 'Store-Manager' }),
+      story('other', { feature: 'checkout-v2' }),
+    ];
+    expect(ids(searchStoryList(mixed, 'feature:checkout'))).toEqual(['refund']);
+    expect(ids(searchStoryList(mixed, 'persona:store-manager'))).toEqual(['refund']);
+    expect(ids(searchStoryList(mixed, '-feature:CHECKOUT'))).toEqual(['other']);
+  });
+
+  it('orders filter-only results by priority', () => {
+    expect(ids(searchStoryList(stories, 'status:draft'))).toEqual(['pay-by-card', 'wishlist']);
+  });
+
+  it('highlights the matched words in the snippet', () => {
+    const [result] = searchStoryList(stories, 'emailed');
+    expect(result.snippet?.field).toBe('acceptance criteria');
+    const { text, highlights } = result.snippet!;
+    expect(highlights.map(([start, end]) => text.slice(start, end))).toEqual(['emailed']);
+  });
+});
+
+describe('searchFeatureList', () => {
+  const features = [FeatureSchema.parse({ id: 'auth', title: 'Authentication', tags: ['auth'] })];
+
+  it('returns no features for story-only filters', () => {
+    expect(searchFeatureList(features, 'type:bug')).toEqual([]);
+    expect(ids(searchFeatureList(features, 'authentication'))).toEqual(['auth']);
+  });
+});
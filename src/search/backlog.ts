@@ -0,0 +1,125 @@
+import type { Story, Feature, Priority } from '../models/index.js';
+import { parseSearchQuery, hasTextCriteria, type SearchQuery, type SearchFilter } from './query.js';
+import { rankDocuments, type SearchDocument, type SearchResult } from './rank.js';
+
+// Filters that only make sense for stories
+const STORY_ONLY_FILTERS = new Set(['type', 'persona']);
+
+const PRIORITY_ORDER: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+function storyDocument(story: Story): SearchDocument<Story> {
+  return {
+    item: story,
+    fields: [
+      { name: 'title', text: story.title, weight: 3 },
+      {
+        name: 'story',
+        text: [
+          story.asA && `As a ${story.asA}`,
+          story.iWant && `I want ${story.iWant}`,
+          story.soThat && `so that ${story.soThat}`,
+        ]
+          .filter(Boolean)
+          .join(', '),
+        weight: 2,
+      },
+      {
+        name: 'acceptance criteria',
+        text: story.acceptanceCriteria.map((ac) => ac.text).join('. '),
+        weight: 1.5,
+      },
+      {
+        name: 'notes',
+        text: [...story.openQuestions, ...story.edgeCases].join('. '),
+        weight: 1,
+      },
+      { name: 'tags', text: story.tags.join(' '), weight: 1 },
+    ],
+  };
+}
+
+function featureDocument(feature: Feature): SearchDocument<Feature> {
+  return {
+    item: feature,
+    fields: [
+      { name: 'title', text: feature.title, weight: 3 },
+      { name: 'description', text: feature.description || '', weight: 1.5 },
+      { name: 'success criteria', text: feature.successCriteria.join('. '), weight: 1 },
+      { name: 'tags', text: feature.tags.join(' '), weight: 1 },
+    ],
+  };
+}
+
+function filterValues(item: Story | Feature, filter: SearchFilter): string[] {
+  switch (filter.field) {
+    case 'status':
+      return [item.status];
+    case 'priority':
+      return [item.priority];
+    case 'tag':
+      return item.tags;
+    case 'feature':
+      return 'stories' in item ? [item.id] : [item.feature || 'backlog'];
+    case 'type':
+      return 'type' in item ? [item.type] : [];
+    case 'persona':
+      return 'persona' in item && item.persona ? [item.persona] : [];
+  }
+}
+
+// Filter values are lower-cased when parsed, so compare the item's values the same way
+export function matchesFilters(item: Story | Feature, filters: SearchFilter[]): boolean {
+  return filters.every((filter) => {
+    const values = filterValues(item, filter).map((v) => v.toLowerCase());
+    const matches = filter.values.some((v) => values.includes(v));
+    return filter.negated ? !matches : matches;
+  });
+}
+
+// With only filters there is nothing to rank by, so order by priority, then most recent
+function unranked<T extends Story | Feature>(items: T[]): Array<SearchResult<T>> {
+  return [...items]
+    .sort(
+      (a, b) =>
+        PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+        b.updatedAt.localeCompare(a.updatedAt)
+    )
+    .map((item) => ({ item, score: 0 }));
+}
+
+function toQuery(query: string | SearchQuery): SearchQuery {
+  return typeof query === 'string' ? parseSearchQuery(query) : query;
+}
+
+// Filter and rank stories for a query such as `status:ready tag:auth "password reset"`
+export function searchStoryList(
+  stories: Story[],
+  query: string | SearchQuery
+): Array<SearchResult<Story>> {
+  const parsed = toQuery(query);
+  const filtered = stories.filter((story) => matchesFilters(story, parsed.filters));
+
+  if (!hasTextCriteria(parsed)) {
+    return unranked(rankDocuments(filtered.map(storyDocument), parsed).map((r) => r.item));
+  }
+  return rankDocuments(filtered.map(storyDocument), parsed);
+}
+
+// Features match the same queries; story-only filters (type, persona) exclude them
+export function searchFeatureList(
+  features: Feature[],
+  query: string | SearchQuery
+): Array<SearchResult<Feature>> {
+  const parsed = toQuery(query);
+  if (parsed.filters.some((f) => STORY_ONLY_FILTERS.has(f.field) && !f.negated)) {
+    return [];
+  }
+
+  const filters = parsed.filters.filter((f) => !STORY_ONLY_FILTERS.has(f.field));
+  const filtered = features.filter((feature) => matchesFilters(feature, filters));
+
+  if (!hasTextCriteria(parsed)) {
+    return unranked(rankDocuments(filtered.map(featureDocument), parsed).map((r) => r.item));
+  }
+  return rankDocuments(filtered.map(featureDocument), parsed);
+}
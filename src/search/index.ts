@@ -0,0 +1,32 @@
+export { tokenize, tokenizeWithOffsets, storyText, type TextToken } from './text.js';
+export {
+  findSimilarStories,
+  clusterSimilarStories,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  type SimilarStory,
+  type StoryCluster,
+} from './similarity.js';
+export {
+  parseSearchQuery,
+  hasTextCriteria,
+  SEARCH_FILTER_FIELDS,
+  type SearchQuery,
+  type SearchFilter,
+  type SearchFilterField,
+} from './query.js';
+export {
+  rankDocuments,
+  type SearchDocument,
+  type SearchField,
+  type SearchResult,
+  type SearchSnippet,
+} from './rank.js';
+export { searchStoryList, searchFeatureList, matchesFilters } from './backlog.js';
+export {
+  buildSemanticIndex,
+  querySemanticIndex,
+  SEMANTIC_INDEX_VERSION,
+  type SemanticIndex,
+  type SemanticDocument,
+  type SemanticMatch,
+} from './semantic.js';
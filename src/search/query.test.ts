@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, hasTextCriteria } from './query.js';
+
+describe('parseSearchQuery', () => {
+  it('splits terms, phrases, exclusions and filters', () => {
+    const query = 'status:ready priority:high,critical tag:auth "Password  Reset" -draft -"old flow" login';
+    expect(parseSearchQuery(query)).toEqual({
+      terms: ['login'],
+      phrases: ['password reset'],
+      excludedTerms: ['draft'],
+      excludedPhrases: ['old flow'],
+      filters: [
+        { field: 'status', values: ['ready'], negated: false },
+        { field: 'priority', values: ['high', 'critical'], negated: false },
+        { field: 'tag', values: ['auth'], negated: false },
+      ],
+    });
+  });
+
+  it('negates filters and accepts quoted filter values', () => {
+    const query = parseSearchQuery('-status:done feature:"checkout"');
+    expect(query.filters).toEqual([
+      { field: 'status', values: ['done'], negated: true },
+      { field: 'feature', values: ['checkout'], negated: false },
+    ]);
+  });
+
+  it('searches unknown fields as text', () => {
+    expect(parseSearchQuery('url:http').terms).toEqual(['url:http']);
+  });
+
+  it('rejects values outside a fixed set', () => {
+    expect(() => parseSearchQuery('status:started')).toThrow('Unknown status "started"');
+  });
+
+  it('rejects a query made only of common words', () => {
+    expect(() => parseSearchQuery('the and')).toThrow('Query too broad: "the and"');
+    expect(() => parseSearchQuery('status:ready a')).toThrow('Query too broad');
+    expect(parseSearchQuery('the login').terms).toEqual(['the', 'login']);
+    expect(parseSearchQuery('"the end"').phrases).toEqual(['the end']);
+  });
+
+  it('treats a filter-only query as having no text criteria', () => {
+    expect(hasTextCriteria(parseSearchQuery('status:ready'))).toBe(false);
+    expect(hasTextCriteria(parseSearchQuery('"card"'))).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { StoryStatus, Priority, StoryType } from '../models/index.js';
+import { tokenize } from './text.js';
+
+export const SEARCH_FILTER_FIELDS = ['status', 'priority', 'tag', 'feature', 'type', 'persona'] as const;
+export type SearchFilterField = (typeof SEARCH_FILTER_FIELDS)[number];
+
+export interface SearchFilter {
+  field: SearchFilterField;
+  // Any of the values matches
+  values: string[];
+  negated: boolean;
+}
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  filters: SearchFilter[];
+}
+
+// Values a filter accepts, where the set is fixed
+const FILTER_VALUES: Partial<Record<SearchFilterField, readonly string[]>> = {
+  status: StoryStatus.options,
+  priority: Priority.options,
+  type: StoryType.options,
+};
+
+// -?field:value, -?"phrase" or -?word
+const QUERY_TOKEN = /(-?)(?:([a-z]+):("[^"]*"|\S+)|"([^"]*)"?|(\S+))/gi;
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, '');
+}
+
+// Parse e.g. `status:ready priority:high,critical tag:auth "password reset" -draft`
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    filters: [],
+  };
+
+  for (const match of query.matchAll(QUERY_TOKEN)) {
+    const [, minus, field, value, phrase, word] = match;
+    const negated = minus === '-';
+
+    if (field) {
+      const name = field.toLowerCase();
+      if (!(SEARCH_FILTER_FIELDS as readonly string[]).includes(name)) {
+        // Not a filter, so search for it as text
+        (negated ? parsed.excludedTerms : parsed.terms).push(`${field}:${unquote(value)}`);
+        continue;
+      }
+
+      const values = unquote(value)
+        .split(',')
+        .map((v) => v.trim().toLowerCase())
+        .filter(Boolean);
+      const allowed = FILTER_VALUES[name as SearchFilterField];
+      const unknown = allowed ? values.filter((v) => !allowed.includes(v)) : [];
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown ${name} "${unknown.join(', ')}". Use one of: ${(allowed as readonly string[]).join(', ')}.`
+        );
+      }
+
+      parsed.filters.push({ field: name as SearchFilterField, values, negated });
+    } else if (phrase !== undefined) {
+      const normalized = phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+      if (normalized) {
+        (negated ? parsed.excludedPhrases : parsed.phrases).push(normalized);
+      }
+    } else if (word) {
+      (negated ? parsed.excludedTerms : parsed.terms).push(word.toLowerCase());
+    }
+  }
+
+  // Common words are not matched on, so a query made only of them would match everything
+  const words = parsed.terms.flatMap(tokenize);
+  if (parsed.terms.length > 0 && words.length === 0 && parsed.phrases.length === 0) {
+    throw new Error(
+      `Query too broad: "${parsed.terms.join(' ')}" only has common words. Add a more specific word.`
+    );
+  }
+
+  return parsed;
+}
+
+// True when the query has text to rank by, not just filters
+export function hasTextCriteria(query: SearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
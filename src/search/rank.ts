@@ -0,0 +1,219 @@
+import { tokenize, tokenizeWithOffsets } from './text.js';
+import type { SearchQuery } from './query.js';
+
+export interface SearchField {
+  name: string;
+  text: string;
+  // How much a match in this field counts, relative to 1
+  weight: number;
+}
+
+export interface SearchDocument<T> {
+  item: T;
+  fields: SearchField[];
+}
+
+export interface SearchSnippet {
+  field: string;
+  text: string;
+  // [start, end) ranges of matched words within text
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  snippet?: SearchSnippet;
+}
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Credit for a term that only matches by prefix or by a typo
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.5;
+
+const SNIPPET_LENGTH = 120;
+
+interface PreparedDocument<T> {
+  document: SearchDocument<T>;
+  // Weighted count of each token over all fields
+  frequencies: Map<string, number>;
+  length: number;
+  texts: string[];
+}
+
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Vocabulary tokens a query token matches, with how much each match counts
+function expandToken(token: string, vocabulary: Iterable<string>): Map<string, number> {
+  const expansions = new Map<string, number>();
+  const maxEdits = token.length >= 8 ? 2 : 1;
+
+  for (const candidate of vocabulary) {
+    if (candidate === token) {
+      expansions.set(candidate, 1);
+    } else if (token.length >= 3 && candidate.startsWith(token)) {
+      expansions.set(candidate, PREFIX_MATCH);
+    } else if (token.length >= 4 && editDistance(token, candidate, maxEdits) <= maxEdits) {
+      expansions.set(candidate, FUZZY_MATCH);
+    }
+  }
+
+  return expansions;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Cut a window of the field around the first match and record the matched words
+function buildSnippet(field: SearchField, matched: Set<string>): SearchSnippet | undefined {
+  const text = field.text.replace(/\s+/g, ' ').trim();
+  const hits = tokenizeWithOffsets(text).filter((t) => matched.has(t.token));
+  if (hits.length === 0) return undefined;
+
+  // Start a little before the first match, on a word boundary
+  const first = hits[0];
+  let start = Math.max(0, first.start - 30);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < first.start ? space + 1 : start;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > first.end ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights = hits
+    .filter((t) => t.start >= start && t.end <= end)
+    .map((t): [number, number] => [t.start - start + prefix.length, t.end - start + prefix.length]);
+
+  return { field: field.name, text: prefix + text.slice(start, end) + suffix, highlights };
+}
+
+// Rank documents for the query's text criteria with BM25; every term and phrase must match
+export function rankDocuments<T>(
+  documents: Array<SearchDocument<T>>,
+  query: SearchQuery
+): Array<SearchResult<T>> {
+  const prepared: Array<PreparedDocument<T>> = documents.map((document) => {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const field of document.fields) {
+      for (const token of tokenize(field.text)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + field.weight);
+        length += field.weight;
+      }
+    }
+    return {
+      document,
+      frequencies,
+      length,
+      texts: document.fields.map((f) => normalizeText(f.text)),
+    };
+  });
+
+  // Exclusions drop documents before ranking
+  const excludedTokens = query.excludedTerms.flatMap(tokenize);
+  const candidates = prepared.filter(
+    (doc) =>
+      !excludedTokens.some((token) => doc.frequencies.has(token)) &&
+      !query.excludedPhrases.some((phrase) => doc.texts.some((text) => text.includes(phrase)))
+  );
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of prepared) {
+    for (const token of doc.frequencies.keys()) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  const count = prepared.length;
+  const averageLength = prepared.reduce((sum, doc) => sum + doc.length, 0) / (count || 1) || 1;
+
+  const bm25 = (token: string, doc: PreparedDocument<T>): number => {
+    const frequency = doc.frequencies.get(token) || 0;
+    if (frequency === 0) return 0;
+    const df = documentFrequency.get(token) || 0;
+    const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+    return (
+      (idf * frequency * (K1 + 1)) /
+      (frequency + K1 * (1 - B + (B * doc.length) / averageLength))
+    );
+  };
+
+  const queryTokens = [...new Set(query.terms.flatMap(tokenize))];
+  const expansions = queryTokens.map((token) => expandToken(token, documentFrequency.keys()));
+  const phraseTokens = query.phrases.map(tokenize);
+
+  const results: Array<SearchResult<T>> = [];
+
+  for (const doc of candidates) {
+    if (!query.phrases.every((phrase) => doc.texts.some((text) => text.includes(phrase)))) {
+      continue;
+    }
+
+    let score = 0;
+    let matchesAll = true;
+    const matched = new Set<string>();
+
+    for (const expansion of expansions) {
+      let best = 0;
+      for (const [token, factor] of expansion) {
+        const tokenScore = factor * bm25(token, doc);
+        if (tokenScore > 0) {
+          matched.add(token);
+          best = Math.max(best, tokenScore);
+        }
+      }
+      if (best === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += best;
+    }
+    if (!matchesAll) continue;
+
+    for (const tokens of phraseTokens) {
+      for (const token of tokens) {
+        matched.add(token);
+        score += bm25(token, doc);
+      }
+    }
+
+    // The snippet comes from the field with the most weighted matches
+    let snippet: SearchSnippet | undefined;
+    let bestFieldScore = 0;
+    for (const field of doc.document.fields) {
+      const fieldScore = tokenize(field.text).filter((t) => matched.has(t)).length * field.weight;
+      if (fieldScore > bestFieldScore) {
+        bestFieldScore = fieldScore;
+        snippet = buildSnippet(field, matched);
+      }
+    }
+
+    results.push({ item: doc.document.item, score: Math.round(score * 100) / 100, snippet });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { saveProjectConfig } from '../config/index.js';
+import { FeatureSchema, ProjectConfigSchema } from '../models/index.js';
+import { StorageManager } from '../storage/index.js';
+import { story, createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { buildSemanticIndex, querySemanticIndex, SEMANTIC_INDEX_VERSION } from './semantic.js';
+
+const stories = [
+  story('login', {
+    title: 'Login with email',
+    iWant: 'to log in with my email and password',
+    acceptanceCriteria: [{ text: 'A wrong password shows an error', completed: false }],
+  }),
+  story('remember-me', {
+    title: 'Stay signed in',
+    iWant: 'my session to last a week on trusted devices',
+    acceptanceCriteria: [{ text: 'The session cookie expires after a week', completed: false }],
+  }),
+  story('lockout', {
+    title: 'Lock the account after failed attempts',
+    iWant: 'accounts locked after five wrong passwords',
+    acceptanceCriteria: [{ text: 'Five wrong passwords lock the account', completed: false }],
+  }),
+  story('wishlist', {
+    title: 'Keep a wishlist',
+    iWant: 'to save products for later',
+    acceptanceCriteria: [{ text: 'Saved products stay in the wishlist', completed: false }],
+  }),
+  story('gift-cards', {
+    title: 'Pay with a gift card',
+    iWant: 'to redeem gift card codes at checkout',
+    acceptanceCriteria: [{ text: 'Gift card balance is taken off the total', completed: false }],
+  }),
+];
+
+const features = [
+  FeatureSchema.parse({
+    id: 'accounts',
+    title: 'Accounts',
+    description: 'Login, sessions and account security',
+  }),
+];
+
+describe('buildSemanticIndex', () => {
+  it('keeps one unit vector per story and feature in a reduced space', () => {
+    const index = buildSemanticIndex(stories, features, 'fp');
+    expect(index).toMatchObject({ version: SEMANTIC_INDEX_VERSION, fingerprint: 'fp' });
+    expect(index.documents.map((d) => `${d.kind}:${d.id}`)).toEqual([
+      'story:login',
+      'story:remember-me',
+      'story:lockout',
+      'story:wishlist',
+      'story:gift-cards',
+      'feature:accounts',
+    ]);
+
+    const dimensions = index.projection[0].length;
+    expect(dimensions).toBeLessThanOrEqual(index.documents.length);
+    expect(index.projection).toHaveLength(index.terms.length);
+    for (const doc of index.documents) {
+      expect(doc.vector).toHaveLength(dimensions);
+      const norm = Math.sqrt(doc.vector.reduce((sum, v) => sum + v * v, 0));
+      expect(norm).toBeCloseTo(1, 3);
+    }
+  });
+
+  it('gives the same index for the same stories', () => {
+    const { builtAt: _a, ...first } = buildSemanticIndex(stories, features, 'fp');
+    const { builtAt: _b, ...second } = buildSemanticIndex(stories, features, 'fp');
+    expect(second).toEqual(first);
+  });
+
+  it('weights rare words above common ones', () => {
+    const index = buildSemanticIndex(stories, features, 'fp');
+    const idf = (term: string) => index.idf[index.terms.indexOf(term)];
+    expect(idf('wishlist')).toBeGreaterThan(idf('password'));
+  });
+});
+
+describe('querySemanticIndex', () => {
+  const index = buildSemanticIndex(stories, features, 'fp');
+
+  it('ranks the closest documents first and leaves unrelated ones out', () => {
+    const matches = querySemanticIndex(index, 'wrong password');
+    const ids = matches.map((m) => m.id);
+    expect(ids.slice(0, 2).sort()).toEqual(['lockout', 'login']);
+    expect(ids).not.toContain('gift-cards');
+    expect(matches.map((m) => m.score)).toEqual(
+      [...matches.map((m) => m.score)].sort((a, b) => b - a)
+    );
+  });
+
+  it('folds the configured phrasings of a concept into one word', () => {
+    const synonyms = { login: ['sign in', 'log in'] };
+    const withSynonyms = buildSemanticIndex(stories, features, 'fp', synonyms);
+    expect(withSynonyms.synonyms).toEqual(synonyms);
+
+    const ids = querySemanticIndex(withSynonyms, 'sign-in').map((m) => m.id);
+    expect(ids).toContain('login');
+    expect(querySemanticIndex(index, 'sign-in').map((m) => m.id)).not.toContain('login');
+  });
+
+  it('returns nothing for words the index has never seen', () => {
+    expect(querySemanticIndex(index, 'kubernetes')).toEqual([]);
+  });
+
+  it('applies the limit and minimum score', () => {
+    expect(querySemanticIndex(index, 'password', { limit: 1 })).toHaveLength(1);
+    expect(querySemanticIndex(index, 'password', { minScore: 1.01 })).toEqual([]);
+  });
+});
+
+describe('StorageManager.getSemanticIndex', () => {
+  let projectPath: string;
+  let storage: StorageManager;
+
+  beforeEach(async () => {
+    projectPath = createTempProject();
+    storage = new StorageManager(projectPath);
+    for (const item of stories.slice(0, 3)) {
+      await storage.createStory(item);
+    }
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+  });
+
+  it('stores the index in the project and reuses it until a file changes', async () => {
+    const first = await storage.getSemanticIndex();
+    expect(fs.existsSync(path.join(projectPath, 'index', 'semantic.json'))).toBe(true);
+    expect(await storage.getSemanticIndex()).toEqual(first);
+
+    await storage.createStory(stories[3]);
+    const rebuilt = await storage.getSemanticIndex();
+    expect(rebuilt.fingerprint).not.toBe(first.fingerprint);
+    expect(rebuilt.documents.map((d) => d.id)).toContain('wishlist');
+  });
+
+  it('rebuilds the index when the synonyms in one-p.yaml change', async () => {
+    saveProjectConfig(projectPath, ProjectConfigSchema.parse({ name: 'test' }));
+    expect((await storage.getSemanticIndex()).synonyms).toEqual({});
+
+    const synonyms = { login: ['sign in'] };
+    saveProjectConfig(
+      projectPath,
+      ProjectConfigSchema.parse({ name: 'test', search: { synonyms } })
+    );
+    expect((await storage.getSemanticIndex()).synonyms).toEqual(synonyms);
+  });
+
+  it('writes nothing while writes are staged', async () => {
+    storage.beginStaging();
+    expect((await storage.getSemanticIndex()).documents).toHaveLength(3);
+    expect(fs.existsSync(path.join(projectPath, 'index'))).toBe(false);
+  });
+
+  it('rebuilds an index it cannot read', async () => {
+    await storage.getSemanticIndex();
+    fs.writeFileSync(path.join(projectPath, 'index', 'semantic.json'), '{', 'utf-8');
+    expect((await storage.getSemanticIndex()).documents).toHaveLength(3);
+  });
+});
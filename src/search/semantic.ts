@@ -0,0 +1,262 @@
+import type { Story, Feature } from '../models/index.js';
+import { tokenize, storyText } from './text.js';
+
+// Bump when the index format or the vectoriser changes so old indexes are rebuilt
+export const SEMANTIC_INDEX_VERSION = 2;
+
+// Latent dimensions kept by LSA
+const MAX_DIMENSIONS = 64;
+const ITERATIONS = 12;
+
+export interface SemanticDocument {
+  kind: 'story' | 'feature';
+  id: string;
+  feature?: string;
+  vector: number[];
+}
+
+// Concept -> phrasings of it, e.g. { login: ["sign in", "log on"] }, from one-p.yaml
+export type Synonyms = Record<string, string[]>;
+
+export interface SemanticIndex {
+  version: number;
+  // Identifies the files the index was built from
+  fingerprint: string;
+  builtAt: string;
+  // Queries are folded with the same synonyms as the documents
+  synonyms: Synonyms;
+  terms: string[];
+  idf: number[];
+  // Term -> latent space projection, one row per term
+  projection: number[][];
+  documents: SemanticDocument[];
+}
+
+export interface SemanticMatch {
+  kind: 'story' | 'feature';
+  id: string;
+  feature?: string;
+  score: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// One pattern per phrasing, longest first so a short phrasing cannot split a longer one.
+// Words of a phrasing may be joined by spaces, hyphens or nothing: "sign in", "sign-in", "signin".
+function synonymPatterns(synonyms: Synonyms): Array<[RegExp, string]> {
+  return Object.entries(synonyms)
+    .flatMap(([concept, phrases]) => phrases.map((phrase) => ({ concept, phrase: phrase.trim() })))
+    .filter(({ phrase }) => phrase)
+    .sort((a, b) => b.phrase.length - a.phrase.length)
+    .map(({ concept, phrase }) => {
+      const words = phrase.split(/[\s-]+/).map(escapeRegExp);
+      return [new RegExp(`\\b${words.join('[\\s-]*')}\\b`, 'gi'), concept];
+    });
+}
+
+// Fold each phrasing of a concept into the concept's name before vectorising
+function semanticTokens(text: string, patterns: Array<[RegExp, string]>): string[] {
+  let folded = text;
+  for (const [pattern, concept] of patterns) {
+    folded = folded.replace(pattern, ` ${concept} `);
+  }
+  return tokenize(folded);
+}
+
+function featureText(feature: Feature): string {
+  return [
+    feature.title,
+    feature.title,
+    feature.description,
+    ...feature.successCriteria,
+    ...feature.tags,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Sub-linear TF-IDF as a sparse vector of term index -> weight, L2-normalised
+function tfidfVector(
+  tokens: string[],
+  termIndex: Map<string, number>,
+  idf: number[]
+): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const token of tokens) {
+    const index = termIndex.get(token);
+    if (index !== undefined) counts.set(index, (counts.get(index) || 0) + 1);
+  }
+
+  const vector = new Map<number, number>();
+  let norm = 0;
+  for (const [index, count] of counts) {
+    const weight = (1 + Math.log(count)) * idf[index];
+    vector.set(index, weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [index, weight] of vector) vector.set(index, weight / norm);
+  }
+  return vector;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+// Gram-Schmidt on the columns of a term x k matrix, dropping columns that collapse
+function orthonormalizeColumns(matrix: number[][], k: number): number[][] {
+  const rows = matrix.length;
+  const columns: number[][] = [];
+  for (let c = 0; c < k; c++) {
+    const column = matrix.map((row) => row[c]);
+    for (const basis of columns) {
+      let dot = 0;
+      for (let r = 0; r < rows; r++) dot += column[r] * basis[r];
+      for (let r = 0; r < rows; r++) column[r] -= dot * basis[r];
+    }
+    const norm = Math.sqrt(column.reduce((sum, v) => sum + v * v, 0));
+    if (norm > 1e-10) columns.push(column.map((v) => v / norm));
+  }
+  return matrix.map((_, r) => columns.map((column) => column[r]));
+}
+
+// Small deterministic generator so the same backlog always gives the same index
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+}
+
+// Top right singular vectors of the document x term matrix by subspace iteration
+function latentProjection(
+  vectors: Array<Map<number, number>>,
+  termCount: number,
+  k: number
+): number[][] {
+  const random = seededRandom(42);
+  let basis = orthonormalizeColumns(
+    Array.from({ length: termCount }, () => Array.from({ length: k }, random)),
+    k
+  );
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const width = basis[0]?.length || 0;
+    // Y = A^T (A Q), using the sparse rows of A
+    const next = Array.from({ length: termCount }, () => new Array<number>(width).fill(0));
+    for (const vector of vectors) {
+      const projected = new Array<number>(width).fill(0);
+      for (const [term, weight] of vector) {
+        for (let c = 0; c < width; c++) projected[c] += weight * basis[term][c];
+      }
+      for (const [term, weight] of vector) {
+        for (let c = 0; c < width; c++) next[term][c] += weight * projected[c];
+      }
+    }
+    basis = orthonormalizeColumns(next, width);
+  }
+
+  return basis;
+}
+
+function project(vector: Map<number, number>, projection: number[][]): number[] {
+  const width = projection[0]?.length || 0;
+  const result = new Array<number>(width).fill(0);
+  for (const [term, weight] of vector) {
+    for (let c = 0; c < width; c++) result[c] += weight * projection[term][c];
+  }
+  return normalize(result);
+}
+
+function round(vector: number[]): number[] {
+  return vector.map((v) => Math.round(v * 10000) / 10000);
+}
+
+// Build a TF-IDF + LSA index over stories and features
+export function buildSemanticIndex(
+  stories: Story[],
+  features: Feature[],
+  fingerprint: string,
+  synonyms: Synonyms = {}
+): SemanticIndex {
+  const patterns = synonymPatterns(synonyms);
+  const sources = [
+    ...stories.map((story) => ({
+      kind: 'story' as const,
+      id: story.id,
+      feature: story.feature,
+      tokens: semanticTokens(storyText(story), patterns),
+    })),
+    ...features.map((feature) => ({
+      kind: 'feature' as const,
+      id: feature.id,
+      feature: undefined,
+      tokens: semanticTokens(featureText(feature), patterns),
+    })),
+  ];
+
+  const documentFrequency = new Map<string, number>();
+  for (const source of sources) {
+    for (const token of new Set(source.tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  const terms = [...documentFrequency.keys()].sort();
+  const termIndex = new Map(terms.map((term, i) => [term, i]));
+  const idf = terms.map((term) =>
+    Math.log((1 + sources.length) / (1 + (documentFrequency.get(term) || 0))) + 1
+  );
+
+  const vectors = sources.map((source) => tfidfVector(source.tokens, termIndex, idf));
+  const k = Math.min(MAX_DIMENSIONS, sources.length, terms.length);
+  const projection = k > 0 ? latentProjection(vectors, terms.length, k) : [];
+
+  return {
+    version: SEMANTIC_INDEX_VERSION,
+    fingerprint,
+    builtAt: new Date().toISOString(),
+    synonyms,
+    terms,
+    idf: round(idf),
+    projection: projection.map(round),
+    documents: sources.map((source, i) => ({
+      kind: source.kind,
+      id: source.id,
+      feature: source.feature,
+      vector: round(project(vectors[i], projection)),
+    })),
+  };
+}
+
+// Documents closest in meaning to the text, best first
+export function querySemanticIndex(
+  index: SemanticIndex,
+  text: string,
+  options: { limit?: number; minScore?: number } = {}
+): SemanticMatch[] {
+  const termIndex = new Map(index.terms.map((term, i) => [term, i]));
+  const tokens = semanticTokens(text, synonymPatterns(index.synonyms));
+  const vector = tfidfVector(tokens, termIndex, index.idf);
+  if (vector.size === 0) return [];
+
+  const query = project(vector, index.projection);
+  const minScore = options.minScore ?? 0.15;
+
+  return index.documents
+    .map((doc) => ({
+      kind: doc.kind,
+      id: doc.id,
+      feature: doc.feature,
+      score: Math.round(doc.vector.reduce((sum, v, i) => sum + v * query[i], 0) * 100) / 100,
+    }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 10);
+}
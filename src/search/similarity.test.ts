@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { story } from '../testing/fixtures.js';
+import {
+  findSimilarStories,
+  clusterSimilarStories,
+  DEFAULT_SIMILARITY_THRESHOLD,
+} from './similarity.js';
+
+const resetPassword = story('reset-password', {
+  title: 'Reset a forgotten password',
+  asA: 'registered user',
+  iWant: 'to reset my password by email',
+});
+const recoverPassword = story('recover-password', {
+  title: 'Recover a forgotten password',
+  asA: 'registered user',
+  iWant: 'to get a password reset email',
+});
+const changePassword = story('change-password', {
+  title: 'Change my password',
+  asA: 'registered user',
+  iWant: 'to choose a new password',
+});
+const payByCard = story('pay-by-card', {
+  title: 'Pay by card',
+  asA: 'user',
+  iWant: 'to pay for my order by card',
+});
+const wishlist = story('wishlist', {
+  title: 'Keep a wishlist',
+  asA: 'user',
+  iWant: 'to save products for later',
+});
+
+const backlog = [resetPassword, recoverPassword, changePassword, payByCard, wishlist];
+
+describe('findSimilarStories', () => {
+  it('returns matches above the default threshold, best first, without the story itself', () => {
+    const matches = findSimilarStories(resetPassword, backlog);
+    expect(matches.map((m) => m.story.id)).toEqual(['recover-password', 'change-password']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+    expect(matches.every((m) => m.score >= DEFAULT_SIMILARITY_THRESHOLD)).toBe(true);
+  });
+
+  it('drops matches below a stricter threshold and caps the number returned', () => {
+    const [best, next] = findSimilarStories(resetPassword, backlog, { threshold: 0 });
+    expect(findSimilarStories(resetPassword, backlog, { threshold: best.score })).toEqual([best]);
+    expect(findSimilarStories(resetPassword, backlog, { threshold: 0, limit: 2 })).toEqual([
+      best,
+      next,
+    ]);
+  });
+
+  it('ignores the "As a user, I want" boilerplate', () => {
+    expect(findSimilarStories(payByCard, [wishlist], { threshold: 0.01 })).toEqual([]);
+  });
+});
+
+describe('clusterSimilarStories', () => {
+  it('groups stories linked by similarity and leaves the rest out', () => {
+    const clusters = clusterSimilarStories(backlog);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].stories.map((s) => s.id)).toEqual([
+      'reset-password',
+      'recover-password',
+      'change-password',
+    ]);
+    expect(clusters[0].score).toBe(findSimilarStories(resetPassword, backlog)[0].score);
+  });
+
+  it('splits a cluster when the threshold rises', () => {
+    const [pair] = findSimilarStories(resetPassword, backlog);
+    const clusters = clusterSimilarStories(backlog, pair.score);
+    expect(clusters.map((c) => c.stories.map((s) => s.id))).toEqual([
+      ['reset-password', 'recover-password'],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { Story } from '../models/index.js';
+import { tokenize, storyText } from './text.js';
+
+export interface SimilarStory {
+  story: Story;
+  score: number;
+}
+
+export interface StoryCluster {
+  stories: Story[];
+  // The highest similarity between any two stories in the cluster
+  score: number;
+}
+
+// Stories scoring below this are not worth asking the model about
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.3;
+
+type TermVector = Map<string, number>;
+
+// Words every story has through "As a user, I want"
+const BOILERPLATE = new Set(['user', 'want']);
+
+function termVector(story: Story): TermVector {
+  const vector: TermVector = new Map();
+  for (const term of tokenize(storyText(story)).filter((t) => !BOILERPLATE.has(t))) {
+    vector.set(term, (vector.get(term) || 0) + 1);
+  }
+  return vector;
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    dot += weight * (b.get(term) || 0);
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Existing stories most similar to the given one, best first
+export function findSimilarStories(
+  story: Story,
+  candidates: Story[],
+  options: { threshold?: number; limit?: number } = {}
+): SimilarStory[] {
+  const threshold = options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const target = termVector(story);
+
+  return candidates
+    .filter((candidate) => candidate.id !== story.id)
+    .map((candidate) => ({
+      story: candidate,
+      score: Math.round(cosine(target, termVector(candidate)) * 100) / 100,
+    }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5);
+}
+
+// Group stories linked by pairwise similarity above the threshold
+export function clusterSimilarStories(stories: Story[], threshold?: number): StoryCluster[] {
+  const limit = threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const vectors = stories.map(termVector);
+
+  // Union-find over story indexes
+  const parent = stories.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: Array<[number, number]> = [];
+
+  for (let i = 0; i < stories.length; i++) {
+    for (let j = i + 1; j < stories.length; j++) {
+      const score = cosine(vectors[i], vectors[j]);
+      if (score >= limit) {
+        edges.push([i, score]);
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, StoryCluster>();
+  stories.forEach((story, i) => {
+    const root = find(i);
+    const group = groups.get(root) || { stories: [], score: 0 };
+    group.stories.push(story);
+    groups.set(root, group);
+  });
+  for (const [i, score] of edges) {
+    const group = groups.get(find(i)) as StoryCluster;
+    group.score = Math.max(group.score, Math.round(score * 100) / 100);
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.stories.length > 1)
+    .sort((a, b) => b.score - a.score);
+}
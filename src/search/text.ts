@@ -0,0 +1,57 @@
+import type { Story } from '../models/index.js';
+
+// Common words that carry no meaning for matching stories
+const STOP_WORDS = new Set(
+  (
+    'a able all an and any are as at be been being but by can do for from given has have i if in ' +
+    'into is it its me my not of on or our should so that the their them then there they this ' +
+    'to was we when which will with without you your'
+  ).split(' ')
+);
+
+// Very light stemming so "payments" matches "payment" and "cards" matches "card"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+export interface TextToken {
+  token: string;
+  start: number;
+  end: number;
+}
+
+// Tokens with their position in the original text, for highlighting
+export function tokenizeWithOffsets(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const match of text.matchAll(/[a-z0-9]+/gi)) {
+    const word = match[0].toLowerCase();
+    if (word.length > 1 && !STOP_WORDS.has(word)) {
+      const start = match.index as number;
+      tokens.push({ token: stem(word), start, end: start + word.length });
+    }
+  }
+  return tokens;
+}
+
+// Lower-case words with stop words removed and plurals folded
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map((t) => t.token);
+}
+
+// The text a story is matched on; the title counts twice as it names the story's intent
+export function storyText(story: Story): string {
+  return [
+    story.title,
+    story.title,
+    story.asA,
+    story.iWant,
+    story.soThat,
+    ...story.acceptanceCriteria.map((ac) => ac.text),
+    ...story.edgeCases,
+    ...story.tags,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
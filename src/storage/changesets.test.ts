@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FeatureSchema } from '../models/index.js';
+import { story, createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { StorageManager } from './index.js';
+
+describe('change sets', () => {
+  let projectPath: string;
+  let storage: StorageManager;
+
+  beforeEach(async () => {
+    projectPath = createTempProject();
+    storage = new StorageManager(projectPath);
+    await storage.createStory(story('wishlist', { title: 'Keep a wishlist' }));
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+  });
+
+  // Create a feature with a story and edit an existing story in one change set
+  async function makeChanges() {
+    storage.beginChangeSet({ label: 'test' });
+    await storage.createFeature(FeatureSchema.parse({ id: 'checkout', title: 'Checkout' }));
+    await storage.createStory(story('pay-by-card', { feature: 'checkout' }));
+    await storage.updateStory(story('wishlist', { title: 'Keep a wish list' }));
+    return storage.endChangeSet();
+  }
+
+  it('snapshots each written file once, before and after', async () => {
+    const changeSet = await makeChanges();
+    expect(changeSet?.label).toBe('test');
+    expect(changeSet?.files.map((f) => [f.path, f.before === null, f.after === null])).toEqual([
+      ['features/checkout/feature.md', true, false],
+      ['features/checkout/stories/pay-by-card.md', true, false],
+      ['features/backlog/stories/wishlist.md', false, false],
+    ]);
+    expect(await storage.getChangeSet(changeSet!.id)).toEqual(changeSet);
+  });
+
+  it('saves nothing when no file changed', async () => {
+    storage.beginChangeSet();
+    await storage.createStory(story('scratch'));
+    await storage.deleteStory('backlog', 'scratch');
+    expect(storage.endChangeSet()).toBeNull();
+    expect(await storage.listChangeSets()).toEqual([]);
+  });
+
+  it('undoes every change and removes the directories it created', async () => {
+    const changeSet = (await makeChanges())!;
+    expect(storage.findUndoConflicts(changeSet)).toEqual([]);
+
+    await storage.undoChangeSet(changeSet);
+
+    expect(fs.existsSync(path.join(projectPath, 'features', 'checkout'))).toBe(false);
+    expect((await storage.findStory('wishlist'))?.title).toBe('Keep a wishlist');
+    expect((await storage.getChangeSet(changeSet.id))?.undoneAt).toBeDefined();
+    await expect(storage.undoChangeSet(changeSet)).rejects.toThrow('has already been undone');
+  });
+
+  it('undoes a change set whose new directories were already removed by hand', async () => {
+    const changeSet = (await makeChanges())!;
+    fs.rmSync(path.join(projectPath, 'features', 'checkout'), { recursive: true });
+
+    await storage.undoChangeSet(changeSet);
+
+    expect(fs.existsSync(path.join(projectPath, 'features', 'checkout'))).toBe(false);
+    expect((await storage.findStory('wishlist'))?.title).toBe('Keep a wishlist');
+  });
+
+  it('reports files edited since the change set', async () => {
+    const changeSet = (await makeChanges())!;
+    await storage.updateStory(story('wishlist', { title: 'Keep a wishlist for later' }));
+    expect(storage.findUndoConflicts(changeSet)).toEqual(['features/backlog/stories/wishlist.md']);
+  });
+
+  it('rejects IDs outside the generated format and reports corrupt change sets', async () => {
+    const changeSet = (await makeChanges())!;
+    expect(await storage.getChangeSet('../history')).toBeNull();
+
+    fs.writeFileSync(path.join(projectPath, 'snapshots', `${changeSet.id}.json`), '{', 'utf-8');
+    await expect(storage.getChangeSet(changeSet.id)).rejects.toThrow(
+      `Change set "${changeSet.id}" is corrupt and cannot be loaded`
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FeatureSchema } from '../models/index.js';
+import { story, createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { StorageManager } from './index.js';
+
+describe('StorageManager IDs', () => {
+  let projectPath: string;
+  let storage: StorageManager;
+
+  beforeEach(() => {
+    projectPath = createTempProject();
+    storage = new StorageManager(projectPath);
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+  });
+
+  it('refuses story, feature, persona and sprint IDs that point outside their directory', async () => {
+    await expect(storage.getStory('backlog', '../../x')).rejects.toThrow(
+      'Invalid story ID "../../x"'
+    );
+    await expect(storage.getStory('..', 'x')).rejects.toThrow('Invalid feature ID ".."');
+    await expect(storage.getFeature('a/b')).rejects.toThrow('Invalid feature ID "a/b"');
+    await expect(storage.createStory(story('x', { feature: '../..' }))).rejects.toThrow(
+      'Invalid feature ID'
+    );
+    await expect(
+      storage.createFeature(FeatureSchema.parse({ id: '..\\x', title: 'Escape' }))
+    ).rejects.toThrow('Invalid feature ID');
+    await expect(storage.getPersona('../one-p')).rejects.toThrow('Invalid persona ID');
+    await expect(storage.getSprint('../features/x')).rejects.toThrow('Invalid sprint ID');
+  });
+
+  it('accepts IDs that stay inside their directory', async () => {
+    await storage.createStory(story('reset-password'));
+    expect(await storage.getStory('backlog', 'reset-password')).not.toBeNull();
+    expect(await storage.getFeature('checkout')).toBeNull();
+  });
+});
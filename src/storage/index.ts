@@ -1,13 +1,48 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import matter from 'gray-matter';
 import {
   StorySchema,
   FeatureSchema,
+  SessionSchema,
+  PersonaSchema,
+  SprintSchema,
   type Story,
   type Feature,
+  type Session,
+  type Persona,
+  type Sprint,
+  ChangeSetSchema,
+  type HistoryActor,
+  type HistoryEntry,
+  type ChangeSet,
+  type FileSnapshot,
+  type FieldChange,
   type AcceptanceCriterion,
 } from '../models/index.js';
+import {
+  searchStoryList,
+  searchFeatureList,
+  buildSemanticIndex,
+  querySemanticIndex,
+  SEMANTIC_INDEX_VERSION,
+  type SearchQuery,
+  type SearchResult,
+  type SemanticIndex,
+  type SemanticMatch,
+} from '../search/index.js';
+import { loadProjectConfig } from '../config/index.js';
+import { sortByRank, assignRanks } from '../backlog/index.js';
+import { appendHistory, defaultActor, diffRecords } from '../history/index.js';
+import {
+  describeParseError,
+  repairFrontmatter,
+  type FileIssue,
+  type FileRepair,
+} from './repair.js';
+
+export { describeParseError, repairFrontmatter, type FileIssue, type FileRepair } from './repair.js';
 
 // Convert story to markdown content
 export function storyToMarkdown(story: Story): string {
@@ -20,9 +55,13 @@ export function storyToMarkdown(story: Story): string {
     feature: story.feature,
     persona: story.persona,
     estimate: story.estimate,
+    rank: story.rank,
+    scoring: story.scoring,
     tags: story.tags,
     dependencies: story.dependencies,
     relatedStories: story.relatedStories,
+    reviews: story.reviews.length > 0 ? story.reviews : undefined,
+    gateOverrides: story.gateOverrides.length > 0 ? story.gateOverrides : undefined,
     createdAt: story.createdAt,
     updatedAt: story.updatedAt,
   };
@@ -201,19 +240,215 @@ export function markdownToFeature(content: string): Feature {
   });
 }
 
+// Persona to markdown
+export function personaToMarkdown(persona: Persona): string {
+  const frontmatter = {
+    id: persona.id,
+    name: persona.name,
+  };
+
+  let content = '';
+
+  if (persona.description) {
+    content += '## Description\n\n';
+    content += `${persona.description}\n\n`;
+  }
+
+  const sections: Array<[string, string[]]> = [
+    ['Goals', persona.goals],
+    ['Pain Points', persona.painPoints],
+    ['Behaviors', persona.behaviors],
+  ];
+
+  for (const [heading, items] of sections) {
+    if (items.length === 0) continue;
+    content += `## ${heading}\n\n`;
+    for (const item of items) {
+      content += `- ${item}\n`;
+    }
+    content += '\n';
+  }
+
+  return matter.stringify(content, frontmatter);
+}
+
+// Parse markdown to persona
+export function markdownToPersona(content: string): Persona {
+  const { data, content: bodyContent } = matter(content);
+
+  let description = '';
+  const descMatch = bodyContent.match(/## Description\n\n([\s\S]*?)(?=\n## |$)/);
+  if (descMatch) {
+    description = descMatch[1].trim();
+  }
+
+  const parseList = (heading: string): string[] => {
+    const items: string[] = [];
+    const match = bodyContent.match(new RegExp(`## ${heading}\\n\\n([\\s\\S]*?)(?=\\n## |$)`));
+    if (match) {
+      const lines = match[1].split('\n').filter((l) => l.trim().startsWith('- '));
+      for (const line of lines) {
+        const text = line.replace(/^- /, '').trim();
+        if (text) items.push(text);
+      }
+    }
+    return items;
+  };
+
+  return PersonaSchema.parse({
+    ...data,
+    description,
+    goals: parseList('Goals'),
+    painPoints: parseList('Pain Points'),
+    behaviors: parseList('Behaviors'),
+  });
+}
+
+// Turn a title or name into a URL-safe ID
+export function toSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
+
+// A story or feature file that could not be read and was left out of lists and searches
+export interface InvalidFile {
+  // Relative to the project
+  path: string;
+  entity: 'story' | 'feature';
+  // ID from the file or directory name
+  id: string;
+  feature?: string;
+  issues: FileIssue[];
+}
+
+// Result of reconciling a feature's story list with the files on disk
+export interface FeatureSyncResult {
+  featureId: string;
+  // Story files that were missing from the list
+  added: string[];
+  // Listed IDs with no story file
+  orphaned: string[];
+  // Story directory exists but feature.md does not
+  missingFeature: boolean;
+}
+
+// Sprint to markdown; everything but the goal lives in frontmatter
+export function sprintToMarkdown(sprint: Sprint): string {
+  const { goal, ...frontmatter } = sprint;
+
+  // Remove undefined values
+  Object.keys(frontmatter).forEach((key) => {
+    if ((frontmatter as Record<string, unknown>)[key] === undefined) {
+      delete (frontmatter as Record<string, unknown>)[key];
+    }
+  });
+
+  const content = goal ? `## Goal\n\n${goal}\n` : '';
+  return matter.stringify(content, frontmatter);
+}
+
+// Markdown to sprint
+export function markdownToSprint(content: string): Sprint {
+  const { data, content: bodyContent } = matter(content);
+
+  const goalMatch = bodyContent.match(/## Goal\n\n([\s\S]*?)(?=\n## |$)/);
+
+  return SprintSchema.parse({
+    ...data,
+    goal: goalMatch ? goalMatch[1].trim() : undefined,
+  });
+}
+
+// Session and change set IDs as generated, e.g. 20261019-140512-k3f9; anything else
+// could point outside their directory
+const GENERATED_ID = /^\d{8}-\d{6}-[a-z0-9]{1,4}$/;
+
+// Story, feature, persona and sprint IDs become file and directory names; anything that could
+// point outside its directory is refused before a path is built from it
+function assertSafeId(kind: string, id: string): void {
+  if (!id || id === '.' || id === '..' || /[/\\\0]/.test(id)) {
+    throw new Error(`Invalid ${kind} ID "${id}"`);
+  }
+}
+
 // Storage operations
 export class StorageManager {
   private projectPath: string;
+  // Story ID -> feature directories containing a file with that ID
+  private storyIndex: Map<string, string[]> | null = null;
+  // Who story and feature writes are recorded against in the change history
+  private actor: HistoryActor = defaultActor();
+  // Open change set; files written while it is set are snapshotted for undo
+  private changeSet: ChangeSet | null = null;
+  // Staged writes (file path -> new content, null to delete) and their history
+  // entries, held back until committed
+  private staged: Map<string, string | null> | null = null;
+  private stagedHistory: HistoryEntry[] = [];
+  // Files the list methods could not parse, by path
+  private invalidFiles = new Map<string, InvalidFile>();
 
   constructor(projectPath: string) {
     this.projectPath = projectPath;
   }
 
+  setActor(actor: HistoryActor): void {
+    this.actor = actor;
+  }
+
+  private recordChange(
+    action: HistoryEntry['action'],
+    entity: HistoryEntry['entity'],
+    id: string,
+    feature: string | undefined,
+    changes: FieldChange[]
+  ): void {
+    // Writes that change nothing but updatedAt are not worth a history entry
+    if (action === 'update' && changes.length === 0) return;
+    const entry: HistoryEntry = {
+      at: new Date().toISOString(),
+      actor: this.actor,
+      action,
+      entity,
+      id,
+      feature,
+      changes,
+    };
+    if (this.staged) {
+      this.stagedHistory.push(entry);
+    } else {
+      appendHistory(this.projectPath, entry);
+    }
+  }
+
+  // Story, feature, persona and sprint files are all written through here
+  private writeProjectFile(filePath: string, content: string | null): void {
+    if (this.staged) {
+      this.staged.set(filePath, content);
+      return;
+    }
+
+    this.snapshotFile(filePath);
+    if (content === null) {
+      if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    } else {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf-8');
+    }
+    this.storyIndex = null;
+  }
+
   private getFeaturesDir(): string {
     return path.join(this.projectPath, 'features');
   }
 
   private getFeatureDir(featureId: string): string {
+    assertSafeId('feature', featureId);
     return path.join(this.getFeaturesDir(), featureId);
   }
 
@@ -222,6 +457,7 @@ export class StorageManager {
   }
 
   private getStoryPath(featureId: string, storyId: string): string {
+    assertSafeId('story', storyId);
     return path.join(this.getStoriesDir(featureId), `${storyId}.md`);
   }
 
@@ -229,18 +465,55 @@ export class StorageManager {
     return path.join(this.getFeatureDir(featureId), 'feature.md');
   }
 
-  // Story operations
-  async createStory(story: Story): Promise<void> {
-    const featureId = story.feature || 'backlog';
-    const storiesDir = this.getStoriesDir(featureId);
+  private getPersonasDir(): string {
+    return path.join(this.projectPath, 'personas');
+  }
 
-    if (!fs.existsSync(storiesDir)) {
-      fs.mkdirSync(storiesDir, { recursive: true });
-    }
+  private getPersonaPath(personaId: string): string {
+    assertSafeId('persona', personaId);
+    return path.join(this.getPersonasDir(), `${personaId}.md`);
+  }
+
+  private getSessionsDir(): string {
+    return path.join(this.projectPath, 'sessions');
+  }
 
-    const storyPath = this.getStoryPath(featureId, story.id);
-    const content = storyToMarkdown(story);
-    fs.writeFileSync(storyPath, content, 'utf-8');
+  private getSessionPath(sessionId: string): string {
+    return path.join(this.getSessionsDir(), `${sessionId}.json`);
+  }
+
+  private getSprintsDir(): string {
+    return path.join(this.projectPath, 'sprints');
+  }
+
+  private getSprintPath(sprintId: string): string {
+    assertSafeId('sprint', sprintId);
+    return path.join(this.getSprintsDir(), `${sprintId}.md`);
+  }
+
+  private getSemanticIndexPath(): string {
+    return path.join(this.projectPath, 'index', 'semantic.json');
+  }
+
+  private getSnapshotsDir(): string {
+    return path.join(this.projectPath, 'snapshots');
+  }
+
+  private getChangeSetPath(changeSetId: string): string {
+    return path.join(this.getSnapshotsDir(), `${changeSetId}.json`);
+  }
+
+  // Story operations
+  async createStory(story: Story): Promise<void> {
+    const previous = await this.getStory(story.feature || 'backlog', story.id);
+    await this.writeStory(story);
+    this.recordChange(
+      previous ? 'update' : 'create',
+      'story',
+      story.id,
+      story.feature,
+      diffRecords(previous || undefined, story)
+    );
   }
 
   async updateStory(story: Story): Promise<void> {
@@ -248,6 +521,12 @@ export class StorageManager {
     await this.createStory(story);
   }
 
+  private async writeStory(story: Story): Promise<void> {
+    const featureId = story.feature || 'backlog';
+    this.writeProjectFile(this.getStoryPath(featureId, story.id), storyToMarkdown(story));
+    await this.linkStory(featureId, story.id);
+  }
+
   async getStory(featureId: string, storyId: string): Promise<Story | null> {
     const storyPath = this.getStoryPath(featureId, storyId);
 
@@ -281,12 +560,21 @@ export class StorageManager {
       const storyFiles = fs.readdirSync(storiesDir).filter((f) => f.endsWith('.md'));
 
       for (const storyFile of storyFiles) {
-        const content = fs.readFileSync(path.join(storiesDir, storyFile), 'utf-8');
+        const storyPath = path.join(storiesDir, storyFile);
+        const content = fs.readFileSync(storyPath, 'utf-8');
         try {
           const story = markdownToStory(content);
           stories.push(story);
-        } catch {
-          // Skip invalid files
+          this.invalidFiles.delete(storyPath);
+        } catch (error) {
+          // Left out, but kept for getInvalidFiles so callers can warn about it
+          this.invalidFiles.set(storyPath, {
+            path: this.toRelativePath(storyPath),
+            entity: 'story',
+            id: storyFile.slice(0, -'.md'.length),
+            feature: fDir === 'backlog' ? undefined : fDir,
+            issues: describeParseError(error),
+          });
         }
       }
     }
@@ -295,27 +583,160 @@ export class StorageManager {
   }
 
   async deleteStory(featureId: string, storyId: string): Promise<boolean> {
+    const previous = await this.getStory(featureId, storyId);
+    if (!(await this.removeStory(featureId, storyId))) {
+      return false;
+    }
+
+    this.recordChange(
+      'delete',
+      'story',
+      storyId,
+      featureId === 'backlog' ? undefined : featureId,
+      diffRecords(previous || undefined, undefined)
+    );
+    return true;
+  }
+
+  private async removeStory(featureId: string, storyId: string): Promise<boolean> {
     const storyPath = this.getStoryPath(featureId, storyId);
 
     if (!fs.existsSync(storyPath)) {
       return false;
     }
 
-    fs.unlinkSync(storyPath);
+    this.writeProjectFile(storyPath, null);
+
+    await this.unlinkStory(featureId, storyId);
     return true;
   }
 
-  // Feature operations
-  async createFeature(feature: Feature): Promise<void> {
-    const featureDir = this.getFeatureDir(feature.id);
+  // Add a story ID to its feature's story list (no-op for the backlog)
+  private async linkStory(featureId: string, storyId: string): Promise<void> {
+    const feature = await this.getFeature(featureId);
+    if (!feature || feature.stories.includes(storyId)) return;
+
+    feature.stories.push(storyId);
+    feature.updatedAt = new Date().toISOString();
+    this.writeFeature(feature);
+  }
+
+  private async unlinkStory(featureId: string, storyId: string): Promise<void> {
+    const feature = await this.getFeature(featureId);
+    if (!feature || !feature.stories.includes(storyId)) return;
+
+    feature.stories = feature.stories.filter((id) => id !== storyId);
+    feature.updatedAt = new Date().toISOString();
+    this.writeFeature(feature);
+  }
+
+  // IDs of the story files in a feature directory, or in every feature
+  async listStoryIds(featureId?: string): Promise<string[]> {
+    return featureId ? this.readStoryIds(featureId) : [...this.getStoryIndex().keys()];
+  }
+
+  private readStoryIds(featureId: string): string[] {
+    const storiesDir = this.getStoriesDir(featureId);
+    if (!fs.existsSync(storiesDir)) return [];
+
+    return fs
+      .readdirSync(storiesDir)
+      .filter((f) => f.endsWith('.md'))
+      .map((f) => f.slice(0, -'.md'.length));
+  }
+
+  // Relocate a story file to another feature and rewrite its feature frontmatter
+  async moveStory(storyId: string, toFeatureId: string, fromFeatureId?: string): Promise<Story> {
+    const currentFeature = await this.resolveStoryFeature(storyId, fromFeatureId);
+    if (!currentFeature) {
+      throw new Error(`Story "${storyId}" not found`);
+    }
+
+    if (toFeatureId !== 'backlog' && !fs.existsSync(this.getFeaturePath(toFeatureId))) {
+      throw new Error(`Feature "${toFeatureId}" not found`);
+    }
+
+    if (currentFeature !== toFeatureId && fs.existsSync(this.getStoryPath(toFeatureId, storyId))) {
+      throw new Error(`Feature "${toFeatureId}" already has a story with ID "${storyId}"`);
+    }
+
+    const story = (await this.getStory(currentFeature, storyId)) as Story;
+    const previousFeature = story.feature;
+    story.feature = toFeatureId === 'backlog' ? undefined : toFeatureId;
+    story.updatedAt = new Date().toISOString();
+    await this.writeStory(story);
+
+    if (currentFeature !== toFeatureId) {
+      await this.removeStory(currentFeature, storyId);
+    }
+
+    this.recordChange('move', 'story', storyId, story.feature, [
+      { field: 'feature', before: previousFeature, after: story.feature },
+    ]);
+    return story;
+  }
+
+  // Build the story index from file names, without parsing the stories
+  private getStoryIndex(): Map<string, string[]> {
+    if (this.storyIndex) {
+      return this.storyIndex;
+    }
+
+    const index = new Map<string, string[]>();
+    const featuresDir = this.getFeaturesDir();
+
+    if (fs.existsSync(featuresDir)) {
+      const featureDirs = fs.readdirSync(featuresDir).filter((f) => {
+        const stat = fs.statSync(path.join(featuresDir, f));
+        return stat.isDirectory();
+      });
+
+      for (const fDir of featureDirs) {
+        for (const storyId of this.readStoryIds(fDir)) {
+          index.set(storyId, [...(index.get(storyId) || []), fDir]);
+        }
+      }
+    }
+
+    this.storyIndex = index;
+    return index;
+  }
+
+  // Find the feature directory holding a story, throwing if the ID is ambiguous
+  async resolveStoryFeature(storyId: string, featureId?: string): Promise<string | null> {
+    if (featureId) {
+      return fs.existsSync(this.getStoryPath(featureId, storyId)) ? featureId : null;
+    }
 
-    if (!fs.existsSync(featureDir)) {
-      fs.mkdirSync(featureDir, { recursive: true });
+    const featureIds = this.getStoryIndex().get(storyId) || [];
+
+    if (featureIds.length > 1) {
+      throw new Error(
+        `Story ID "${storyId}" is ambiguous - it exists in features: ${featureIds.join(', ')}. ` +
+          'Specify the feature to disambiguate.'
+      );
     }
 
-    const featurePath = this.getFeaturePath(feature.id);
-    const content = featureToMarkdown(feature);
-    fs.writeFileSync(featurePath, content, 'utf-8');
+    return featureIds[0] || null;
+  }
+
+  // Look up a story by ID across all features
+  async findStory(storyId: string, featureId?: string): Promise<Story | null> {
+    const resolvedFeature = await this.resolveStoryFeature(storyId, featureId);
+    return resolvedFeature ? this.getStory(resolvedFeature, storyId) : null;
+  }
+
+  // Feature operations
+  async createFeature(feature: Feature): Promise<void> {
+    const previous = await this.getFeature(feature.id);
+    this.writeFeature(feature);
+    this.recordChange(
+      previous ? 'update' : 'create',
+      'feature',
+      feature.id,
+      undefined,
+      diffRecords(previous || undefined, feature)
+    );
   }
 
   async updateFeature(feature: Feature): Promise<void> {
@@ -323,6 +744,10 @@ export class StorageManager {
     await this.createFeature(feature);
   }
 
+  private writeFeature(feature: Feature): void {
+    this.writeProjectFile(this.getFeaturePath(feature.id), featureToMarkdown(feature));
+  }
+
   async getFeature(featureId: string): Promise<Feature | null> {
     const featurePath = this.getFeaturePath(featureId);
 
@@ -355,35 +780,644 @@ export class StorageManager {
       try {
         const feature = markdownToFeature(content);
         features.push(feature);
+        this.invalidFiles.delete(featurePath);
+      } catch (error) {
+        this.invalidFiles.set(featurePath, {
+          path: this.toRelativePath(featurePath),
+          entity: 'feature',
+          id: fDir,
+          issues: describeParseError(error),
+        });
+      }
+    }
+
+    return features;
+  }
+
+  // Backlog operations
+  // Open (not done) stories in backlog order
+  async listBacklog(featureId?: string): Promise<Story[]> {
+    const stories = await this.listStories(featureId);
+    return sortByRank(stories.filter((s) => s.status !== 'done'));
+  }
+
+  // Persist an order as ranks 1..n, writing only stories whose rank changed
+  async saveBacklogOrder(ordered: Story[]): Promise<Story[]> {
+    const changed = assignRanks(ordered);
+    for (const story of changed) {
+      await this.updateStory(story);
+    }
+    return changed;
+  }
+
+  // Search, ranked by relevance; see parseSearchQuery for the query language
+  async searchStories(query: string | SearchQuery): Promise<Array<SearchResult<Story>>> {
+    return searchStoryList(await this.listStories(), query);
+  }
+
+  async searchFeatures(query: string | SearchQuery): Promise<Array<SearchResult<Feature>>> {
+    return searchFeatureList(await this.listFeatures(), query);
+  }
+
+  // Semantic search over the offline index, rebuilding it when story or feature files changed
+  async semanticSearch(
+    text: string,
+    options: { limit?: number; minScore?: number } = {}
+  ): Promise<SemanticMatch[]> {
+    const index = await this.getSemanticIndex();
+    return querySemanticIndex(index, text, options);
+  }
+
+  // Semantic matches resolved to the stories and features they refer to
+  async semanticSearchItems(
+    text: string,
+    options: { limit?: number; minScore?: number } = {}
+  ): Promise<{ stories: Array<SearchResult<Story>>; features: Array<SearchResult<Feature>> }> {
+    const matches = await this.semanticSearch(text, options);
+    const stories: Array<SearchResult<Story>> = [];
+    const features: Array<SearchResult<Feature>> = [];
+
+    for (const match of matches) {
+      if (match.kind === 'story') {
+        const story = await this.getStory(match.feature || 'backlog', match.id);
+        if (story) stories.push({ item: story, score: match.score });
+      } else {
+        const feature = await this.getFeature(match.id);
+        if (feature) features.push({ item: feature, score: match.score });
+      }
+    }
+
+    return { stories, features };
+  }
+
+  async getSemanticIndex(options: { rebuild?: boolean } = {}): Promise<SemanticIndex> {
+    const indexPath = this.getSemanticIndexPath();
+    const fingerprint = this.getContentFingerprint();
+
+    const synonyms = loadProjectConfig(this.projectPath)?.search?.synonyms || {};
+
+    if (!options.rebuild && fs.existsSync(indexPath)) {
+      try {
+        const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as SemanticIndex;
+        if (
+          index.version === SEMANTIC_INDEX_VERSION &&
+          index.fingerprint === fingerprint &&
+          JSON.stringify(index.synonyms) === JSON.stringify(synonyms)
+        ) {
+          return index;
+        }
+      } catch {
+        // Rebuild a corrupt index
+      }
+    }
+
+    const index = buildSemanticIndex(
+      await this.listStories(),
+      await this.listFeatures(),
+      fingerprint,
+      synonyms
+    );
+    // A dry run stages its writes and must leave the project untouched, index included
+    if (!this.staged) {
+      fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+      fs.writeFileSync(indexPath, JSON.stringify(index), 'utf-8');
+    }
+    return index;
+  }
+
+  // Hash of the path, size and modification time of every feature and story file
+  private getContentFingerprint(): string {
+    const featuresDir = this.getFeaturesDir();
+    const entries: string[] = [];
+
+    if (fs.existsSync(featuresDir)) {
+      for (const featureId of fs.readdirSync(featuresDir).sort()) {
+        const files = [this.getFeaturePath(featureId)];
+        const storiesDir = this.getStoriesDir(featureId);
+        if (fs.existsSync(storiesDir)) {
+          for (const file of fs.readdirSync(storiesDir).sort()) {
+            if (file.endsWith('.md')) files.push(path.join(storiesDir, file));
+          }
+        }
+
+        for (const file of files) {
+          if (!fs.existsSync(file)) continue;
+          const stat = fs.statSync(file);
+          entries.push(`${path.relative(featuresDir, file)}:${stat.size}:${stat.mtimeMs}`);
+        }
+      }
+    }
+
+    return createHash('sha1').update(entries.join('\n')).digest('hex');
+  }
+
+  // Persona operations
+  async createPersona(persona: Persona): Promise<void> {
+    const previous = await this.getPersona(persona.id);
+    this.writeProjectFile(this.getPersonaPath(persona.id), personaToMarkdown(persona));
+    this.recordChange(
+      previous ? 'update' : 'create',
+      'persona',
+      persona.id,
+      undefined,
+      diffRecords(previous || undefined, persona)
+    );
+  }
+
+  async updatePersona(persona: Persona): Promise<void> {
+    await this.createPersona(persona);
+  }
+
+  async getPersona(personaId: string): Promise<Persona | null> {
+    const personaPath = this.getPersonaPath(personaId);
+
+    if (!fs.existsSync(personaPath)) {
+      return null;
+    }
+
+    const content = fs.readFileSync(personaPath, 'utf-8');
+    return markdownToPersona(content);
+  }
+
+  async listPersonas(): Promise<Persona[]> {
+    const personas: Persona[] = [];
+    const personasDir = this.getPersonasDir();
+
+    if (!fs.existsSync(personasDir)) {
+      return personas;
+    }
+
+    const personaFiles = fs.readdirSync(personasDir).filter((f) => f.endsWith('.md'));
+
+    for (const personaFile of personaFiles) {
+      const content = fs.readFileSync(path.join(personasDir, personaFile), 'utf-8');
+      try {
+        personas.push(markdownToPersona(content));
       } catch {
         // Skip invalid files
       }
     }
 
-    return features;
+    return personas;
+  }
+
+  // Delete a persona and unlink the stories that referred to it
+  async deletePersona(personaId: string): Promise<boolean> {
+    const previous = await this.getPersona(personaId);
+    if (!previous) {
+      return false;
+    }
+
+    this.writeProjectFile(this.getPersonaPath(personaId), null);
+    this.recordChange('delete', 'persona', personaId, undefined, diffRecords(previous, undefined));
+
+    for (const story of await this.listStories()) {
+      if (story.persona !== personaId) continue;
+      story.persona = undefined;
+      await this.updateStory(story);
+    }
+    return true;
+  }
+
+  // Find the persona a story's "As a" role refers to, by ID or name
+  async matchPersona(role: string): Promise<Persona | null> {
+    const normalize = (text: string) =>
+      text
+        .toLowerCase()
+        .replace(/^(a|an|the)\s+/, '')
+        .trim();
+    const wanted = normalize(role);
+    const personas = await this.listPersonas();
+
+    return (
+      personas.find((p) => p.id === toSlug(wanted) || normalize(p.name) === wanted) || null
+    );
+  }
+
+  // Sprint operations
+  async saveSprint(sprint: Sprint): Promise<void> {
+    const previous = await this.getSprint(sprint.id);
+    sprint.updatedAt = new Date().toISOString();
+    this.writeProjectFile(this.getSprintPath(sprint.id), sprintToMarkdown(sprint));
+    this.recordChange(
+      previous ? 'update' : 'create',
+      'sprint',
+      sprint.id,
+      undefined,
+      diffRecords(previous || undefined, sprint)
+    );
+  }
+
+  async getSprint(sprintId: string): Promise<Sprint | null> {
+    const sprintPath = this.getSprintPath(sprintId);
+
+    if (!fs.existsSync(sprintPath)) {
+      return null;
+    }
+
+    return markdownToSprint(fs.readFileSync(sprintPath, 'utf-8'));
+  }
+
+  // All sprints, earliest start first
+  async listSprints(): Promise<Sprint[]> {
+    const sprints: Sprint[] = [];
+    const sprintsDir = this.getSprintsDir();
+
+    if (!fs.existsSync(sprintsDir)) {
+      return sprints;
+    }
+
+    const sprintFiles = fs.readdirSync(sprintsDir).filter((f) => f.endsWith('.md'));
+
+    for (const sprintFile of sprintFiles) {
+      const content = fs.readFileSync(path.join(sprintsDir, sprintFile), 'utf-8');
+      try {
+        sprints.push(markdownToSprint(content));
+      } catch {
+        // Skip invalid files
+      }
+    }
+
+    return sprints.sort(
+      (a, b) => a.startDate.localeCompare(b.startDate) || a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  // Session operations
+  async saveSession(session: Session): Promise<void> {
+    const sessionsDir = this.getSessionsDir();
+
+    if (!fs.existsSync(sessionsDir)) {
+      fs.mkdirSync(sessionsDir, { recursive: true });
+    }
+
+    const sessionPath = this.getSessionPath(session.id);
+    fs.writeFileSync(sessionPath, JSON.stringify(session, null, 2), 'utf-8');
   }
 
-  // Search
-  async searchStories(query: string): Promise<Story[]> {
-    const allStories = await this.listStories();
-    const lowerQuery = query.toLowerCase();
-
-    return allStories.filter((story) => {
-      const searchText = [
-        story.title,
-        story.asA,
-        story.iWant,
-        story.soThat,
-        ...story.acceptanceCriteria.map((ac) => ac.text),
-        ...story.openQuestions,
-        ...story.edgeCases,
-        ...story.tags,
-      ]
-        .filter(Boolean)
-        .join(' ')
-        .toLowerCase();
-
-      return searchText.includes(lowerQuery);
+  async getSession(sessionId: string): Promise<Session | null> {
+    if (!GENERATED_ID.test(sessionId)) {
+      return null;
+    }
+
+    const sessionPath = this.getSessionPath(sessionId);
+
+    if (!fs.existsSync(sessionPath)) {
+      return null;
+    }
+
+    const content = fs.readFileSync(sessionPath, 'utf-8');
+    try {
+      return SessionSchema.parse(JSON.parse(content));
+    } catch {
+      throw new Error(`Session "${sessionId}" is corrupt and cannot be loaded`);
+    }
+  }
+
+  // Most recently updated first
+  async listSessions(): Promise<Session[]> {
+    const sessions: Session[] = [];
+    const sessionsDir = this.getSessionsDir();
+
+    if (!fs.existsSync(sessionsDir)) {
+      return sessions;
+    }
+
+    const sessionFiles = fs.readdirSync(sessionsDir).filter((f) => f.endsWith('.json'));
+
+    for (const sessionFile of sessionFiles) {
+      const content = fs.readFileSync(path.join(sessionsDir, sessionFile), 'utf-8');
+      try {
+        sessions.push(SessionSchema.parse(JSON.parse(content)));
+      } catch {
+        // Skip invalid files
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    if (!GENERATED_ID.test(sessionId)) {
+      return false;
+    }
+
+    const sessionPath = this.getSessionPath(sessionId);
+
+    if (!fs.existsSync(sessionPath)) {
+      return false;
+    }
+
+    fs.unlinkSync(sessionPath);
+    return true;
+  }
+
+  // Rebuild every feature's story list from the story files on disk
+  async syncFeatureStories(options: { dryRun?: boolean } = {}): Promise<FeatureSyncResult[]> {
+    const results: FeatureSyncResult[] = [];
+    const featuresDir = this.getFeaturesDir();
+
+    if (!fs.existsSync(featuresDir)) {
+      return results;
+    }
+
+    const featureDirs = fs.readdirSync(featuresDir).filter((f) => {
+      const stat = fs.statSync(path.join(featuresDir, f));
+      return stat.isDirectory();
     });
+
+    for (const fDir of featureDirs) {
+      const storyIds = this.readStoryIds(fDir);
+      const feature = await this.getFeature(fDir);
+
+      if (!feature) {
+        if (fDir !== 'backlog' && storyIds.length > 0) {
+          results.push({ featureId: fDir, added: [], orphaned: [], missingFeature: true });
+        }
+        continue;
+      }
+
+      const added = storyIds.filter((id) => !feature.stories.includes(id)).sort();
+      const orphaned = feature.stories.filter((id) => !storyIds.includes(id));
+
+      if (added.length === 0 && orphaned.length === 0) continue;
+
+      results.push({ featureId: fDir, added, orphaned, missingFeature: false });
+
+      if (!options.dryRun) {
+        feature.stories = [...feature.stories.filter((id) => storyIds.includes(id)), ...added];
+        await this.updateFeature(feature);
+      }
+    }
+
+    return results;
+  }
+
+  // Change sets - snapshots of the files written between begin and end, so they can be undone
+  beginChangeSet(options: { sessionId?: string; label?: string } = {}): void {
+    const now = new Date();
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    this.changeSet = {
+      id: `${stamp}-${Math.random().toString(36).slice(2, 6)}`,
+      sessionId: options.sessionId,
+      label: options.label || '',
+      tools: [],
+      files: [],
+      createdAt: now.toISOString(),
+    };
+  }
+
+  // Save the open change set with each file's final content; null when nothing changed
+  endChangeSet(): ChangeSet | null {
+    const changeSet = this.changeSet;
+    this.changeSet = null;
+    if (!changeSet) return null;
+
+    changeSet.files = changeSet.files
+      .map((file) => ({ ...file, after: this.readProjectFile(file.path) }))
+      .filter((file) => file.before !== file.after);
+    if (changeSet.files.length === 0) return null;
+
+    this.saveChangeSet(changeSet);
+    return changeSet;
+  }
+
+  // Keep a file's content from before its first write in the open change set
+  private snapshotFile(filePath: string): void {
+    if (!this.changeSet) return;
+
+    const relativePath = this.toRelativePath(filePath);
+    if (!this.changeSet.files.some((file) => file.path === relativePath)) {
+      this.changeSet.files.push({
+        path: relativePath,
+        before: this.readProjectFile(relativePath),
+        after: null,
+      });
+    }
+    if (this.actor.type === 'ai' && !this.changeSet.tools.includes(this.actor.name)) {
+      this.changeSet.tools.push(this.actor.name);
+    }
+  }
+
+  // Project-relative, with forward slashes on every platform
+  private toRelativePath(filePath: string): string {
+    return path.relative(this.projectPath, filePath).split(path.sep).join('/');
+  }
+
+  private readProjectFile(relativePath: string): string | null {
+    const filePath = path.join(this.projectPath, relativePath);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+  }
+
+  private saveChangeSet(changeSet: ChangeSet): void {
+    const snapshotsDir = this.getSnapshotsDir();
+
+    if (!fs.existsSync(snapshotsDir)) {
+      fs.mkdirSync(snapshotsDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      this.getChangeSetPath(changeSet.id),
+      JSON.stringify(changeSet, null, 2),
+      'utf-8'
+    );
+  }
+
+  async getChangeSet(changeSetId: string): Promise<ChangeSet | null> {
+    if (!GENERATED_ID.test(changeSetId)) {
+      return null;
+    }
+
+    const changeSetPath = this.getChangeSetPath(changeSetId);
+
+    if (!fs.existsSync(changeSetPath)) {
+      return null;
+    }
+
+    const content = fs.readFileSync(changeSetPath, 'utf-8');
+    try {
+      return ChangeSetSchema.parse(JSON.parse(content));
+    } catch {
+      throw new Error(`Change set "${changeSetId}" is corrupt and cannot be loaded`);
+    }
+  }
+
+  // Most recent first
+  async listChangeSets(): Promise<ChangeSet[]> {
+    const changeSets: ChangeSet[] = [];
+    const snapshotsDir = this.getSnapshotsDir();
+
+    if (!fs.existsSync(snapshotsDir)) {
+      return changeSets;
+    }
+
+    const changeSetFiles = fs.readdirSync(snapshotsDir).filter((f) => f.endsWith('.json'));
+
+    for (const changeSetFile of changeSetFiles) {
+      const content = fs.readFileSync(path.join(snapshotsDir, changeSetFile), 'utf-8');
+      try {
+        changeSets.push(ChangeSetSchema.parse(JSON.parse(content)));
+      } catch {
+        // Skip invalid files
+      }
+    }
+
+    return changeSets.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Staging - hold back every write until it is committed, e.g. for the user to approve
+  beginStaging(): void {
+    this.staged = new Map();
+    this.stagedHistory = [];
+  }
+
+  // The staged writes as file changes; writes that change nothing are left out
+  getStagedChanges(): FileSnapshot[] {
+    return [...(this.staged || new Map<string, string | null>())]
+      .map(([filePath, after]) => {
+        const relativePath = this.toRelativePath(filePath);
+        return { path: relativePath, before: this.readProjectFile(relativePath), after };
+      })
+      .filter((file) => file.before !== file.after);
+  }
+
+  commitStaged(): void {
+    const staged = this.staged;
+    const history = this.stagedHistory;
+    this.discardStaged();
+    if (!staged) return;
+
+    for (const [filePath, content] of staged) {
+      this.writeProjectFile(filePath, content);
+    }
+    history.forEach((entry) => appendHistory(this.projectPath, entry));
+  }
+
+  discardStaged(): void {
+    this.staged = null;
+    this.stagedHistory = [];
+  }
+
+  // Files edited again since the change set wrote them; undoing would lose those edits
+  findUndoConflicts(changeSet: ChangeSet): string[] {
+    return changeSet.files
+      .filter((file) => this.readProjectFile(file.path) !== file.after)
+      .map((file) => file.path);
+  }
+
+  // Put every file back the way it was before the change set and mark it undone
+  async undoChangeSet(changeSet: ChangeSet): Promise<void> {
+    if (changeSet.undoneAt) {
+      throw new Error(`Change set "${changeSet.id}" has already been undone`);
+    }
+
+    for (const file of [...changeSet.files].reverse()) {
+      const filePath = path.join(this.projectPath, file.path);
+      const current = this.readProjectFile(file.path);
+
+      if (file.before === null) {
+        if (current !== null) fs.unlinkSync(filePath);
+        // Drop directories left empty, such as a feature the change set created; they
+        // may already be gone if the files were removed by hand
+        let dir = path.dirname(filePath);
+        while (
+          path.dirname(dir) !== this.projectPath &&
+          (!fs.existsSync(dir) || fs.readdirSync(dir).length === 0)
+        ) {
+          if (fs.existsSync(dir)) fs.rmdirSync(dir);
+          dir = path.dirname(dir);
+        }
+      } else {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, file.before, 'utf-8');
+      }
+      this.recordRestore(file.path, current, file.before);
+    }
+    this.storyIndex = null;
+
+    changeSet.undoneAt = new Date().toISOString();
+    this.saveChangeSet(changeSet);
+  }
+
+  // Log a restored story, feature, persona or sprint file in the change history
+  private recordRestore(relativePath: string, current: string | null, restored: string | null): void {
+    // features/<feature>/stories/<story>.md, features/<feature>/feature.md,
+    // personas/<persona>.md or sprints/<sprint>.md
+    const parts = relativePath.split('/');
+    const isStory =
+      parts[0] === 'features' && parts.length === 4 && parts[2] === 'stories' && parts[3].endsWith('.md');
+    const isFeature = parts[0] === 'features' && parts.length === 3 && parts[2] === 'feature.md';
+    const isPersona = parts[0] === 'personas' && parts.length === 2 && parts[1].endsWith('.md');
+    const isSprint = parts[0] === 'sprints' && parts.length === 2 && parts[1].endsWith('.md');
+    if (!isStory && !isFeature && !isPersona && !isSprint) return;
+
+    const parse = isStory
+      ? markdownToStory
+      : isFeature
+        ? markdownToFeature
+        : isPersona
+          ? markdownToPersona
+          : markdownToSprint;
+    let before: Record<string, unknown> | undefined;
+    let after: Record<string, unknown> | undefined;
+    try {
+      before = current === null ? undefined : parse(current);
+      after = restored === null ? undefined : parse(restored);
+    } catch {
+      // A file that no longer parses has no field-level history to record
+      return;
+    }
+
+    const action = !before ? 'create' : !after ? 'delete' : 'update';
+    if (isStory) {
+      const featureId = parts[1];
+      this.recordChange(
+        action,
+        'story',
+        parts[3].slice(0, -'.md'.length),
+        featureId === 'backlog' ? undefined : featureId,
+        diffRecords(before, after)
+      );
+    } else if (isFeature) {
+      this.recordChange(action, 'feature', parts[1], undefined, diffRecords(before, after));
+    } else {
+      const id = parts[1].slice(0, -'.md'.length);
+      this.recordChange(action, isPersona ? 'persona' : 'sprint', id, undefined, diffRecords(before, after));
+    }
+  }
+
+  // Story and feature files the list and search calls so far had to leave out
+  getInvalidFiles(): InvalidFile[] {
+    return [...this.invalidFiles.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  // Read every story and feature file and return the ones that fail to parse
+  async findInvalidFiles(): Promise<InvalidFile[]> {
+    this.invalidFiles.clear();
+    await this.listFeatures();
+    await this.listStories();
+    return this.getInvalidFiles();
+  }
+
+  // What doctor can fix automatically in an invalid file's frontmatter, without
+  // saving anything. Null when the file is gone or its YAML cannot be read.
+  getFileRepair(file: InvalidFile): FileRepair | null {
+    const content = this.readProjectFile(file.path);
+    if (content === null) return null;
+
+    const parse = file.entity === 'story' ? markdownToStory : markdownToFeature;
+    return repairFrontmatter(content, parse, file.id);
+  }
+
+  // Save a repair from getFileRepair that needs no hand edits
+  async repairInvalidFile(file: InvalidFile, repair: FileRepair): Promise<void> {
+    if (repair.manual.length > 0) {
+      throw new Error(`${file.path} needs a hand edit before it can be saved`);
+    }
+
+    const filePath = path.join(this.projectPath, file.path);
+    this.writeProjectFile(filePath, repair.content);
+    this.invalidFiles.delete(filePath);
+    this.recordChange('update', file.entity, file.id, file.feature, repair.fixes);
   }
 }
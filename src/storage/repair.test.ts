@@ -0,0 +1,148 @@
+import matter from 'gray-matter';
+import { z } from 'zod';
+import { describe, expect, it } from 'vitest';
+import { markdownToStory } from './index.js';
+import { repairFrontmatter, describeParseError } from './repair.js';
+
+function file(frontmatter: string, body = 'Notes\n'): string {
+  return `---\n${frontmatter}\n---\n${body}`;
+}
+
+describe('repairFrontmatter', () => {
+  it('normalises enum spellings and converts values to the expected types', () => {
+    const repair = repairFrontmatter(
+      file(
+        [
+          'title: Pay by card',
+          'status: In Progress',
+          'priority: Urgent',
+          'tags: payments, mvp',
+          "rank: '3'",
+          'createdAt: 2026-01-05',
+        ].join('\n')
+      ),
+      markdownToStory,
+      'pay-by-card'
+    );
+
+    expect(repair?.manual).toEqual([]);
+    expect(repair?.fixes).toEqual([
+      { field: 'id', before: undefined, after: 'pay-by-card' },
+      { field: 'status', before: 'In Progress', after: 'in-progress' },
+      { field: 'priority', before: 'Urgent', after: 'critical' },
+      { field: 'tags', before: 'payments, mvp', after: ['payments', 'mvp'] },
+      { field: 'rank', before: '3', after: 3 },
+      { field: 'createdAt', before: '2026-01-05', after: '2026-01-05T00:00:00.000Z' },
+    ]);
+
+    const story = markdownToStory(repair!.content);
+    expect(story).toMatchObject({ id: 'pay-by-card', status: 'in-progress', rank: 3 });
+  });
+
+  it('keeps the markdown body', () => {
+    const content = file('id: a\ntitle: A\nstatus: Done', '## Notes\n\nKeep me\n');
+    const repair = repairFrontmatter(content, markdownToStory, 'a');
+    expect(repair?.content).toContain('## Notes\n\nKeep me');
+  });
+
+  it('converts nested values in place', () => {
+    const repair = repairFrontmatter(
+      file(
+        [
+          'id: a',
+          'title: A',
+          'reviews:',
+          '  - reviewedAt: 2026-02-01',
+          '    analysis:',
+          ...['independent', 'negotiable', 'valuable', 'estimable', 'small', 'testable'].map(
+            (c) => `      ${c}: { score: 7, feedback: ok }`
+          ),
+          '      overallScore: 7',
+        ].join('\n')
+      ),
+      markdownToStory,
+      'a'
+    );
+    expect(repair?.manual).toEqual([]);
+    expect(repair?.fixes).toEqual([
+      { field: 'reviews.0.reviewedAt', before: '2026-02-01', after: '2026-02-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('drops only the offending optional value, never its block', () => {
+    const repair = repairFrontmatter(
+      file(
+        [
+          'id: a',
+          'title: A',
+          'scoring:',
+          '  moscow: must',
+          '  rice: { reach: 1, impact: 1, confidence: 1, effort: 2 }',
+          'rank: 0',
+        ].join('\n')
+      ),
+      markdownToStory,
+      'a'
+    );
+    expect(repair?.manual).toEqual([]);
+    expect(repair?.fixes).toEqual([{ field: 'rank', before: 0, after: undefined }]);
+    expect(markdownToStory(repair!.content).scoring?.moscow).toBe('must');
+  });
+
+  it('leaves values that cannot be fixed without losing data for a hand edit', () => {
+    const repair = repairFrontmatter(
+      file(
+        [
+          'id: a',
+          'title: A',
+          'status: Ready-ish',
+          'scoring:',
+          '  moscow: must',
+          '  rice: { reach: 1, impact: 1, confidence: high, effort: 2 }',
+          'gateOverrides:',
+          '  - gate: nope',
+          'priority: Low',
+        ].join('\n')
+      ),
+      markdownToStory,
+      'a'
+    );
+
+    expect(repair?.fixes).toEqual([{ field: 'priority', before: 'Low', after: 'low' }]);
+    expect(repair?.manual.map((issue) => issue.path).sort()).toEqual([
+      'gateOverrides.0.failures',
+      'gateOverrides.0.from',
+      'gateOverrides.0.gate',
+      'gateOverrides.0.overriddenAt',
+      'gateOverrides.0.to',
+      'scoring.rice.confidence',
+      'status',
+    ]);
+    const confidence = repair?.manual.find((issue) => issue.path === 'scoring.rice.confidence');
+    expect(confidence?.message).toMatch(/received string/);
+  });
+
+  it('does not replace an invalid value with the schema default', () => {
+    const schema = z.object({
+      id: z.string(),
+      title: z.string(),
+      archived: z.boolean().default(false),
+    });
+    const parse = (content: string) => schema.parse(matter(content, {}).data);
+
+    const repair = repairFrontmatter(file('id: a\ntitle: A\narchived: maybe'), parse, 'a');
+    expect(repair?.fixes).toEqual([]);
+    expect(repair?.manual.map((issue) => issue.path)).toEqual(['archived']);
+  });
+
+  it('returns null when the YAML cannot be read', () => {
+    expect(repairFrontmatter(file('id: a\ntitle: [oops'), markdownToStory, 'a')).toBeNull();
+  });
+});
+
+describe('describeParseError', () => {
+  it('keeps the first line of a YAML error', () => {
+    const issues = describeParseError(new Error('bad indentation:\n  line 2\n  ^'));
+    expect(issues).toEqual([{ path: '', message: 'bad indentation' }]);
+  });
+});
@@ -0,0 +1,261 @@
+import matter from 'gray-matter';
+import { ZodError } from 'zod';
+import {
+  StoryStatus,
+  Priority,
+  StoryType,
+  type FieldChange,
+} from '../models/index.js';
+
+// One problem in a story or feature file, e.g. path "status" or "reviews.0.model"
+export interface FileIssue {
+  path: string;
+  message: string;
+}
+
+// The issues behind a parse failure: zod issues by field, or the YAML error as a whole
+export function describeParseError(error: unknown): FileIssue[] {
+  if (error instanceof ZodError) {
+    return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  }
+  // YAML errors quote the offending lines after the first; the first line says enough
+  const message = error instanceof Error ? error.message : String(error);
+  return [{ path: '', message: message.split('\n')[0].replace(/:$/, '') }];
+}
+
+export interface FileRepair {
+  // The file with repaired frontmatter; the markdown body is kept as it was
+  content: string;
+  fixes: FieldChange[];
+  // Problems that only a hand edit can fix without losing data. The content
+  // is only safe to save when this is empty.
+  manual: FileIssue[];
+}
+
+// Common spellings of each enum value, after lower-casing and turning spaces into "-"
+const STATUS_ALIASES: Record<string, StoryStatus> = {
+  todo: 'draft',
+  'to-do': 'draft',
+  new: 'draft',
+  backlog: 'draft',
+  open: 'draft',
+  'ready-for-dev': 'ready',
+  'in-progess': 'in-progress',
+  inprogress: 'in-progress',
+  'in-review': 'in-progress',
+  review: 'in-progress',
+  wip: 'in-progress',
+  doing: 'in-progress',
+  started: 'in-progress',
+  complete: 'done',
+  completed: 'done',
+  closed: 'done',
+  finished: 'done',
+  resolved: 'done',
+};
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  lowest: 'low',
+  minor: 'low',
+  normal: 'medium',
+  med: 'medium',
+  major: 'high',
+  highest: 'critical',
+  urgent: 'critical',
+  blocker: 'critical',
+};
+
+const TYPE_ALIASES: Record<string, StoryType> = {
+  story: 'user-story',
+  userstory: 'user-story',
+  feature: 'user-story',
+  technical: 'technical-story',
+  tech: 'technical-story',
+  'tech-story': 'technical-story',
+  chore: 'technical-story',
+  defect: 'bug',
+  research: 'spike',
+};
+
+// Unknown values are left for a hand edit rather than replaced with the default
+const ENUM_FIELDS: Record<string, { values: readonly string[]; aliases: Record<string, string> }> = {
+  status: { values: StoryStatus.options, aliases: STATUS_ALIASES },
+  priority: { values: Priority.options, aliases: PRIORITY_ALIASES },
+  type: { values: StoryType.options, aliases: TYPE_ALIASES },
+};
+
+// "reset-password" -> "Reset password"
+function titleFromId(id: string): string {
+  const words = id.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+// The same value in the type the schema expected, or undefined if it cannot be converted
+function convertValue(value: unknown, expected: string | undefined): unknown {
+  // Unquoted YAML dates are read as Date objects
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString();
+  }
+
+  if (expected === 'string' && isPrimitive(value)) return String(value);
+  if (expected === 'number' && typeof value === 'string' && value.trim() && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (expected === 'array') {
+    // "tags: auth, payments" instead of a list
+    if (typeof value === 'string') {
+      return value.split(',').map((item) => item.trim()).filter(Boolean);
+    }
+    if (isPrimitive(value)) return [String(value)];
+  }
+
+  return undefined;
+}
+
+// A value the schema accepts for one invalid top-level field, or undefined if there is none
+function fixField(
+  field: string,
+  value: unknown,
+  expected: string | undefined,
+  fileId: string
+): unknown {
+  const enumField = ENUM_FIELDS[field];
+  if (enumField) {
+    const key = String(value ?? '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+    if (enumField.values.includes(key)) return key;
+    return enumField.aliases[key];
+  }
+
+  // A missing id or title can be derived from the file name without losing anything
+  if (field === 'id' && value === undefined) return fileId;
+  if (field === 'title' && (value === undefined || (typeof value === 'string' && !value.trim()))) {
+    return titleFromId(fileId);
+  }
+
+  return convertValue(value, expected);
+}
+
+// The old value as it read in the file, for the list of fixes
+function originalValue(value: unknown): unknown {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value.toISOString().replace('T00:00:00.000Z', '');
+  }
+  return value;
+}
+
+function getPath(data: unknown, keys: PropertyKey[]): unknown {
+  let value: unknown = data;
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<PropertyKey, unknown>)[key];
+  }
+  return value;
+}
+
+// Whether an issue is inside a value that was already rewritten this pass
+function isInside(path: string, paths: Set<string>): boolean {
+  return [...paths].some((p) => path === p || path.startsWith(`${p}.`));
+}
+
+// Rewrite the frontmatter values that fail validation, for doctor to offer. A value
+// is converted to the type the schema expects, or dropped when it is a single
+// optional setting; whole blocks, list items and unknown enum values are never
+// dropped but listed in manual. Returns null when the YAML itself cannot be read.
+export function repairFrontmatter(
+  content: string,
+  parse: (content: string) => unknown,
+  fileId: string
+): FileRepair | null {
+  let data: Record<string, unknown>;
+  let body: string;
+  try {
+    // Options skip gray-matter's cache, which keeps empty data for content that failed to parse
+    const parsed = matter(content, {});
+    data = structuredClone(parsed.data);
+    body = parsed.content;
+  } catch {
+    return null;
+  }
+
+  const fixes: FieldChange[] = [];
+  const manual: FileIssue[] = [];
+  // Dropped values and the issue that caused the drop
+  const dropped = new Map<string, FileIssue>();
+
+  // Drops that did not help are reported with the issue that caused them
+  const finish = (repaired: string): FileRepair => ({
+    content: repaired,
+    fixes: fixes.filter((fix) => !manual.some((issue) => issue.path === fix.field)),
+    manual,
+  });
+
+  // Each pass fixes the values zod reports; fixing one can reveal the next
+  for (let pass = 0; pass < 10; pass++) {
+    const repaired = matter.stringify(body, data);
+    let error: ZodError;
+    try {
+      const result = parse(repaired);
+      // A dropped value the schema filled with its default was replaced, not dropped
+      for (const [path, issue] of dropped) {
+        if (getPath(result, path.split('.')) !== undefined) manual.push(issue);
+      }
+      return finish(repaired);
+    } catch (e) {
+      if (!(e instanceof ZodError)) return null;
+      error = e;
+    }
+
+    // Values already rewritten this pass; later issues in them may be stale
+    const touched = new Set<string>();
+    let changed = false;
+    for (const issue of error.issues) {
+      const path = issue.path.join('.');
+      if (isInside(path, touched) || manual.some((m) => m.path === path)) continue;
+
+      // A required value that was dropped: the original problem needs a hand edit
+      const droppedIssue = dropped.get(path);
+      if (droppedIssue) {
+        manual.push(droppedIssue);
+        continue;
+      }
+
+      const parent = getPath(data, issue.path.slice(0, -1));
+      const key = issue.path[issue.path.length - 1];
+      const value = getPath(data, issue.path);
+      const expected = issue.code === 'invalid_type' ? issue.expected : undefined;
+      if (key === undefined || parent === null || typeof parent !== 'object') {
+        manual.push({ path, message: issue.message });
+        continue;
+      }
+
+      const replacement =
+        issue.path.length === 1 && typeof key === 'string'
+          ? fixField(key, value, expected, fileId)
+          : convertValue(value, expected);
+
+      if (replacement !== undefined) {
+        (parent as Record<PropertyKey, unknown>)[key] = replacement;
+        fixes.push({ field: path, before: originalValue(value), after: replacement });
+      } else if (isPrimitive(value) && !Array.isArray(parent) && !ENUM_FIELDS[path]) {
+        // Only this one value goes; its parent block and siblings are kept
+        delete (parent as Record<PropertyKey, unknown>)[key];
+        fixes.push({ field: path, before: originalValue(value), after: undefined });
+        dropped.set(path, { path, message: issue.message });
+      } else {
+        manual.push({ path, message: issue.message });
+        continue;
+      }
+      touched.add(path);
+      changed = true;
+    }
+
+    if (!changed) return finish(repaired);
+  }
+
+  manual.push({ path: '', message: 'Too many problems to repair automatically' });
+  return finish(matter.stringify(body, data));
+}
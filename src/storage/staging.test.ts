@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readHistory } from '../history/index.js';
+import { story, createTempProject, removeTempProject } from '../testing/fixtures.js';
+import { StorageManager } from './index.js';
+
+describe('staging', () => {
+  let projectPath: string;
+  let storage: StorageManager;
+
+  beforeEach(async () => {
+    projectPath = createTempProject();
+    storage = new StorageManager(projectPath);
+    await storage.createStory(story('wishlist', { title: 'Keep a wishlist' }));
+  });
+
+  afterEach(() => {
+    removeTempProject(projectPath);
+  });
+
+  // Stage a new story and an edit to an existing one
+  async function stageChanges() {
+    storage.beginStaging();
+    await storage.createStory(story('pay-by-card'));
+    await storage.updateStory(story('wishlist', { title: 'Keep a wish list' }));
+  }
+
+  it('holds writes back and lists them as file changes', async () => {
+    await stageChanges();
+
+    const changes = storage.getStagedChanges();
+    expect(changes.map((c) => [c.path, c.before === null])).toEqual([
+      ['features/backlog/stories/pay-by-card.md', true],
+      ['features/backlog/stories/wishlist.md', false],
+    ]);
+    expect(changes[1].after).toContain('title: Keep a wish list');
+
+    const reader = new StorageManager(projectPath);
+    expect(await reader.findStory('pay-by-card')).toBeNull();
+    expect((await reader.findStory('wishlist'))?.title).toBe('Keep a wishlist');
+    expect(readHistory(projectPath).map((e) => e.id)).toEqual(['wishlist']);
+  });
+
+  it('writes the files and their history on commit', async () => {
+    await stageChanges();
+    storage.commitStaged();
+
+    const reader = new StorageManager(projectPath);
+    expect(await reader.findStory('pay-by-card')).not.toBeNull();
+    expect((await reader.findStory('wishlist'))?.title).toBe('Keep a wish list');
+    expect(readHistory(projectPath).map((e) => [e.action, e.id])).toEqual([
+      ['create', 'wishlist'],
+      ['create', 'pay-by-card'],
+      ['update', 'wishlist'],
+    ]);
+    expect(storage.getStagedChanges()).toEqual([]);
+  });
+
+  it('drops everything on discard', async () => {
+    await stageChanges();
+    storage.discardStaged();
+
+    expect(storage.getStagedChanges()).toEqual([]);
+    expect(await storage.findStory('pay-by-card')).toBeNull();
+    expect((await storage.findStory('wishlist'))?.title).toBe('Keep a wishlist');
+    expect(readHistory(projectPath)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,27 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorySchema, type Story } from '../models/index.js';
+
+// Fixed timestamps keep fixtures equal from one run to the next
+const FIXTURE_TIME = '2026-01-01T00:00:00.000Z';
+
+// A valid story with schema defaults for every field not given; the title defaults to the ID
+export function story(id: string, fields: Partial<Story> = {}): Story {
+  return StorySchema.parse({
+    id,
+    title: id,
+    createdAt: FIXTURE_TIME,
+    updatedAt: FIXTURE_TIME,
+    ...fields,
+  });
+}
+
+// An empty project directory under the OS temp dir; remove it with removeTempProject
+export function createTempProject(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'one-p-test-'));
+}
+
+export function removeTempProject(projectPath: string): void {
+  fs.rmSync(projectPath, { recursive: true, force: true });
+}
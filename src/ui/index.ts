@@ -1,7 +1,30 @@
 import chalk from 'chalk';
 import ora, { type Ora } from 'ora';
 import inquirer from 'inquirer';
-import type { Story, Feature, StoryStatus, Priority } from '../models/index.js';
+import type {
+  Story,
+  Feature,
+  Persona,
+  Session,
+  StoryStatus,
+  Priority,
+  InvestAnalysis,
+  StoryReview,
+  ScoringModel,
+  Sprint,
+  HistoryEntry,
+  ChangeSet,
+  FileSnapshot,
+} from '../models/index.js';
+import {
+  calculateScore,
+  describeScoringInputs,
+  parseStoryPoints,
+  sumStoryPoints,
+} from '../backlog/index.js';
+import type { SimilarStory, SearchResult, SearchSnippet } from '../search/index.js';
+import { GATE_LABELS, type GateResult } from '../workflow/index.js';
+import type { FileIssue, FileRepair, InvalidFile } from '../storage/index.js';
 
 // Colors for different statuses
 const statusColors: Record<StoryStatus, (text: string) => string> = {
@@ -40,6 +63,14 @@ export function stopSpinner(success: boolean = true, text?: string): void {
   }
 }
 
+// Remove the spinner line without printing a status symbol
+export function clearSpinner(): void {
+  if (currentSpinner) {
+    currentSpinner.stop();
+    currentSpinner = null;
+  }
+}
+
 export function updateSpinner(text: string): void {
   if (currentSpinner) {
     currentSpinner.text = text;
@@ -84,7 +115,12 @@ export function displayStory(story: Story, detailed: boolean = false): void {
 
   console.log();
   console.log(`${chalk.bold(story.title)} ${priority} ${status}`);
-  console.log(chalk.gray(`ID: ${story.id} | Feature: ${story.feature || 'backlog'}`));
+  console.log(
+    chalk.gray(
+      `ID: ${story.id} | Feature: ${story.feature || 'backlog'}` +
+        (story.persona ? ` | Persona: ${story.persona}` : '')
+    )
+  );
 
   if (detailed) {
     if (story.asA && story.iWant && story.soThat) {
@@ -118,6 +154,34 @@ export function displayStory(story: Story, detailed: boolean = false): void {
         console.log(chalk.gray(`    • ${ec}`));
       }
     }
+
+    const latest = story.reviews[story.reviews.length - 1];
+    if (latest) {
+      console.log();
+      console.log(
+        chalk.gray(
+          `  INVEST score: ${scoreColor(latest.analysis.overallScore)(`${latest.analysis.overallScore}/10`)}` +
+            ` (reviewed ${latest.reviewedAt.slice(0, 10)})`
+        )
+      );
+    }
+
+    if (story.gateOverrides.length > 0) {
+      console.log();
+      console.log(chalk.bold('  Gate Overrides:'));
+      for (const override of story.gateOverrides) {
+        console.log(
+          chalk.yellow(
+            `    ! ${override.overriddenAt.slice(0, 10)} ${override.from} → ${override.to}: ` +
+              `${GATE_LABELS[override.gate]} skipped` +
+              (override.reason ? ` (${override.reason})` : '')
+          )
+        );
+        for (const failure of override.failures) {
+          console.log(chalk.gray(`      ${failure}`));
+        }
+      }
+    }
   }
 }
 
@@ -146,6 +210,34 @@ export function displayFeature(feature: Feature, storyCount?: number): void {
   }
 }
 
+// Persona display
+export function displayPersona(persona: Persona, detailed: boolean = false): void {
+  console.log();
+  console.log(chalk.bold(persona.name));
+  console.log(chalk.gray(`ID: ${persona.id}`));
+
+  if (persona.description) {
+    console.log(chalk.white(`  ${persona.description}`));
+  }
+
+  if (!detailed) return;
+
+  const sections: Array<[string, string[]]> = [
+    ['Goals', persona.goals],
+    ['Pain Points', persona.painPoints],
+    ['Behaviors', persona.behaviors],
+  ];
+
+  for (const [heading, items] of sections) {
+    if (items.length === 0) continue;
+    console.log();
+    console.log(chalk.bold(`  ${heading}:`));
+    for (const item of items) {
+      console.log(chalk.gray(`    • ${item}`));
+    }
+  }
+}
+
 // Story list display
 export function displayStoryList(stories: Story[]): void {
   if (stories.length === 0) {
@@ -179,6 +271,630 @@ export function displayStoryList(stories: Story[]): void {
   }
 }
 
+// Ranked backlog display, with an optional score column for a scoring model
+export function displayBacklog(stories: Story[], model?: ScoringModel): void {
+  const rankWidth = Math.max(1, String(stories.length).length);
+  const idWidth = Math.min(24, Math.max(2, ...stories.map((s) => s.id.length)));
+  const titleWidth = Math.min(40, Math.max(5, ...stories.map((s) => s.title.length)));
+
+  console.log();
+  for (const story of stories) {
+    const rank = chalk.gray(String(story.rank ?? '–').padStart(rankWidth));
+    const priority = priorityColors[story.priority](`[${story.priority.charAt(0).toUpperCase()}]`);
+    const status = statusColors[story.status](story.status.padEnd(11));
+    const id = truncate(story.id, idWidth).padEnd(idWidth);
+    const title = model ? truncate(story.title, titleWidth).padEnd(titleWidth) : story.title;
+    let line = `  ${rank}. ${priority} ${status} ${id}  ${title}`;
+
+    if (model) {
+      const value = calculateScore(story, model);
+      line +=
+        value === null
+          ? chalk.gray(`  (no ${model} inputs)`)
+          : chalk.cyan(`  ${model} ${value}`) + chalk.gray(`  ${describeScoringInputs(story, model)}`);
+    }
+    console.log(line);
+  }
+}
+
+const confidenceColors: Record<string, (text: string) => string> = {
+  low: chalk.yellow,
+  medium: chalk.white,
+  high: chalk.green,
+};
+
+// Suggested estimate with its reason and the stories it was compared with
+export function displayStoryEstimate(
+  story: Story,
+  estimate: { estimate: string; confidence: string; reasoning: string; referenceStoryIds: string[] },
+  previousEstimate?: string
+): void {
+  const confidence = (confidenceColors[estimate.confidence] || chalk.white)(
+    `${estimate.confidence} confidence`
+  );
+  const previous =
+    previousEstimate && previousEstimate !== estimate.estimate
+      ? chalk.gray(` (was ${previousEstimate})`)
+      : '';
+  console.log(
+    `  ${chalk.bold(story.id)}: ${chalk.cyan(estimate.estimate)}${previous}  ${confidence}`
+  );
+  console.log(chalk.gray(`    ${estimate.reasoning}`));
+  if (estimate.referenceStoryIds.length > 0) {
+    console.log(chalk.gray(`    Compared with: ${estimate.referenceStoryIds.join(', ')}`));
+  }
+}
+
+// Definition of Ready/Done gates a status change did not pass
+export function displayGateFailures(failed: GateResult[]): void {
+  for (const result of failed) {
+    console.log(chalk.red(`  ${result.label} not met:`));
+    for (const failure of result.failures) {
+      console.log(chalk.red(`    ✗ ${failure}`));
+    }
+  }
+}
+
+// Short, readable form of a value from the change history
+function formatHistoryValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return chalk.gray('(none)');
+  if (typeof value === 'string') return `"${truncate(value, 60)}"`;
+  if (Array.isArray(value)) {
+    return value.length === 0 ? chalk.gray('[]') : `[${truncate(value.map(String).join(', '), 60)}]`;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // Acceptance criteria and reviews are the usual list items
+    if (typeof record.text === 'string') {
+      return `${record.completed ? '✓' : '○'} "${truncate(record.text, 56)}"`;
+    }
+    const analysis = record.analysis as { overallScore?: number } | undefined;
+    if (analysis?.overallScore !== undefined) {
+      return `review ${analysis.overallScore}/10`;
+    }
+    return truncate(JSON.stringify(value), 60);
+  }
+  return String(value);
+}
+
+const historyActionColors: Record<HistoryEntry['action'], (text: string) => string> = {
+  create: chalk.green,
+  update: chalk.cyan,
+  move: chalk.magenta,
+  delete: chalk.red,
+};
+
+// Timeline of history entries; with showSubject each line names the story or feature
+export function displayHistory(entries: HistoryEntry[], showSubject: boolean = false): void {
+  for (const entry of entries) {
+    const at = entry.at.slice(0, 16).replace('T', ' ');
+    const actor = chalk.gray(`${entry.actor.type}:${entry.actor.name}`);
+    const action = historyActionColors[entry.action](entry.action.padEnd(6));
+    const subject = showSubject
+      ? ` ${entry.entity} ${chalk.bold(entry.entity === 'story' ? `${entry.feature || 'backlog'}/${entry.id}` : entry.id)}`
+      : '';
+    console.log(`  ${chalk.gray(at)}  ${action}${subject}  ${actor}`);
+
+    if (entry.action === 'create' || entry.action === 'delete') {
+      const title = entry.changes.find((c) => c.field === 'title');
+      if (title) {
+        console.log(chalk.gray(`      ${formatHistoryValue(title.before ?? title.after)}`));
+      }
+      continue;
+    }
+
+    for (const change of entry.changes) {
+      console.log(
+        `      ${change.field}: ${formatHistoryValue(change.before)} → ${formatHistoryValue(change.after)}`
+      );
+    }
+  }
+}
+
+// Line diff of two texts by longest common subsequence; files here are small
+function diffLines(before: string, after: string): Array<{ op: ' ' | '+' | '-'; line: string }> {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ op: ' ' | '+' | '-'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', line: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', line: a[i++] });
+    } else {
+      lines.push({ op: '+', line: b[j++] });
+    }
+  }
+  return lines;
+}
+
+// Proposed file changes as a diff, with two lines of context around each change
+export function displayFileChanges(changes: FileSnapshot[]): void {
+  const CONTEXT = 2;
+
+  for (const file of changes) {
+    console.log();
+    const kind = file.before === null ? 'new file' : file.after === null ? 'deleted' : 'modified';
+    console.log(`  ${chalk.bold(file.path)} ${chalk.gray(`(${kind})`)}`);
+
+    const lines = diffLines(file.before ?? '', file.after ?? '');
+    const shown = lines.map((_, index) =>
+      lines
+        .slice(Math.max(0, index - CONTEXT), index + CONTEXT + 1)
+        .some((l) => l.op !== ' ')
+    );
+
+    lines.forEach(({ op, line }, index) => {
+      if (!shown[index]) {
+        if (index > 0 && shown[index - 1]) console.log(chalk.gray('    ...'));
+        return;
+      }
+      const text = `    ${op} ${line}`;
+      console.log(op === '+' ? chalk.green(text) : op === '-' ? chalk.red(text) : chalk.gray(text));
+    });
+  }
+}
+
+// One AI turn's file changes: + created, ~ modified, - deleted
+export function displayChangeSet(changeSet: ChangeSet): void {
+  const at = new Date(changeSet.createdAt).toLocaleString();
+  const undone = changeSet.undoneAt ? chalk.yellow(' (undone)') : '';
+  console.log(`  ${chalk.bold(changeSet.id)}${undone}`);
+  if (changeSet.label) {
+    console.log(chalk.gray(`    "${truncate(changeSet.label, 70)}"`));
+  }
+  const tools = changeSet.tools.length > 0 ? ` | ${changeSet.tools.join(', ')}` : '';
+  console.log(chalk.gray(`    ${at}${tools}`));
+
+  for (const file of changeSet.files) {
+    const marker =
+      file.before === null ? chalk.green('+') : file.after === null ? chalk.red('-') : chalk.cyan('~');
+    console.log(`    ${marker} ${file.path}`);
+  }
+}
+
+export function displayChangeSetList(changeSets: ChangeSet[]): void {
+  if (changeSets.length === 0) {
+    console.log(chalk.gray('  No changes recorded.'));
+    return;
+  }
+
+  for (const changeSet of changeSets) {
+    console.log();
+    displayChangeSet(changeSet);
+  }
+}
+
+function formatFileIssue(issue: FileIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+// Files left out of a list or search, so a broken story does not vanish silently.
+// Commands that write their result to stdout send the warning to stderr instead.
+export function displayInvalidFiles(files: InvalidFile[], toStderr: boolean = false): void {
+  if (files.length === 0) return;
+
+  const log = toStderr ? console.error : console.log;
+  log();
+  log(
+    chalk.yellow(
+      `⚠ ${files.length} file${files.length === 1 ? '' : 's'} could not be read and ${files.length === 1 ? 'is' : 'are'} left out:`
+    )
+  );
+  for (const file of files) {
+    const more = file.issues.length > 1 ? chalk.gray(` (+${file.issues.length - 1} more)`) : '';
+    log(`    ${file.path}  ${chalk.gray(truncate(formatFileIssue(file.issues[0]), 70))}${more}`);
+  }
+  log(chalk.gray('  Run "one-p doctor" to see every problem and repair what it can.'));
+}
+
+// Every problem in an invalid file, by field
+export function displayFileIssues(file: InvalidFile): void {
+  console.log(`  ${chalk.bold(file.path)}`);
+  for (const issue of file.issues) {
+    console.log(chalk.red(`    ✗ ${formatFileIssue(issue)}`));
+  }
+}
+
+// The fixes doctor proposes for a file, and the problems it leaves for a hand edit
+export function displayFileRepair(repair: FileRepair): void {
+  for (const fix of repair.fixes) {
+    console.log(
+      chalk.cyan(`    ~ ${fix.field}: `) +
+        `${formatHistoryValue(fix.before)} → ${formatHistoryValue(fix.after)}`
+    );
+  }
+  for (const issue of repair.manual) {
+    console.log(chalk.yellow(`    ! ${formatFileIssue(issue)}`) + chalk.gray(' (edit by hand)'));
+  }
+}
+
+// Sprint list, one line per sprint
+export function displaySprintList(sprints: Sprint[]): void {
+  if (sprints.length === 0) {
+    console.log(chalk.gray('  No sprints found.'));
+    return;
+  }
+
+  for (const sprint of sprints) {
+    const status = sprint.status === 'open' ? chalk.green('open  ') : chalk.gray('closed');
+    const velocity =
+      sprint.velocity !== undefined ? chalk.gray(`  velocity ${sprint.velocity}`) : '';
+    console.log(
+      `  ${status} ${chalk.bold(sprint.id)}: ${sprint.name}` +
+        chalk.gray(`  ${sprint.startDate} → ${sprint.endDate}  ${sprint.stories.length} stories`) +
+        velocity
+    );
+  }
+}
+
+// Sprint details with its stories and how full it is; missing entries name stories
+// the sprint lists that no longer exist
+export function displaySprint(sprint: Sprint, stories: Story[], missing: string[] = []): void {
+  console.log();
+  console.log(chalk.bold.white(sprint.name) + chalk.gray(` (${sprint.id}, ${sprint.status})`));
+  console.log(chalk.gray(`  ${sprint.startDate} → ${sprint.endDate}`));
+  if (sprint.goal) {
+    console.log(`  ${chalk.cyan('Goal:')} ${sprint.goal}`);
+  }
+
+  const planned = sumStoryPoints(stories);
+  const done = sumStoryPoints(stories.filter((s) => s.status === 'done'));
+  console.log();
+  displayProgress('Capacity', planned, sprint.capacity);
+  displayProgress('Done', done, planned);
+  if (sprint.velocity !== undefined) {
+    console.log(
+      `  ${chalk.cyan('Velocity:')} ${sprint.velocity} of ${sprint.committedPoints ?? planned} committed points`
+    );
+  }
+
+  console.log();
+  if (stories.length === 0) {
+    console.log(chalk.gray('  No stories planned.'));
+  }
+  for (const story of stories) {
+    const points = parseStoryPoints(story.estimate);
+    const estimate = points === undefined ? chalk.gray('  ?') : chalk.cyan(String(points).padStart(3));
+    const status = statusColors[story.status](story.status.padEnd(11));
+    console.log(`  ${estimate}  ${status} ${story.id}: ${story.title}`);
+  }
+
+  if (missing.length > 0) {
+    console.log(chalk.yellow(`  Missing stories: ${missing.join(', ')}`));
+  }
+  if (sprint.carriedOver.length > 0) {
+    console.log(chalk.gray(`  Carried over: ${sprint.carriedOver.join(', ')}`));
+  }
+}
+
+// Board display
+export interface BoardSelection {
+  column: number;
+  row: number;
+}
+
+const MIN_COLUMN_WIDTH = 18;
+
+// Length as shown in the terminal, ignoring color codes
+function visibleLength(text: string): number {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\x1b\[[0-9;]*m/g, '').length;
+}
+
+function padVisible(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - visibleLength(text)));
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.slice(0, Math.max(0, width - 1)) + '…' : text;
+}
+
+// Wrap to at most maxLines lines, truncating the last one
+function wrapText(text: string, width: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ' ' + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = truncate(lines.slice(maxLines - 1).join(' '), width);
+    return kept.map((line) => truncate(line, width));
+  }
+  return lines.map((line) => truncate(line, width));
+}
+
+function progressBar(done: number, total: number, width: number): string {
+  const filled = total > 0 ? Math.round((done / total) * width) : 0;
+  const color = total > 0 && done === total ? chalk.green : chalk.cyan;
+  return color('█'.repeat(filled)) + chalk.gray('░'.repeat(width - filled));
+}
+
+function renderCard(story: Story, width: number, selected: boolean): string[] {
+  const inner = width - 4;
+  const border = selected ? chalk.bold.cyan : chalk.gray;
+  const line = (content: string): string =>
+    border('│') + ' ' + padVisible(content, inner) + ' ' + border('│');
+
+  const priority = priorityColors[story.priority](story.priority.charAt(0).toUpperCase());
+  const id = truncate(story.id, inner - 2);
+  const lines = [
+    border('╭' + '─'.repeat(width - 2) + '╮'),
+    line(padVisible(selected ? chalk.bold(id) : id, inner - 1) + priority),
+    ...wrapText(story.title, inner, 2).map((text) => line(chalk.white(text))),
+  ];
+
+  const total = story.acceptanceCriteria.length;
+  if (total > 0) {
+    const done = story.acceptanceCriteria.filter((ac) => ac.completed).length;
+    const label = ` ${done}/${total}`;
+    lines.push(line(progressBar(done, total, Math.max(1, inner - label.length)) + chalk.gray(label)));
+  } else {
+    lines.push(line(chalk.gray('no criteria')));
+  }
+
+  lines.push(border('╰' + '─'.repeat(width - 2) + '╯'));
+  return lines;
+}
+
+// Order cards within a column: highest priority first, then by ID
+export function sortBoardColumn(stories: Story[]): Story[] {
+  const order: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+  return [...stories].sort(
+    (a, b) => order[a.priority] - order[b.priority] || a.id.localeCompare(b.id)
+  );
+}
+
+// Draw one column per status, side by side, fitted to the terminal width
+export function renderBoard(
+  columns: Array<{ status: StoryStatus; stories: Story[] }>,
+  options: { selection?: BoardSelection; width?: number } = {}
+): string {
+  const totalWidth = options.width || process.stdout.columns || 120;
+  const columnWidth = Math.max(
+    MIN_COLUMN_WIDTH,
+    Math.floor((totalWidth - (columns.length - 1)) / columns.length)
+  );
+
+  const rendered = columns.map((column, c) => {
+    const header = statusColors[column.status](
+      chalk.bold(truncate(`${column.status.toUpperCase()} (${column.stories.length})`, columnWidth))
+    );
+    const lines = [header, chalk.gray('─'.repeat(columnWidth))];
+    column.stories.forEach((story, r) => {
+      const selected = options.selection?.column === c && options.selection.row === r;
+      lines.push(...renderCard(story, columnWidth, selected));
+    });
+    if (column.stories.length === 0) {
+      const selected = options.selection?.column === c;
+      lines.push(selected ? chalk.bold.cyan('  (empty)') : chalk.gray('  (empty)'));
+    }
+    return lines;
+  });
+
+  const height = Math.max(...rendered.map((lines) => lines.length));
+  const rows: string[] = [];
+  for (let i = 0; i < height; i++) {
+    rows.push(rendered.map((lines) => padVisible(lines[i] || '', columnWidth)).join(' ').trimEnd());
+  }
+  return rows.join('\n');
+}
+
+function scoreColor(score: number): (text: string) => string {
+  if (score >= 8) return chalk.green;
+  if (score >= 5) return chalk.yellow;
+  return chalk.red;
+}
+
+type InvestCriterion = Exclude<keyof InvestAnalysis, 'overallScore' | 'summary' | 'suggestions'>;
+
+const investLabels: Array<[InvestCriterion, string]> = [
+  ['independent', 'Independent'],
+  ['negotiable', 'Negotiable'],
+  ['valuable', 'Valuable'],
+  ['estimable', 'Estimable'],
+  ['small', 'Small'],
+  ['testable', 'Testable'],
+];
+
+// INVEST analysis display
+export function displayInvestAnalysis(analysis: InvestAnalysis): void {
+  console.log();
+  for (const [key, label] of investLabels) {
+    const { score, feedback } = analysis[key];
+    console.log(`  ${chalk.bold(label.padEnd(12))} ${scoreColor(score)(`${score}/10`.padStart(5))}`);
+    console.log(chalk.gray(`    ${feedback}`));
+  }
+
+  console.log();
+  console.log(
+    `  ${chalk.bold('Overall'.padEnd(12))} ${scoreColor(analysis.overallScore)(`${analysis.overallScore}/10`.padStart(5))}`
+  );
+  if (analysis.summary) {
+    console.log(chalk.white(`    ${analysis.summary}`));
+  }
+
+  if (analysis.suggestions.length > 0) {
+    console.log();
+    console.log(chalk.bold('  Suggestions:'));
+    analysis.suggestions.forEach((suggestion, i) => {
+      console.log(chalk.cyan(`    ${i + 1}. ${suggestion}`));
+    });
+  }
+}
+
+// Review history display, showing how the overall score moved
+export function displayReviewHistory(reviews: StoryReview[]): void {
+  console.log();
+  console.log(chalk.bold('  Review History:'));
+
+  reviews.forEach((review, i) => {
+    const score = review.analysis.overallScore;
+    const previous = i > 0 ? reviews[i - 1].analysis.overallScore : undefined;
+    let change = '';
+    if (previous !== undefined) {
+      const delta = Math.round((score - previous) * 10) / 10;
+      change =
+        delta > 0 ? chalk.green(` +${delta}`) : delta < 0 ? chalk.red(` ${delta}`) : chalk.gray(' ±0');
+    }
+    const date = review.reviewedAt.slice(0, 16).replace('T', ' ');
+    console.log(`    ${chalk.gray(date)}  ${scoreColor(score)(`${score}/10`)}${change}`);
+  });
+}
+
+const relationshipColors: Record<string, (text: string) => string> = {
+  duplicate: chalk.red,
+  conflicting: chalk.magenta,
+  overlapping: chalk.yellow,
+  related: chalk.cyan,
+};
+
+// Duplicate/conflict findings from the model
+export function displayDuplicateFindings(
+  findings: Array<{
+    storyId: string;
+    otherStoryId: string;
+    relationship: string;
+    explanation: string;
+    suggestion?: string;
+  }>
+): void {
+  for (const finding of findings) {
+    const color = relationshipColors[finding.relationship] || chalk.white;
+    console.log();
+    console.log(
+      `  ${color(finding.relationship.toUpperCase())} ${chalk.bold(finding.storyId)} ↔ ${chalk.bold(finding.otherStoryId)}`
+    );
+    console.log(chalk.white(`    ${finding.explanation}`));
+    if (finding.suggestion) {
+      console.log(chalk.gray(`    → ${finding.suggestion}`));
+    }
+  }
+}
+
+// Locally matched stories with their similarity score
+export function displaySimilarStories(matches: SimilarStory[]): void {
+  for (const match of matches) {
+    console.log(
+      `    ${chalk.yellow(match.score.toFixed(2))} ${match.story.id}: ${match.story.title}` +
+        chalk.gray(` (${match.story.feature || 'backlog'})`)
+    );
+  }
+}
+
+// Snippet text with the matched words highlighted
+function highlightSnippet(snippet: SearchSnippet): string {
+  let result = '';
+  let position = 0;
+  for (const [start, end] of snippet.highlights) {
+    result += chalk.gray(snippet.text.slice(position, start));
+    result += chalk.bold.yellow(snippet.text.slice(start, end));
+    position = end;
+  }
+  return result + chalk.gray(snippet.text.slice(position));
+}
+
+// Ranked search results with snippets
+export function displaySearchResults(
+  stories: Array<SearchResult<Story>>,
+  features: Array<SearchResult<Feature>> = []
+): void {
+  if (features.length > 0) {
+    console.log();
+    console.log(chalk.bold('  Features'));
+    for (const { item, snippet } of features) {
+      const status = statusColors[item.status](item.status);
+      console.log(`    ${chalk.bold(item.id)}: ${item.title} ${chalk.gray('·')} ${status}`);
+      if (snippet && snippet.field !== 'title') {
+        console.log(`      ${chalk.gray(`${snippet.field}:`)} ${highlightSnippet(snippet)}`);
+      }
+    }
+  }
+
+  if (stories.length > 0) {
+    console.log();
+    console.log(chalk.bold('  Stories'));
+    for (const { item, snippet } of stories) {
+      const priority = priorityColors[item.priority](`[${item.priority.charAt(0).toUpperCase()}]`);
+      const status = statusColors[item.status](item.status);
+      console.log(
+        `    ${priority} ${chalk.bold(item.id)}: ${item.title} ` +
+          chalk.gray(`(${item.feature || 'backlog'}) · `) +
+          status
+      );
+      if (snippet && snippet.field !== 'title') {
+        console.log(`      ${chalk.gray(`${snippet.field}:`)} ${highlightSnippet(snippet)}`);
+      }
+    }
+  }
+}
+
+// Session list display
+export function displaySessionList(sessions: Session[]): void {
+  if (sessions.length === 0) {
+    console.log(chalk.gray('  No sessions found.'));
+    return;
+  }
+
+  for (const session of sessions) {
+    const updated = new Date(session.updatedAt).toLocaleString();
+    console.log();
+    console.log(`  ${chalk.bold(session.id)} ${chalk.cyan(`[${session.kind}]`)}`);
+    console.log(chalk.gray(`    ${session.title || 'Untitled'}`));
+    console.log(chalk.gray(`    ${session.messages.length} messages | Updated: ${updated}`));
+  }
+}
+
+// Session transcript display
+export function displaySession(session: Session): void {
+  for (const message of session.messages) {
+    if (typeof message.content === 'string') {
+      if (message.content.startsWith('[Context]')) continue;
+      console.log();
+      if (message.role === 'user') {
+        console.log(chalk.green(`You: ${message.content}`));
+      } else {
+        displayAIResponse(message.content);
+      }
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        console.log();
+        displayAIResponse(String(block.text));
+      } else if (block.type === 'tool_use') {
+        console.log();
+        console.log(chalk.dim(`⚙ Used tool: ${String(block.name)}`));
+      } else if (block.type === 'tool_result') {
+        const result = String(block.content);
+        const preview = result.length > 100 ? `${result.slice(0, 100)}...` : result;
+        console.log(chalk.dim(`  ↳ ${preview}`));
+      }
+    }
+  }
+}
+
 // Progress bar
 export function displayProgress(label: string, current: number, total: number): void {
   const percentage = total > 0 ? Math.round((current / total) * 100) : 0;
@@ -196,12 +912,13 @@ export interface QuestionOption {
   description?: string;
 }
 
-export async function askQuestion(message: string): Promise<string> {
+export async function askQuestion(message: string, defaultValue?: string): Promise<string> {
   const { answer } = await inquirer.prompt([
     {
       type: 'input',
       name: 'answer',
       message,
+      default: defaultValue,
     },
   ]);
   return answer;
@@ -239,7 +956,8 @@ export async function askSelect(
 
 export async function askMultiSelect(
   message: string,
-  options: QuestionOption[]
+  options: QuestionOption[],
+  checked: string[] = []
 ): Promise<string[]> {
   const { selected } = await inquirer.prompt([
     {
@@ -249,6 +967,7 @@ export async function askMultiSelect(
       choices: options.map((opt) => ({
         name: opt.description ? `${opt.label} - ${chalk.gray(opt.description)}` : opt.label,
         value: opt.value,
+        checked: checked.includes(opt.value),
       })),
     },
   ]);
@@ -278,6 +997,11 @@ export function displayAIResponse(text: string): void {
   }
 }
 
+// Write a chunk of streamed AI text as it arrives
+export function displayAIStreamChunk(text: string): void {
+  process.stdout.write(chalk.white(text));
+}
+
 // Draft presentation
 export function displayDraft(title: string, content: Record<string, unknown>): void {
   console.log();
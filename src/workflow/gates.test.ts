@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { story } from '../testing/fixtures.js';
+import { resolveWorkflow, gatesForTransition, changeStoryStatus } from './gates.js';
+
+const workflow = resolveWorkflow({
+  definitionOfReady: {
+    rules: { 'no-open-questions': true, 'min-acceptance-criteria': 2 },
+  },
+  definitionOfDone: {
+    rules: { 'all-criteria-checked': true },
+    checklist: ['Demoed to the product owner'],
+  },
+});
+
+const criteria = (completed: boolean) => [
+  { text: 'Visa and Mastercard are accepted', completed },
+  { text: 'A declined card shows the reason', completed },
+];
+
+describe('gatesForTransition', () => {
+  it('crosses Ready on leaving draft and Done on reaching done', () => {
+    expect(gatesForTransition('draft', 'ready')).toEqual(['ready']);
+    expect(gatesForTransition('draft', 'done')).toEqual(['ready', 'done']);
+    expect(gatesForTransition('in-progress', 'done')).toEqual(['done']);
+    expect(gatesForTransition('done', 'draft')).toEqual([]);
+  });
+});
+
+describe('changeStoryStatus', () => {
+  it('changes the status when the gate passes', async () => {
+    const ready = story('s', { acceptanceCriteria: criteria(false) });
+    const change = await changeStoryStatus(ready, 'ready', workflow);
+    expect(change).toEqual({ allowed: true, failed: [], overridden: false });
+    expect(ready.status).toBe('ready');
+  });
+
+  it('blocks the change and lists what the story is missing', async () => {
+    const draft = story('s', { openQuestions: ['Which cards?'] });
+    const change = await changeStoryStatus(draft, 'ready', workflow);
+    expect(change.allowed).toBe(false);
+    expect(change.failed).toEqual([
+      {
+        gate: 'ready',
+        label: 'Definition of Ready',
+        failures: ['1 open question left', '0 acceptance criteria, needs at least 2'],
+      },
+    ]);
+    expect(draft.status).toBe('draft');
+    expect(draft.gateOverrides).toEqual([]);
+  });
+
+  it('asks for the checklist once the rules pass', async () => {
+    const started = story('s', { status: 'in-progress', acceptanceCriteria: criteria(true) });
+    const unconfirmed = await changeStoryStatus(started, 'done', workflow, {
+      confirmChecklist: async () => [],
+    });
+    expect(unconfirmed.failed[0].failures).toEqual(['not confirmed: Demoed to the product owner']);
+
+    const confirmed = await changeStoryStatus(started, 'done', workflow, {
+      confirmChecklist: async (_gate, items) => items,
+    });
+    expect(confirmed.allowed).toBe(true);
+    expect(started.status).toBe('done');
+  });
+
+  it('records an override when forced', async () => {
+    const draft = story('s');
+    const change = await changeStoryStatus(draft, 'ready', workflow, {
+      force: true,
+      reason: 'Spike',
+    });
+    expect(change).toMatchObject({ allowed: true, overridden: true });
+    expect(draft.status).toBe('ready');
+    expect(draft.gateOverrides).toMatchObject([
+      { gate: 'ready', from: 'draft', to: 'ready', reason: 'Spike' },
+    ]);
+  });
+
+  it('lets every change through when a gate is turned off in the config', async () => {
+    const draft = story('s', { openQuestions: ['Which cards?'] });
+    expect((await changeStoryStatus(draft, 'ready', resolveWorkflow(undefined))).allowed).toBe(
+      true
+    );
+
+    const rulesOff = resolveWorkflow({ definitionOfDone: { rules: {} } });
+    expect((await changeStoryStatus(draft, 'done', rulesOff)).allowed).toBe(true);
+    expect(draft.status).toBe('done');
+  });
+});
+
+describe('resolveWorkflow', () => {
+  it('points at the mistake in the config', () => {
+    expect(() =>
+      resolveWorkflow({ definitionOfReady: { rules: { 'has-estmate': true } } })
+    ).toThrow('Invalid workflow config in one-p.yaml at "workflow.definitionOfReady.rules"');
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  WorkflowConfigSchema,
+  type Definition,
+  type GateName,
+  type Story,
+  type StoryStatus,
+  type WorkflowConfig,
+} from '../models/index.js';
+
+const STATUS_ORDER: Record<StoryStatus, number> = {
+  draft: 0,
+  ready: 1,
+  'in-progress': 2,
+  done: 3,
+};
+
+export const GATE_LABELS: Record<GateName, string> = {
+  ready: 'Definition of Ready',
+  done: 'Definition of Done',
+};
+
+export interface GateResult {
+  gate: GateName;
+  label: string;
+  // Unmet rules and unconfirmed checklist items
+  failures: string[];
+}
+
+export interface StatusChange {
+  allowed: boolean;
+  // Gates that failed, whether or not they were overridden
+  failed: GateResult[];
+  overridden: boolean;
+}
+
+export interface StatusChangeOptions {
+  force?: boolean;
+  reason?: string;
+  // Ask the user to tick the gate's checklist; returns the confirmed items.
+  // Without it, checklist items count as unconfirmed.
+  confirmChecklist?: (gate: GateResult, items: string[]) => Promise<string[]>;
+}
+
+// The project's workflow config; throws a readable error if one-p.yaml has a mistake
+export function resolveWorkflow(config: unknown): WorkflowConfig {
+  if (config === undefined || config === null) {
+    return {};
+  }
+  const parsed = WorkflowConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? ` at "workflow.${issue.path.join('.')}"` : '';
+    throw new Error(`Invalid workflow config in one-p.yaml${where}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// Gates crossed when moving forward: DoR on leaving draft, DoD on reaching done.
+// Moving back never crosses a gate.
+export function gatesForTransition(from: StoryStatus, to: StoryStatus): GateName[] {
+  const gates: GateName[] = [];
+  if (STATUS_ORDER[from] < STATUS_ORDER.ready && STATUS_ORDER[to] >= STATUS_ORDER.ready) {
+    gates.push('ready');
+  }
+  if (from !== 'done' && to === 'done') {
+    gates.push('done');
+  }
+  return gates;
+}
+
+function definitionFor(workflow: WorkflowConfig, gate: GateName): Definition | undefined {
+  return gate === 'ready' ? workflow.definitionOfReady : workflow.definitionOfDone;
+}
+
+// Automatic rules of a definition that the story does not meet
+export function checkDefinitionRules(story: Story, definition: Definition): string[] {
+  const { rules } = definition;
+  const failures: string[] = [];
+
+  const openQuestions = story.openQuestions.filter((q) => q.trim()).length;
+  if (rules['no-open-questions'] && openQuestions > 0) {
+    failures.push(`${openQuestions} open question${openQuestions === 1 ? '' : 's'} left`);
+  }
+
+  const criteria = story.acceptanceCriteria.length;
+  if (criteria < rules['min-acceptance-criteria']) {
+    failures.push(
+      `${criteria} acceptance ${criteria === 1 ? 'criterion' : 'criteria'}, needs at least ${rules['min-acceptance-criteria']}`
+    );
+  }
+
+  if (rules['has-estimate'] && !story.estimate) {
+    failures.push('no estimate');
+  }
+
+  const unchecked = story.acceptanceCriteria.filter((ac) => !ac.completed).length;
+  if (rules['all-criteria-checked'] && unchecked > 0) {
+    failures.push(`${unchecked} of ${criteria} acceptance criteria unchecked`);
+  }
+
+  return failures;
+}
+
+// Check the gates a status change crosses and apply it if they pass or --force is given.
+// Overrides are recorded on the story; the caller saves it.
+export async function changeStoryStatus(
+  story: Story,
+  to: StoryStatus,
+  workflow: WorkflowConfig,
+  options: StatusChangeOptions = {}
+): Promise<StatusChange> {
+  const from = story.status;
+  const failed: GateResult[] = [];
+
+  for (const gate of gatesForTransition(from, to)) {
+    const definition = definitionFor(workflow, gate);
+    if (!definition) continue;
+
+    const result: GateResult = {
+      gate,
+      label: GATE_LABELS[gate],
+      failures: checkDefinitionRules(story, definition),
+    };
+
+    // The checklist is only asked for when the rules pass; --force skips it
+    let unconfirmed: string[] = [];
+    if (options.force) {
+      unconfirmed = definition.checklist;
+    } else if (definition.checklist.length > 0 && result.failures.length === 0) {
+      const confirmed = options.confirmChecklist
+        ? await options.confirmChecklist(result, definition.checklist)
+        : [];
+      unconfirmed = definition.checklist.filter((item) => !confirmed.includes(item));
+    }
+    result.failures.push(...unconfirmed.map((item) => `not confirmed: ${item}`));
+
+    if (result.failures.length > 0) failed.push(result);
+  }
+
+  if (failed.length > 0 && !options.force) {
+    return { allowed: false, failed, overridden: false };
+  }
+
+  const now = new Date().toISOString();
+  for (const result of failed) {
+    story.gateOverrides.push({
+      gate: result.gate,
+      from,
+      to,
+      failures: result.failures,
+      reason: options.reason,
+      overriddenAt: now,
+    });
+  }
+  story.status = to;
+
+  return { allowed: true, failed, overridden: failed.length > 0 };
+}
@@ -0,0 +1,10 @@
+export {
+  resolveWorkflow,
+  gatesForTransition,
+  checkDefinitionRules,
+  changeStoryStatus,
+  GATE_LABELS,
+  type GateResult,
+  type StatusChange,
+  type StatusChangeOptions,
+} from './gates.js';